@@ -0,0 +1,37 @@
+#!/usr/bin/env bash
+# Generates a small multi-rendition HLS stream for testing adaptive playback.
+#
+# Output goes to public/fixtures/hls, which Vite serves at /fixtures/hls. Point a
+# movie at it with:
+#   update movies set manifest_url = '/fixtures/hls/master.m3u8' where id = <id>;
+#
+# Requires ffmpeg.
+set -euo pipefail
+
+OUT_DIR="$(dirname "$0")/../public/fixtures/hls"
+DURATION="${DURATION:-30}"
+
+rm -rf "$OUT_DIR"
+mkdir -p "$OUT_DIR"
+
+# One test-pattern source split into three renditions, each labelled with its height
+ffmpeg -hide_banner -loglevel error \
+  -f lavfi -i "testsrc2=size=1920x1080:rate=30:duration=${DURATION}" \
+  -f lavfi -i "sine=frequency=440:duration=${DURATION}" \
+  -filter_complex "[0:v]split=3[v1][v2][v3]; \
+    [v1]scale=-2:360,drawtext=text='360p':fontsize=48:fontcolor=white:x=20:y=20[v360]; \
+    [v2]scale=-2:720,drawtext=text='720p':fontsize=72:fontcolor=white:x=20:y=20[v720]; \
+    [v3]scale=-2:1080,drawtext=text='1080p':fontsize=96:fontcolor=white:x=20:y=20[v1080]" \
+  -map "[v360]" -map 1:a -map "[v720]" -map 1:a -map "[v1080]" -map 1:a \
+  -c:v libx264 -preset veryfast -g 60 -keyint_min 60 -sc_threshold 0 \
+  -b:v:0 800k -maxrate:v:0 856k -bufsize:v:0 1200k \
+  -b:v:1 2800k -maxrate:v:1 2996k -bufsize:v:1 4200k \
+  -b:v:2 5000k -maxrate:v:2 5350k -bufsize:v:2 7500k \
+  -c:a aac -b:a 128k -ac 2 \
+  -f hls -hls_time 2 -hls_playlist_type vod -hls_flags independent_segments \
+  -hls_segment_filename "$OUT_DIR/v%v/segment_%03d.ts" \
+  -master_pl_name master.m3u8 \
+  -var_stream_map "v:0,a:0 v:1,a:1 v:2,a:2" \
+  "$OUT_DIR/v%v/index.m3u8"
+
+echo "HLS fixture written to $OUT_DIR/master.m3u8 (served at /fixtures/hls/master.m3u8)"
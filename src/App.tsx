@@ -8,59 +8,44 @@ import MovieDetailPage from './components/MovieDetailPage';
 import WatchHistoryPage from './components/WatchHistoryPage';
 import WatchlistPage from './components/WatchlistPage';
 import ProfilePage from './components/ProfilePage';
+import HighlightedText from './components/HighlightedText';
+import BrowsePage from './components/BrowsePage';
+import CategorySection from './components/CategorySection';
 import TransactionHistoryPage from './components/TransactionHistoryPage';
 import { supabase } from './lib/supabase';
-import { useWatchHistory } from './hooks/useWatchHistory';
+import { useWatchHistory, SaveProgressOptions } from './hooks/useWatchHistory';
 import { useWatchlist } from './hooks/useWatchlist';
-import { Movie, MovieWithProgress } from './types/database';
+import { useSyncRejections } from './hooks/useSyncRejections';
+import { useRouter } from './hooks/useRouter';
+import { useMovieSearch } from './hooks/useMovieSearch';
+import { useTags } from './hooks/useTags';
+import { useHomeRails } from './hooks/useHomeRails';
+import { useRecommendations } from './hooks/useRecommendations';
+import { useBrowseMovies } from './hooks/useBrowseMovies';
+import { Movie, MovieWithProgress, BrowseSort, RecommendationRail, ContinueWatchingItem } from './types/database';
+import { Route, MovieRoute, buildPath, parseRoute, isMovieRoute, requiresAuth } from './utils/routes';
 import { useError } from './contexts/ErrorContext';
 import { withRetry, getErrorMessage, createErrorMessage } from './utils/errorHandling';
+import { formatViewCount, formatEpisodeCount, formatResumePosition } from './utils/formatting';
 
-// Helper functions for filtering and sorting
-const filterMoviesByGenre = (movies: Movie[], genre: string): Movie[] => {
-  if (genre === 'All') return movies;
-  return movies.filter(movie => movie.genre === genre);
+// Locale codes for the language menu, used to pick the home rails
+const LANGUAGE_LOCALES: Record<string, string> = {
+  English: 'en',
+  Spanish: 'es',
+  French: 'fr'
 };
 
-const filterMoviesByTheme = (movies: Movie[], theme: string): Movie[] => {
-  if (theme === 'All') return movies;
-  return movies.filter(movie => 
-    movie.genre.toLowerCase().includes(theme.toLowerCase()) ||
-    movie.title.toLowerCase().includes(theme.toLowerCase()) ||
-    (movie.synopsis && movie.synopsis.toLowerCase().includes(theme.toLowerCase()))
-  );
-};
-
-const parseViewCount = (viewCount: string): number => {
-  const num = parseFloat(viewCount);
-  if (viewCount.includes('M')) return num * 1000000;
-  if (viewCount.includes('K')) return num * 1000;
-  return num;
-};
-
-const sortMovies = (movies: Movie[], sortOption: string): Movie[] => {
-  const sorted = [...movies];
-  
-  switch (sortOption) {
-    case 'popularity':
-      return sorted.sort((a, b) => parseViewCount(b.view_count) - parseViewCount(a.view_count));
-    case 'newest':
-      return sorted.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-    case 'oldest':
-      return sorted.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
-    case 'alphabetical':
-      return sorted.sort((a, b) => a.title.localeCompare(b.title));
-    case 'episodes':
-      return sorted.sort((a, b) => (b.episodes || 0) - (a.episodes || 0));
-    default:
-      return sorted;
-  }
-};
-
-const getFilteredAndSortedMovies = (movies: Movie[], genreFilter: string, themeFilter: string, sortOption: string): Movie[] => {
-  let filtered = filterMoviesByGenre(movies, genreFilter);
-  filtered = filterMoviesByTheme(filtered, themeFilter);
-  return sortMovies(filtered, sortOption);
+// Route that plays a movie: series episodes get their own series URL
+const getPlayRoute = (movie: Movie): MovieRoute =>
+  movie.series_id && movie.episode_number
+    ? { name: 'episode', seriesId: movie.series_id, episodeNumber: movie.episode_number }
+    : { name: 'watch', movieId: movie.id };
+
+const matchesRoute = (movie: Movie, route: Route): boolean => {
+  if (!isMovieRoute(route)) return false;
+  return route.name === 'episode'
+    ? movie.series_id === route.seriesId && movie.episode_number === route.episodeNumber
+    : movie.id === route.movieId;
 };
 
 const HeroCarousel: React.FC<{ movies: Movie[]; onHeroPlayClick: (movie: Movie) => void }> = ({ movies, onHeroPlayClick }) => {
@@ -151,7 +136,7 @@ const HeroCarousel: React.FC<{ movies: Movie[]; onHeroPlayClick: (movie: Movie)
             )}
             
             <h1 className="text-2xl md:text-5xl font-bold mb-2 md:mb-3">{currentMovie.title}</h1>
-            <p className="text-sm md:text-xl text-gray-300 mb-3 md:mb-4">{currentMovie.episodes} Episodes</p>
+            <p className="text-sm md:text-xl text-gray-300 mb-3 md:mb-4">{formatEpisodeCount(currentMovie.episodes)}</p>
             <p className="text-gray-200 text-sm md:text-lg leading-relaxed mb-4 md:mb-6 max-w-3xl">
               {currentMovie.synopsis}
             </p>
@@ -161,7 +146,7 @@ const HeroCarousel: React.FC<{ movies: Movie[]; onHeroPlayClick: (movie: Movie)
               </span>
               <span className="text-gray-400 flex items-center text-sm md:text-base">
                 <Play className="w-4 h-4 mr-1" />
-                {currentMovie.view_count} views
+                {formatViewCount(currentMovie.view_count)} views
               </span>
             </div>
             <button className="bg-white text-black px-6 md:px-10 py-2 md:py-4 rounded-lg font-semibold hover:bg-gray-200 transition-colors flex items-center text-sm md:text-lg"
@@ -189,33 +174,7 @@ const HeroCarousel: React.FC<{ movies: Movie[]; onHeroPlayClick: (movie: Movie)
   );
 };
 
-const CategorySection: React.FC<{ title: string; movies: Movie[]; onMovieClick: (movie: Movie) => void }> = ({ title, movies, onMovieClick }) => {
-  return (
-    <div className="mb-8">
-      <div className="flex items-center justify-between mb-4 px-6">
-        <h2 className="text-white text-xl font-semibold">{title}</h2>
-        <button className="text-gray-400 hover:text-white transition-colors text-sm font-medium flex items-center">
-          More
-          <ChevronRight className="w-4 h-4 ml-1" />
-        </button>
-      </div>
-      <div className="px-6">
-        <div className="flex space-x-4 overflow-x-auto scrollbar-hide pb-4">
-          {movies.map((movie) => (
-            <MovieCard 
-              key={movie.id} 
-              movie={movie} 
-              showEpisodes={false}
-              onClick={() => onMovieClick(movie)}
-            />
-          ))}
-        </div>
-      </div>
-    </div>
-  );
-};
-
-const ContinueWatchingSection: React.FC<{ movies: MovieWithProgress[]; loading: boolean; onMovieClick: (movie: MovieWithProgress) => void }> = ({ movies, loading, onMovieClick }) => {
+const ContinueWatchingSection: React.FC<{ movies: ContinueWatchingItem[]; loading: boolean; onMovieClick: (movie: MovieWithProgress) => void; onResume: (movie: MovieWithProgress) => void }> = ({ movies, loading, onMovieClick, onResume }) => {
   if (loading) {
     return (
       <div className="mb-8">
@@ -233,7 +192,10 @@ const ContinueWatchingSection: React.FC<{ movies: MovieWithProgress[]; loading:
     );
   }
 
-  if (movies.length === 0) {
+  // Titles with nothing left to watch stay in the history page only
+  const inProgress = movies.filter(movie => !movie.is_completed);
+
+  if (inProgress.length === 0) {
     return null; // Don't show the section if there's no watch history
   }
 
@@ -248,14 +210,31 @@ const ContinueWatchingSection: React.FC<{ movies: MovieWithProgress[]; loading:
       </div>
       <div className="px-6">
         <div className="flex space-x-4 overflow-x-auto scrollbar-hide pb-4">
-          {movies.map((movie) => (
-            <MovieCard 
-              key={movie.id} 
-              movie={movie} 
-              showEpisodes={true}
-              showProgress={true}
-              onClick={() => onMovieClick(movie)}
-            />
+          {inProgress.map((movie) => (
+            <div key={movie.id} className="flex-shrink-0 w-48">
+              {/* A series card shows the series; the episode only decides where Resume goes */}
+              <MovieCard 
+                movie={{ ...movie, title: movie.series_title || movie.title }} 
+                showEpisodes={false}
+                onClick={() => onMovieClick(movie)}
+              />
+              <div className="mt-2">
+                <div className="h-1 bg-gray-700 rounded-full overflow-hidden">
+                  <div 
+                    className="h-full bg-red-500 transition-all duration-300"
+                    style={{ width: `${movie.completion_percent}%` }}
+                  />
+                </div>
+                <p className="text-gray-400 text-xs mt-2">{formatResumePosition(movie)}</p>
+                <button
+                  onClick={() => onResume(movie)}
+                  className="mt-2 w-full bg-white/10 hover:bg-white/20 text-white text-sm font-medium py-1.5 rounded flex items-center justify-center transition-colors"
+                >
+                  <Play className="w-4 h-4 mr-1 fill-current" />
+                  Resume
+                </button>
+              </div>
+            </div>
           ))}
         </div>
       </div>
@@ -310,15 +289,66 @@ const WatchlistSection: React.FC<{ movies: MovieWithProgress[]; loading: boolean
   );
 };
 
+const RecommendationsSection: React.FC<{ rails: RecommendationRail[]; popular: Movie[]; loading: boolean; onMovieClick: (movie: Movie) => void }> = ({ rails, popular, loading, onMovieClick }) => {
+  if (loading) {
+    return (
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4 px-6">
+          <div className="h-6 w-56 bg-gray-800 rounded animate-pulse" />
+        </div>
+        <div className="px-6">
+          <div className="flex space-x-4 overflow-x-auto scrollbar-hide pb-4">
+            {Array.from({ length: 6 }).map((_, index) => (
+              <SkeletonCard key={index} />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Without any history to go on, fall back to what's popular
+  const sections = rails.length > 0
+    ? rails.map(rail => ({
+        key: `seed-${rail.seedMovieId}`,
+        title: rail.seedSource === 'watchlist' ? `Because you saved ${rail.seedTitle}` : `Because you watched ${rail.seedTitle}`,
+        movies: rail.movies
+      }))
+    : [{ key: 'popular', title: 'Popular Right Now', movies: popular }];
+
+  return (
+    <>
+      {sections.filter(section => section.movies.length > 0).map(section => (
+        <div key={section.key} className="mb-8">
+          <div className="flex items-center justify-between mb-4 px-6">
+            <h2 className="text-white text-xl font-semibold">{section.title}</h2>
+          </div>
+          <div className="px-6">
+            <div className="flex space-x-4 overflow-x-auto scrollbar-hide pb-4">
+              {section.movies.map((movie) => (
+                <MovieCard 
+                  key={movie.id} 
+                  movie={movie} 
+                  showEpisodes={false}
+                  onClick={() => onMovieClick(movie)}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+};
+
 const App: React.FC = () => {
-  // Page navigation state
-  const [currentPage, setCurrentPage] = useState<'home' | 'watchHistory' | 'watchlist' | 'profile' | 'transactionHistory'>('home');
+  // Page navigation state, driven by the URL
+  const { route, pageRoute, navigate, closeModal } = useRouter();
+  const currentPage = pageRoute.name;
+  const routeKey = buildPath(route);
   
   // Movie data state
   const [movies, setMovies] = useState<Movie[]>([]);
-  const [page, setPage] = useState(1);
-  const [hasMoreMovies, setHasMoreMovies] = useState(true);
-  const [loadingMoreMovies, setLoadingMoreMovies] = useState(false);
   const [moviesLoading, setMoviesLoading] = useState(true);
   const [moviesError, setMoviesError] = useState<string | null>(null);
   
@@ -326,55 +356,59 @@ const App: React.FC = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [selectedLanguage, setSelectedLanguage] = useState('English');
   const [selectedGenreFilter, setSelectedGenreFilter] = useState('All');
-  const [selectedThemeFilter, setSelectedThemeFilter] = useState('All');
-  const [selectedSortOption, setSortOption] = useState('popularity');
+  const [selectedTagFilter, setSelectedTagFilter] = useState('All');
+  const [selectedBadgeFilter, setSelectedBadgeFilter] = useState('All');
+  const [selectedSortOption, setSortOption] = useState<BrowseSort>('popularity');
   
   // Auth state
   const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [showAuthPage, setShowAuthPage] = useState(false);
+  const [sessionChecked, setSessionChecked] = useState(false);
   const [user, setUser] = useState<any>(null);
   
-  // Movie interaction state
+  // Movie interaction state; overlays are opened by modal routes
   const [selectedMovie, setSelectedMovie] = useState<MovieWithProgress | null>(null);
-  const [showVideoPlayer, setShowVideoPlayer] = useState(false);
+  // Set when the player should start at a position without offering to resume
+  const [playerStartTime, setPlayerStartTime] = useState<number | null>(null);
+  // Episodes in a row the player moved on to by itself, for the "still watching?" check
+  const [autoplayStreak, setAutoplayStreak] = useState(0);
   const [selectedMovieForDetails, setSelectedMovieForDetails] = useState<MovieWithProgress | null>(null);
-  const [showMovieDetails, setShowMovieDetails] = useState(false);
+  const [routeMovieLoading, setRouteMovieLoading] = useState(false);
+  const showAuthPage = route.name === 'signIn';
+  const showMovieDetails = route.name === 'title';
+  const showVideoPlayer = route.name === 'watch' || route.name === 'episode';
   
-  // Search state
+  // Search state; ranking and typo tolerance come from the search_movies RPC
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredMovies, setFilteredMovies] = useState<Movie[]>([]);
-  const [searchLoading, setSearchLoading] = useState(false);
-  const [searchError, setSearchError] = useState<string | null>(null);
+  const {
+    results: searchResults,
+    suggestions: searchSuggestions,
+    totalCount: searchTotalCount,
+    loading: searchLoading,
+    loadingMore: searchLoadingMore,
+    error: searchError,
+    hasMore: hasMoreSearchResults,
+    loadMore: loadMoreSearchResults,
+    retry: retrySearch
+  } = useMovieSearch(searchQuery, selectedGenreFilter === 'All' ? {} : { genre: selectedGenreFilter });
+  const filteredMovies = searchResults;
   const [watchlistActionLoading, setWatchlistActionLoading] = useState(false);
   
   // Error handling
   const { addError } = useError();
+  useSyncRejections();
   
   // Generate available genres from movies data
   const availableGenres = ['All', ...new Set(movies.map(movie => movie.genre))];
   
-  // Define specific themes for the Theme dropdown
-  const availableThemes = [
-    'All', 'Werewolf', 'BL', 'CEO', 'Revenge', 'Mafia', 'Second Chance', 
-    'Contract Marriage', 'Billionaire', 'Love Triangle', 'Paranormal', 
-    'Concealed Identity', 'Forbidden Love', 'Betrayal', 'Urban', 
-    'Rags-To-Riches', 'Love at First Sight', 'Comedy', 'Romance', 
-    'Fantasy', 'Mystery', 'Suspense', 'Drama', 'Action', 'Thriller'
-  ];
+  // Tag taxonomy for the Theme menu; picking one opens the browse view
+  const { tags: availableTags } = useTags();
+  const browseTag = (slug?: string) => navigate({ name: 'browse', tags: slug ? [slug] : [], match: 'any' });
+  
+  // Home page rails, configured per locale in the home_rails table
+  const { rails: homeRails } = useHomeRails(LANGUAGE_LOCALES[selectedLanguage] || 'en');
   
-  // Generate categories dynamically from fetched movies
-  const categories = [
-    { title: 'Trending', movies: movies.slice(2, 7) },
-    { title: 'Popular', movies: movies.slice(1, 6) },
-    { title: 'New', movies: sortMovies(movies.filter(m => m.badge === 'New'), 'newest') },
-    { title: 'African', movies: movies.slice(3, 8) },
-    { title: 'Romance', movies: movies.filter(m => m.genre.includes('Romance') || m.genre === 'BL') },
-    { title: 'Documentary', movies: movies.slice(0, 3) },
-    { title: 'Animation', movies: movies.slice(4, 7) },
-    { title: 'Podcast', movies: movies.slice(1, 4) },
-    { title: 'Movies', movies: movies.slice(0, 5) },
-    { title: 'TV Series', movies: movies.slice(3, 8) }
-  ];
+  // "Because you watched" rails, or popular titles for guests
+  const { rails: recommendationRails, popular: popularMovies, loading: recommendationsLoading } = useRecommendations(user?.id || null);
   
   // Use the watch history hook
   const { continueWatching, loading: watchHistoryLoading, addToWatchHistory } = useWatchHistory(user?.id || null);
@@ -384,13 +418,14 @@ const App: React.FC = () => {
     watchlist, 
     loading: watchlistLoading, 
     addToWatchlist, 
+    addToWatchlistWithCategory,
     removeFromWatchlist, 
     isInWatchlist 
   } = useWatchlist(user?.id || null);
 
   // Prevent body scrolling when modal-like components are open
   useEffect(() => {
-    const shouldPreventScroll = showAuthPage || selectedMovieForDetails || showVideoPlayer;
+    const shouldPreventScroll = showAuthPage || showMovieDetails || showVideoPlayer;
     
     if (shouldPreventScroll) {
       // Store original overflow style
@@ -402,24 +437,19 @@ const App: React.FC = () => {
         document.body.style.overflow = originalStyle;
       };
     }
-  }, [showAuthPage, selectedMovieForDetails, showVideoPlayer]);
+  }, [showAuthPage, showMovieDetails, showVideoPlayer]);
 
   // Fetch movies from Supabase
-  const fetchMovies = async (pageNum: number = 1, limit: number = 24, append: boolean = false) => {
-    if (pageNum === 1) {
-      setMoviesLoading(true);
-    } else {
-      setLoadingMoreMovies(true);
-    }
+  // Latest catalog titles (movies and series, not single episodes) for the hero and genre menu;
+  // the full catalog is paged by useBrowseMovies
+  const fetchMovies = async (limit: number = 24) => {
+    setMoviesLoading(true);
     setMoviesError(null);
     
     try {
-      const startRange = (pageNum - 1) * limit;
-      const endRange = pageNum * limit - 1;
-      
       const { data, error } = await withRetry(async () => {
         const result = await supabase
-          .from('movies')
+          .rpc('browse_movies', { p_sort: 'newest', p_limit: limit })
           .select(`
             id,
             title,
@@ -434,10 +464,7 @@ const App: React.FC = () => {
             created_at,
             series_id,
             episode_number
-          `)
-          .or('series_id.is.null,episode_number.eq.1')
-          .range(startRange, endRange)
-          .order('created_at', { ascending: false });
+          `);
         
         if (result.error) throw result.error;
         return result;
@@ -450,14 +477,7 @@ const App: React.FC = () => {
       // Debug log to check movie data from main fetch
       console.log('Movie from fetchMovies:', newMovies[0]?.title, 'series_id:', newMovies[0]?.series_id);
       
-      if (append && pageNum > 1) {
-        setMovies(prevMovies => [...prevMovies, ...newMovies]);
-      } else {
-        setMovies(newMovies);
-      }
-      
-      // Check if there are more movies to load
-      setHasMoreMovies(newMovies.length === limit);
+      setMovies(newMovies);
       
     } catch (err: any) {
       console.error('Error fetching movies:', err);
@@ -468,105 +488,27 @@ const App: React.FC = () => {
       addError(createErrorMessage(
         'Failed to load movies. Please check your connection and try again.',
         'error',
-        () => fetchMovies(pageNum, limit, append),
+        () => fetchMovies(limit),
         'Retry'
       ));
       
-      if (!append) {
-        setMovies([]); // Set empty array on error only for initial load
-      }
+      setMovies([]);
     } finally {
-      if (pageNum === 1) {
-        setMoviesLoading(false);
-      } else {
-        setLoadingMoreMovies(false);
-      }
+      setMoviesLoading(false);
     }
   };
 
   // Fetch movies on component mount
   useEffect(() => {
-    fetchMovies(1, 24, false);
+    fetchMovies();
   }, []);
 
-  // Search functionality with Supabase
-  const performSearch = async (query: string) => {
-    if (query.trim() === '') {
-      setFilteredMovies([]);
-      setSearchLoading(false);
-      setSearchError(null);
-      return;
-    }
-
-    setSearchLoading(true);
-    setSearchError(null);
-
-    try {
-      const searchTerm = `%${query.trim()}%`;
-      
-      const { data, error } = await withRetry(async () => {
-        const result = await supabase
-          .from('movies')
-          .select(`
-            id,
-            title,
-            genre,
-            view_count,
-            poster_url,
-            landscape_poster_url,
-            badge,
-            synopsis,
-            episodes,
-            duration_seconds,
-            created_at
-          `)
-          .or(`title.ilike.${searchTerm},genre.ilike.${searchTerm}`)
-          .order('view_count', { ascending: false });
-        
-        if (result.error) throw result.error;
-        return result;
-      });
-
-      if (error) throw error;
-
-      let searchResults = data || [];
-      
-      // Apply genre filter to search results
-      searchResults = filterMoviesByGenre(searchResults, selectedGenreFilter);
-      
-      // Apply theme filter to search results
-      searchResults = filterMoviesByTheme(searchResults, selectedThemeFilter);
-      
-      // Apply sorting to search results
-      searchResults = sortMovies(searchResults, selectedSortOption);
-      
-      setFilteredMovies(searchResults);
-    } catch (err: any) {
-      console.error('Error searching movies:', err);
-      const errorMessage = getErrorMessage(err);
-      setSearchError(errorMessage);
-      
-      addError(createErrorMessage(
-        'Search failed. Please try again.',
-        'error',
-        () => performSearch(query),
-        'Retry Search'
-      ));
-      
-      setFilteredMovies([]);
-    } finally {
-      setSearchLoading(false);
-    }
-  };
-
-  // Debounced search effect
-  useEffect(() => {
-    const timeoutId = setTimeout(() => {
-      performSearch(searchQuery);
-    }, 400); // 400ms debounce - optimized for better UX
-
-    return () => clearTimeout(timeoutId);
-  }, [searchQuery, selectedGenreFilter, selectedThemeFilter, selectedSortOption]);
+  // "All Titles" grid: filtered, sorted and paged by the server
+  const browse = useBrowseMovies({
+    genre: selectedGenreFilter !== 'All' ? selectedGenreFilter : undefined,
+    badge: selectedBadgeFilter !== 'All' ? selectedBadgeFilter : undefined,
+    tags: selectedTagFilter !== 'All' ? [selectedTagFilter] : undefined
+  }, selectedSortOption);
 
   // Infinite scroll implementation
   useEffect(() => {
@@ -574,25 +516,19 @@ const App: React.FC = () => {
       if (
         window.innerHeight + document.documentElement.scrollTop >= 
         document.documentElement.offsetHeight - 1000 && // Trigger 1000px before bottom
-        hasMoreMovies &&
-        !loadingMoreMovies &&
-        !moviesLoading &&
         !searchQuery && // Only for main content, not search results
         currentPage === 'home'
       ) {
-        const nextPage = page + 1;
-        setPage(nextPage);
-        fetchMovies(nextPage, 24, true);
+        browse.loadMore();
       }
     };
 
     window.addEventListener('scroll', handleScroll);
     return () => window.removeEventListener('scroll', handleScroll);
-  }, [hasMoreMovies, loadingMoreMovies, moviesLoading, searchQuery, currentPage, page]);
+  }, [browse.hasMore, browse.loading, browse.loadingMore, searchQuery, currentPage]);
 
   const clearSearch = () => {
     setSearchQuery('');
-    setSearchError(null);
   };
 
   // Check for existing session on app load
@@ -603,6 +539,7 @@ const App: React.FC = () => {
         setUser(session.user);
         setIsLoggedIn(true);
       }
+      setSessionChecked(true);
     };
 
     checkSession();
@@ -623,8 +560,112 @@ const App: React.FC = () => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Report the outcome when Stripe Checkout redirects back to the app
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const checkoutStatus = params.get('checkout');
+    if (!checkoutStatus) return;
+
+    if (checkoutStatus === 'success') {
+      addError(createErrorMessage(
+        'Payment received! Your coins will appear in your balance shortly.',
+        'success'
+      ));
+    } else if (checkoutStatus === 'cancelled') {
+      addError(createErrorMessage(
+        'Checkout was cancelled. You have not been charged.',
+        'info'
+      ));
+    }
+
+    params.delete('checkout');
+    params.delete('session_id');
+    const query = params.toString();
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }, []);
+
+  // Load the movie a title or player URL points at when it isn't already in memory
+  const fetchRouteMovie = async (target: MovieRoute): Promise<MovieWithProgress | null> => {
+    const loaded = [...continueWatching, ...watchlist, ...movies].find(movie => matchesRoute(movie, target));
+    if (loaded) return { ...loaded };
+
+    const { data, error } = await withRetry(async () => {
+      const query = supabase.from('movies').select('*');
+      const result = await (target.name === 'episode'
+        ? query.eq('series_id', target.seriesId).eq('episode_number', target.episodeNumber)
+        : query.eq('id', target.movieId)
+      ).maybeSingle();
+      if (result.error) throw result.error;
+      return result;
+    });
+
+    if (error) throw error;
+    return data as MovieWithProgress | null;
+  };
+
+  const loadRouteMovie = async (target: MovieRoute) => {
+    setRouteMovieLoading(true);
+
+    try {
+      const movie = await fetchRouteMovie(target);
+      // Ignore the result if the user navigated elsewhere while it loaded
+      if (buildPath(parseRoute(window.location.pathname, window.location.search)) !== buildPath(target)) return;
+
+      if (!movie) {
+        addError(createErrorMessage('That title could not be found.', 'warning'));
+        closeModal();
+        return;
+      }
+
+      if (target.name === 'title') {
+        setSelectedMovieForDetails(movie);
+      } else {
+        // ?t= overrides the saved position so shared links start where they were shared
+        setSelectedMovie(movie);
+        setPlayerStartTime(target.startTime ?? null);
+      }
+    } catch (err) {
+      console.error('Error loading movie for route:', err);
+      addError(createErrorMessage(
+        'Failed to load this title. Please try again.',
+        'error',
+        () => loadRouteMovie(target),
+        'Retry'
+      ));
+    } finally {
+      setRouteMovieLoading(false);
+    }
+  };
+
+  // Restore the detail and player overlays from the URL
+  useEffect(() => {
+    if (!isMovieRoute(route)) return;
+
+    const loaded = route.name === 'title' ? selectedMovieForDetails : selectedMovie;
+    if (!loaded || !matchesRoute(loaded, route)) {
+      loadRouteMovie(route);
+    }
+  }, [routeKey]);
+
+  // Signed-out visitors landing on a private page are asked to sign in first
+  useEffect(() => {
+    if (sessionChecked && !isLoggedIn && requiresAuth(pageRoute) && !showAuthPage) {
+      navigate({ name: 'signIn' }, { replace: true });
+    }
+  }, [sessionChecked, isLoggedIn, routeKey]);
+
   const handleAuthSuccess = () => {
-    setShowAuthPage(false);
+    closeModal();
+  };
+
+  const handleCloseAuthPage = () => {
+    // The page behind is private, so there is nothing to go back to
+    if (!isLoggedIn && requiresAuth(pageRoute)) {
+      navigate({ name: 'home' }, { replace: true });
+      return;
+    }
+
+    closeModal();
   };
 
   const handleLogout = async () => {
@@ -632,7 +673,7 @@ const App: React.FC = () => {
       await supabase.auth.signOut();
       setIsLoggedIn(false);
       setUser(null);
-      setCurrentPage('home'); // Reset to home page on logout
+      navigate({ name: 'home' }); // Reset to home page on logout
       
       addError(createErrorMessage(
         'Successfully signed out.',
@@ -659,41 +700,63 @@ const App: React.FC = () => {
     };
     
     setSelectedMovieForDetails(movieWithProgress);
-    setShowMovieDetails(true);
+    navigate({ name: 'title', movieId: movie.id });
   };
 
   const handleWatchNow = (movie: MovieWithProgress) => {
+    setAutoplayStreak(0);
     setSelectedMovie(movie);
-    setShowVideoPlayer(true);
-    setShowMovieDetails(false);
+    setPlayerStartTime(null);
+    // The player takes the place of the detail overlay
+    navigate(getPlayRoute(movie), { replace: showMovieDetails });
+  };
+
+  // Resume buttons already say where to start, so the player does not ask again
+  const handleResume = (movie: MovieWithProgress) => {
+    handleWatchNow(movie);
+    setPlayerStartTime(movie.progress_seconds || 0);
   };
 
   const handleCloseMovieDetails = () => {
-    setShowMovieDetails(false);
-    setSelectedMovieForDetails(null);
+    closeModal();
   };
 
   const handleCloseVideoPlayer = () => {
-    setShowVideoPlayer(false);
-    setSelectedMovie(null);
+    closeModal();
+  };
+
+  const handleEpisodeEnded = (nextEpisode: MovieWithProgress | null, autoplayed: boolean) => {
+    if (!nextEpisode) {
+      closeModal();
+      return;
+    }
+
+    setAutoplayStreak(prev => (autoplayed ? prev + 1 : 0));
+    setSelectedMovie(nextEpisode);
+    setPlayerStartTime(null);
+    navigate(getPlayRoute(nextEpisode), { replace: true });
   };
 
-  const handleProgressUpdate = async (movieId: number, progressSeconds: number, totalDurationSeconds: number) => {
+  const handleProgressUpdate = async (
+    movie: MovieWithProgress,
+    progressSeconds: number,
+    totalDurationSeconds: number,
+    options?: SaveProgressOptions
+  ) => {
     if (user?.id) {
-      await addToWatchHistory(movieId, progressSeconds, totalDurationSeconds);
+      await addToWatchHistory(movie, progressSeconds, totalDurationSeconds, options);
     }
   };
 
+  // The heart flips straight away; useWatchlist rolls it back if the write fails
   const handleToggleWatchlist = async () => {
     if (!selectedMovieForDetails || !user?.id) return;
 
-    setWatchlistActionLoading(true);
-    
     try {
       if (isInWatchlist(selectedMovieForDetails.id)) {
         await removeFromWatchlist(selectedMovieForDetails.id);
       } else {
-        await addToWatchlist(selectedMovieForDetails.id);
+        await addToWatchlist(selectedMovieForDetails.id, selectedMovieForDetails);
       }
     } catch (error) {
       console.error('Error toggling watchlist:', error);
@@ -703,8 +766,6 @@ const App: React.FC = () => {
         handleToggleWatchlist,
         'Retry'
       ));
-    } finally {
-      setWatchlistActionLoading(false);
     }
   };
 
@@ -714,7 +775,7 @@ const App: React.FC = () => {
     setWatchlistActionLoading(true);
     
     try {
-      await addToWatchlistWithCategory(selectedMovieForDetails.id, categoryId);
+      await addToWatchlistWithCategory(selectedMovieForDetails.id, categoryId, selectedMovieForDetails);
     } catch (error) {
       console.error('Error adding to watchlist with category:', error);
       addError(createErrorMessage(
@@ -742,7 +803,7 @@ const App: React.FC = () => {
             {/* Center: Desktop Navigation */}
             <div className="hidden md:flex items-center space-x-6">
               <button 
-                onClick={() => setCurrentPage('home')}
+                onClick={() => navigate({ name: 'home' })}
                 className={`transition-colors ${currentPage === 'home' ? 'text-white' : 'text-gray-400 hover:text-white'}`}
               >
                 Home
@@ -756,15 +817,21 @@ const App: React.FC = () => {
                 </button>
                 <div className="absolute top-full left-0 mt-2 w-48 bg-gray-900 border border-gray-700 rounded-lg shadow-xl opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-50">
                   <div className="py-2 max-h-64 overflow-y-auto scrollbar-hide">
-                    {availableThemes.map((theme) => (
+                    <button
+                      onClick={() => browseTag()}
+                      className="w-full text-left px-4 py-2 text-sm transition-colors hover:bg-gray-800 text-gray-300"
+                    >
+                      All Themes
+                    </button>
+                    {availableTags.map((tag) => (
                       <button
-                        key={theme}
-                        onClick={() => setSelectedThemeFilter(theme)}
+                        key={tag.id}
+                        onClick={() => browseTag(tag.slug)}
                         className={`w-full text-left px-4 py-2 text-sm transition-colors hover:bg-gray-800 ${
-                          selectedThemeFilter === theme ? 'text-blue-400 bg-gray-800' : 'text-gray-300'
+                          pageRoute.name === 'browse' && pageRoute.tags.includes(tag.slug) ? 'text-blue-400 bg-gray-800' : 'text-gray-300'
                         }`}
                       >
-                        {theme}
+                        {tag.name}
                       </button>
                     ))}
                   </div>
@@ -774,13 +841,13 @@ const App: React.FC = () => {
               {isLoggedIn && (
                 <>
                   <button 
-                    onClick={() => setCurrentPage('watchHistory')}
+                    onClick={() => navigate({ name: 'watchHistory' })}
                     className={`transition-colors ${currentPage === 'watchHistory' ? 'text-white' : 'text-gray-400 hover:text-white'}`}
                   >
                     Continue Watching
                   </button>
                   <button 
-                    onClick={() => setCurrentPage('watchlist')}
+                    onClick={() => navigate({ name: 'watchlist' })}
                     className={`transition-colors ${currentPage === 'watchlist' ? 'text-white' : 'text-gray-400 hover:text-white'}`}
                   >
                     My Watchlist
@@ -848,7 +915,7 @@ const App: React.FC = () => {
                 <div className="flex items-center space-x-2">
                   {/* User Profile Button with Avatar */}
                   <button
-                    onClick={() => setCurrentPage('profile')}
+                    onClick={() => navigate({ name: 'profile' })}
                     className="hidden sm:flex items-center space-x-2 text-gray-300 hover:text-white transition-colors bg-gray-800 hover:bg-gray-700 px-3 py-1 rounded-lg"
                   >
                     <User className="w-4 h-4" />
@@ -863,7 +930,7 @@ const App: React.FC = () => {
                 </div>
               ) : (
                 <button
-                  onClick={() => setShowAuthPage(true)}
+                  onClick={() => navigate({ name: 'signIn' })}
                   className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors"
                 >
                   Sign In
@@ -885,7 +952,7 @@ const App: React.FC = () => {
             <div className="md:hidden mt-4 pb-4 border-t border-gray-800 pt-4">
               <div className="flex flex-col space-y-4">
                 <button 
-                  onClick={() => setCurrentPage('home')}
+                  onClick={() => navigate({ name: 'home' })}
                   className={`transition-colors ${currentPage === 'home' ? 'text-white' : 'text-gray-400 hover:text-white'}`}
                 >
                   Home
@@ -895,13 +962,14 @@ const App: React.FC = () => {
                 <div>
                   <label className="text-white font-medium text-sm mb-2 block">Theme:</label>
                   <select
-                    value={selectedThemeFilter}
-                    onChange={(e) => setSelectedThemeFilter(e.target.value)}
+                    value={pageRoute.name === 'browse' && pageRoute.tags.length === 1 ? pageRoute.tags[0] : ''}
+                    onChange={(e) => browseTag(e.target.value)}
                     className="bg-gray-800 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 hover:border-gray-500 transition-colors w-full"
                   >
-                    {availableThemes.map((theme) => (
-                      <option key={theme} value={theme} className="bg-gray-800">
-                        {theme}
+                    <option value="" className="bg-gray-800">All Themes</option>
+                    {availableTags.map((tag) => (
+                      <option key={tag.id} value={tag.slug} className="bg-gray-800">
+                        {tag.name}
                       </option>
                     ))}
                   </select>
@@ -911,7 +979,7 @@ const App: React.FC = () => {
                 {/* Mobile Theme Filter */}
                 <div>
                     <button 
-                      onClick={() => setCurrentPage('watchHistory')}
+                      onClick={() => navigate({ name: 'watchHistory' })}
                       className={`transition-colors ${currentPage === 'watchHistory' ? 'text-white' : 'text-gray-400 hover:text-white'}`}
                     >
                       Continue Watching
@@ -940,13 +1008,13 @@ const App: React.FC = () => {
       {/* Auth Modal */}
       {showAuthPage && (
         <AuthPage
-          onClose={() => setShowAuthPage(false)}
+          onClose={handleCloseAuthPage}
           onAuthSuccess={handleAuthSuccess}
         />
       )}
 
       {/* Movie Detail Modal */}
-      {showMovieDetails && selectedMovieForDetails && (
+      {showMovieDetails && selectedMovieForDetails && matchesRoute(selectedMovieForDetails, route) && (
         <MovieDetailPage
           movie={selectedMovieForDetails}
           onClose={handleCloseMovieDetails}
@@ -956,34 +1024,62 @@ const App: React.FC = () => {
           isInWatchlist={isInWatchlist(selectedMovieForDetails.id)}
           onToggleWatchlist={handleToggleWatchlist}
           onAddToWatchlistWithCategory={handleAddToWatchlistWithCategory}
+          onPlayEpisode={handleWatchNow}
+          onTagClick={(tag) => browseTag(tag.slug)}
           watchlistLoading={watchlistActionLoading}
         />
       )}
 
       {/* Video Player Modal */}
-      {showVideoPlayer && selectedMovie && (
+      {showVideoPlayer && selectedMovie && matchesRoute(selectedMovie, route) && (
         <VideoPlayer
+          key={selectedMovie.id}
           movie={selectedMovie}
           onClose={handleCloseVideoPlayer}
           onProgressUpdate={handleProgressUpdate}
+          onEpisodeEnded={handleEpisodeEnded}
+          onPurchaseCoins={() => navigate({ name: 'profile' })}
+          userId={user?.id || null}
+          startTime={playerStartTime}
+          autoplayStreak={autoplayStreak}
         />
       )}
 
+      {/* Loading a title or episode opened from a URL */}
+      {routeMovieLoading && (showMovieDetails || showVideoPlayer) && (
+        <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center">
+          <div className="w-8 h-8 border-4 border-white/30 border-t-white rounded-full animate-spin" />
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="pt-20">
-        {/* Render different pages based on currentPage state */}
+        {/* Render different pages based on the current route */}
+        {currentPage === 'browse' && pageRoute.name === 'browse' && (
+          <BrowsePage
+            selectedTags={pageRoute.tags}
+            match={pageRoute.match}
+            onChange={(tags, match) => navigate({ name: 'browse', tags, match }, { replace: true })}
+            onBack={() => navigate({ name: 'home' })}
+            onMovieClick={handleMovieClick}
+          />
+        )}
+
         {currentPage === 'watchHistory' && isLoggedIn && (
           <WatchHistoryPage
             user={user}
-            onBack={() => setCurrentPage('home')}
+            onBack={() => navigate({ name: 'home' })}
             onMovieClick={handleMovieClick}
+            onResume={handleResume}
           />
         )}
         
         {currentPage === 'watchlist' && isLoggedIn && (
           <WatchlistPage
             user={user}
-            onBack={() => setCurrentPage('home')}
+            categoryId={pageRoute.name === 'watchlist' ? pageRoute.categoryId : undefined}
+            onCategoryChange={(categoryId) => navigate({ name: 'watchlist', categoryId: categoryId || undefined }, { replace: true })}
+            onBack={() => navigate({ name: 'home' })}
             onMovieClick={handleMovieClick}
           />
         )}
@@ -991,15 +1087,15 @@ const App: React.FC = () => {
         {currentPage === 'profile' && isLoggedIn && (
           <ProfilePage
             user={user}
-            onBack={() => setCurrentPage('home')}
-            onNavigateToTransactionHistory={() => setCurrentPage('transactionHistory')}
+            onBack={() => navigate({ name: 'home' })}
+            onNavigateToTransactionHistory={() => navigate({ name: 'transactionHistory' })}
           />
         )}
         
         {currentPage === 'transactionHistory' && isLoggedIn && (
           <TransactionHistoryPage
             user={user}
-            onBack={() => setCurrentPage('profile')}
+            onBack={() => navigate({ name: 'profile' })}
           />
         )}
         
@@ -1058,7 +1154,7 @@ const App: React.FC = () => {
                   <h2 className="text-white text-xl font-semibold mb-2">Failed to Load Movies</h2>
                   <p className="text-gray-400 mb-4">{moviesError}</p>
                   <button
-                    onClick={() => fetchMovies(1, 24, false)}
+                    onClick={() => fetchMovies()}
                     className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg transition-colors"
                   >
                     Try Again
@@ -1073,47 +1169,6 @@ const App: React.FC = () => {
                 {/* Hero Carousel */}
                 <HeroCarousel movies={movies} onHeroPlayClick={(movie) => handleWatchNow(movie as MovieWithProgress)} />
 
-                {/* Filter and Sort Controls */}
-                {!searchQuery && (
-                  <div className="py-6 px-6 border-b border-gray-800">
-                    <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
-                      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center">
-                        {/* Genre Filter */}
-                        <div className="flex items-center space-x-3">
-                          <label className="text-white font-medium text-sm">Genre:</label>
-                          <select
-                            value={selectedGenreFilter}
-                            onChange={(e) => setSelectedGenreFilter(e.target.value)}
-                            className="bg-gray-800 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 hover:border-gray-500 transition-colors"
-                          >
-                            {availableGenres.map((genre) => (
-                              <option key={genre} value={genre} className="bg-gray-800">
-                                {genre}
-                              </option>
-                            ))}
-                          </select>
-                        </div>
-
-                        {/* Sort Options */}
-                        <div className="flex items-center space-x-3">
-                          <label className="text-white font-medium text-sm">Sort by:</label>
-                          <select
-                            value={selectedSortOption}
-                            onChange={(e) => setSortOption(e.target.value)}
-                            className="bg-gray-800 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 hover:border-gray-500 transition-colors"
-                          >
-                            <option value="popularity" className="bg-gray-800">Most Popular</option>
-                            <option value="newest" className="bg-gray-800">Newest First</option>
-                            <option value="oldest" className="bg-gray-800">Oldest First</option>
-                            <option value="alphabetical" className="bg-gray-800">A-Z</option>
-                            <option value="episodes" className="bg-gray-800">Most Episodes</option>
-                          </select>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                )}
-
                 {/* Category Sections */}
                 <div className="py-8">
                   {/* Search Results */}
@@ -1122,6 +1177,11 @@ const App: React.FC = () => {
                       <div className="flex items-center justify-between mb-4 px-6">
                         <h2 className="text-white text-xl font-semibold">
                           Search Results for "{searchQuery}"
+                          {!searchLoading && searchTotalCount > 0 && (
+                            <span className="text-gray-400 text-sm font-normal ml-2">
+                              {searchTotalCount} {searchTotalCount === 1 ? 'match' : 'matches'}
+                            </span>
+                          )}
                         </h2>
                         <button 
                           onClick={clearSearch}
@@ -1147,7 +1207,7 @@ const App: React.FC = () => {
                               <p className="text-sm mt-2 text-gray-400">{searchError}</p>
                             </div>
                             <button
-                              onClick={() => performSearch(searchQuery)}
+                              onClick={retrySearch}
                               className="mt-4 bg-red-600 hover:bg-red-700 text-white px-6 py-2 rounded-lg transition-colors"
                             >
                               Try Again
@@ -1156,20 +1216,54 @@ const App: React.FC = () => {
                         ) : filteredMovies.length > 0 ? (
                           <div className="flex space-x-4 overflow-x-auto scrollbar-hide pb-4">
                             {filteredMovies.map((movie) => (
-                              <MovieCard 
-                                key={movie.id} 
-                                movie={movie} 
-                                showEpisodes={false}
-                                onClick={() => handleMovieClick(movie)}
-                              />
+                              <div key={movie.id} className="flex-shrink-0 w-48">
+                                <MovieCard 
+                                  movie={movie} 
+                                  showEpisodes={false}
+                                  onClick={() => handleMovieClick(movie)}
+                                />
+                                {/* Where the query matched the synopsis */}
+                                {movie.snippet && (
+                                  <p className="text-gray-400 text-xs mt-2 line-clamp-3">
+                                    <HighlightedText text={movie.snippet} />
+                                  </p>
+                                )}
+                              </div>
                             ))}
+                            {hasMoreSearchResults && (
+                              <button
+                                onClick={loadMoreSearchResults}
+                                disabled={searchLoadingMore}
+                                className="flex-shrink-0 w-48 aspect-[9/16] rounded-lg border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 disabled:opacity-50 transition-colors"
+                              >
+                                {searchLoadingMore ? 'Loading...' : 'More results'}
+                              </button>
+                            )}
                           </div>
                         ) : (
                           <div className="text-center py-12">
                             <div className="text-gray-400 mb-4">
                               <Search className="w-16 h-16 mx-auto mb-4 opacity-50" />
                               <p className="text-xl">No results found for "{searchQuery}"</p>
-                              <p className="text-sm mt-2">Try searching for a different title or genre</p>
+                              {searchSuggestions.length > 0 ? (
+                                <p className="text-sm mt-2">
+                                  Did you mean{' '}
+                                  {searchSuggestions.map((suggestion, index) => (
+                                    <React.Fragment key={suggestion}>
+                                      {index > 0 && ', '}
+                                      <button
+                                        onClick={() => setSearchQuery(suggestion)}
+                                        className="text-blue-400 hover:text-blue-300 underline"
+                                      >
+                                        {suggestion}
+                                      </button>
+                                    </React.Fragment>
+                                  ))}
+                                  ?
+                                </p>
+                              ) : (
+                                <p className="text-sm mt-2">Try searching for a different title or genre</p>
+                              )}
                             </div>
                             <button
                               onClick={clearSearch}
@@ -1189,6 +1283,7 @@ const App: React.FC = () => {
                       movies={continueWatching}
                       loading={watchHistoryLoading}
                       onMovieClick={handleMovieClick}
+                      onResume={handleResume}
                     />
                   )}
                   
@@ -1201,19 +1296,139 @@ const App: React.FC = () => {
                     />
                   )}
                   
+                  {/* Recommendations - Hide when searching */}
+                  {!searchQuery && (
+                    <RecommendationsSection
+                      rails={recommendationRails}
+                      popular={popularMovies}
+                      loading={recommendationsLoading}
+                      onMovieClick={handleMovieClick}
+                    />
+                  )}
+                  
                   {/* Other categories - Hide when searching */}
-                  {!searchQuery && categories.map((category) => (
+                  {!searchQuery && homeRails.map((rail) => (
                     <CategorySection 
-                      key={category.title} 
-                      title={category.title} 
-                      movies={getFilteredAndSortedMovies(category.movies, selectedGenreFilter, selectedThemeFilter, selectedSortOption)}
+                      key={rail.id} 
+                      rail={rail}
+                      userId={user?.id || null}
                       onMovieClick={handleMovieClick}
+                      onMore={rail.source_type === 'tag' ? () => browseTag(rail.source_value || undefined) : undefined}
                     />
                   ))}
                 </div>
                 
+                {/* All Titles - filtered and sorted by the server, loaded as you scroll */}
+                {!searchQuery && (
+                  <div className="pb-8">
+                    <div className="py-6 px-6 border-t border-gray-800">
+                      <h2 className="text-white text-xl font-semibold mb-4">All Titles</h2>
+                      <div className="flex flex-col sm:flex-row flex-wrap gap-4 items-start sm:items-center">
+                        {/* Genre Filter */}
+                        <div className="flex items-center space-x-3">
+                          <label className="text-white font-medium text-sm">Genre:</label>
+                          <select
+                            value={selectedGenreFilter}
+                            onChange={(e) => setSelectedGenreFilter(e.target.value)}
+                            className="bg-gray-800 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 hover:border-gray-500 transition-colors"
+                          >
+                            {availableGenres.map((genre) => (
+                              <option key={genre} value={genre} className="bg-gray-800">
+                                {genre}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+
+                        {/* Theme Filter */}
+                        <div className="flex items-center space-x-3">
+                          <label className="text-white font-medium text-sm">Theme:</label>
+                          <select
+                            value={selectedTagFilter}
+                            onChange={(e) => setSelectedTagFilter(e.target.value)}
+                            className="bg-gray-800 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 hover:border-gray-500 transition-colors"
+                          >
+                            <option value="All" className="bg-gray-800">All</option>
+                            {availableTags.map((tag) => (
+                              <option key={tag.id} value={tag.slug} className="bg-gray-800">
+                                {tag.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+
+                        {/* Badge Filter */}
+                        <div className="flex items-center space-x-3">
+                          <label className="text-white font-medium text-sm">Badge:</label>
+                          <select
+                            value={selectedBadgeFilter}
+                            onChange={(e) => setSelectedBadgeFilter(e.target.value)}
+                            className="bg-gray-800 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 hover:border-gray-500 transition-colors"
+                          >
+                            {['All', 'Hot', 'New', 'Exclusive', 'Discount'].map((badge) => (
+                              <option key={badge} value={badge} className="bg-gray-800">
+                                {badge}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+
+                        {/* Sort Options */}
+                        <div className="flex items-center space-x-3">
+                          <label className="text-white font-medium text-sm">Sort by:</label>
+                          <select
+                            value={selectedSortOption}
+                            onChange={(e) => setSortOption(e.target.value as BrowseSort)}
+                            className="bg-gray-800 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 hover:border-gray-500 transition-colors"
+                          >
+                            <option value="popularity" className="bg-gray-800">Most Popular</option>
+                            <option value="newest" className="bg-gray-800">Newest First</option>
+                            <option value="oldest" className="bg-gray-800">Oldest First</option>
+                            <option value="alphabetical" className="bg-gray-800">A-Z</option>
+                            <option value="episodes" className="bg-gray-800">Most Episodes</option>
+                          </select>
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="px-6">
+                      {browse.loading ? (
+                        <div className="flex flex-wrap gap-4">
+                          {Array.from({ length: 12 }).map((_, index) => (
+                            <SkeletonCard key={index} />
+                          ))}
+                        </div>
+                      ) : browse.error ? (
+                        <div className="text-center py-12">
+                          <p className="text-gray-400 mb-4">{browse.error}</p>
+                          <button
+                            onClick={browse.retry}
+                            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg transition-colors"
+                          >
+                            Try Again
+                          </button>
+                        </div>
+                      ) : browse.movies.length === 0 ? (
+                        <div className="text-center py-12">
+                          <p className="text-gray-400">No titles match these filters.</p>
+                        </div>
+                      ) : (
+                        <div className="flex flex-wrap gap-4">
+                          {browse.movies.map((movie) => (
+                            <MovieCard
+                              key={movie.id}
+                              movie={movie}
+                              onClick={() => handleMovieClick(movie)}
+                            />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {/* Infinite Scroll Loading Indicator */}
-                {!searchQuery && loadingMoreMovies && (
+                {!searchQuery && browse.loadingMore && (
                   <div className="flex items-center justify-center py-12">
                     <div className="text-center">
                       <div className="w-8 h-8 border-4 border-white/30 border-t-white rounded-full animate-spin mx-auto mb-4" />
@@ -1223,7 +1438,7 @@ const App: React.FC = () => {
                 )}
                 
                 {/* End of Content Indicator */}
-                {!searchQuery && !hasMoreMovies && !loadingMoreMovies && movies.length > 0 && (
+                {!searchQuery && !browse.hasMore && !browse.loading && browse.movies.length > 0 && (
                   <div className="flex items-center justify-center py-12">
                     <div className="text-center">
                       <p className="text-gray-400">You've reached the end of our collection!</p>
@@ -1244,7 +1459,7 @@ const App: React.FC = () => {
                   <h2 className="text-white text-xl font-semibold mb-2">No Movies Available</h2>
                   <p className="text-gray-400 mb-4">There are currently no movies in the database.</p>
                   <button
-                    onClick={() => fetchMovies(1, 24, false)}
+                    onClick={() => fetchMovies()}
                     className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg transition-colors"
                   >
                     Refresh
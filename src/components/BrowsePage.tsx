@@ -0,0 +1,183 @@
+import React from 'react';
+import { ArrowLeft, Tag as TagIcon, X } from 'lucide-react';
+import MovieCard from './MovieCard';
+import SkeletonCard from './SkeletonCard';
+import { useTags } from '../hooks/useTags';
+import { useBrowseMovies } from '../hooks/useBrowseMovies';
+import { Movie, Tag, TagType, TagMatchMode } from '../types/database';
+
+interface BrowsePageProps {
+  selectedTags: string[];
+  match: TagMatchMode;
+  onChange: (tags: string[], match: TagMatchMode) => void;
+  onBack: () => void;
+  onMovieClick: (movie: Movie) => void;
+}
+
+const TAG_TYPE_LABELS: Record<TagType, string> = {
+  theme: 'Themes',
+  mood: 'Moods',
+  trope: 'Tropes',
+  audience: 'Audience'
+};
+
+const TAG_TYPE_ORDER: TagType[] = ['theme', 'trope', 'mood', 'audience'];
+
+const BrowsePage: React.FC<BrowsePageProps> = ({ selectedTags, match, onChange, onBack, onMovieClick }) => {
+  const { tags, loading: tagsLoading } = useTags();
+  const { movies, loading, loadingMore, hasMore, error, loadMore, retry } = useBrowseMovies({ tags: selectedTags, tag_match: match }, 'newest');
+
+  const tagsByType = TAG_TYPE_ORDER
+    .map(type => ({ type, tags: tags.filter(tag => tag.tag_type === type) }))
+    .filter(group => group.tags.length > 0);
+
+  const selectedTagNames = selectedTags.map(slug => tags.find(tag => tag.slug === slug)?.name || slug);
+
+  const toggleTag = (tag: Tag) => {
+    const next = selectedTags.includes(tag.slug)
+      ? selectedTags.filter(slug => slug !== tag.slug)
+      : [...selectedTags, tag.slug];
+    onChange(next, match);
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white pt-20">
+      <div className="container mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="flex items-center mb-6">
+          <button
+            onClick={onBack}
+            className="text-white hover:text-gray-300 transition-colors mr-4"
+          >
+            <ArrowLeft className="w-6 h-6" />
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold">Browse</h1>
+            <p className="text-gray-400 mt-1">
+              {selectedTagNames.length > 0
+                ? selectedTagNames.join(match === 'all' ? ' + ' : ' or ')
+                : 'All titles'}
+            </p>
+          </div>
+        </div>
+
+        {/* Tag Chips */}
+        <div className="space-y-4 mb-8">
+          {tagsLoading && tags.length === 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {Array.from({ length: 10 }).map((_, index) => (
+                <div key={index} className="h-8 w-24 bg-gray-800 rounded-full animate-pulse" />
+              ))}
+            </div>
+          ) : (
+            tagsByType.map(group => (
+              <div key={group.type}>
+                <h2 className="text-gray-400 text-sm font-medium mb-2">{TAG_TYPE_LABELS[group.type]}</h2>
+                <div className="flex flex-wrap gap-2">
+                  {group.tags.map(tag => (
+                    <button
+                      key={tag.id}
+                      onClick={() => toggleTag(tag)}
+                      className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                        selectedTags.includes(tag.slug)
+                          ? 'bg-red-600 border-red-600 text-white'
+                          : 'border-gray-600 text-gray-300 hover:border-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {tag.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+
+          {selectedTags.length > 0 && (
+            <div className="flex items-center gap-4 pt-2">
+              {/* AND/OR only matters once several tags are picked */}
+              {selectedTags.length > 1 && (
+                <div className="flex items-center bg-gray-800 rounded-lg p-1 text-sm">
+                  {(['any', 'all'] as TagMatchMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => onChange(selectedTags, mode)}
+                      className={`px-3 py-1 rounded transition-colors ${
+                        match === mode ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {mode === 'any' ? 'Match any' : 'Match all'}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <button
+                onClick={() => onChange([], 'any')}
+                className="text-gray-400 hover:text-white transition-colors text-sm font-medium flex items-center"
+              >
+                Clear
+                <X className="w-4 h-4 ml-1" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Results */}
+        {loading ? (
+          <div className="flex flex-wrap gap-4">
+            {Array.from({ length: 12 }).map((_, index) => (
+              <SkeletonCard key={index} />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="text-center py-20">
+            <p className="text-gray-400 mb-4">{error}</p>
+            <button
+              onClick={retry}
+              className="bg-red-600 hover:bg-red-700 text-white px-6 py-2 rounded-lg transition-colors"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : movies.length === 0 ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="text-center max-w-md">
+              <TagIcon className="w-16 h-16 mx-auto mb-4 text-gray-400 opacity-50" />
+              <h2 className="text-white text-xl font-semibold mb-2">Nothing Matches</h2>
+              <p className="text-gray-400">
+                {match === 'all' && selectedTags.length > 1
+                  ? 'No title has all of these tags. Try matching any of them instead.'
+                  : 'No titles carry these tags yet.'}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-4">
+              {movies.map(movie => (
+                <MovieCard
+                  key={movie.id}
+                  movie={movie}
+                  onClick={() => onMovieClick(movie)}
+                />
+              ))}
+            </div>
+
+            {hasMore && (
+              <div className="flex justify-center mt-8">
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white px-6 py-2 rounded-lg transition-colors"
+                >
+                  {loadingMore ? 'Loading...' : 'Load More'}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BrowsePage;
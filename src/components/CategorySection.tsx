@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import MovieCard from './MovieCard';
+import SkeletonCard from './SkeletonCard';
+import { useRailMovies } from '../hooks/useRailMovies';
+import { HomeRail, Movie } from '../types/database';
+
+interface CategorySectionProps {
+  rail: HomeRail;
+  userId: string | null;
+  onMovieClick: (movie: Movie) => void;
+  onMore?: () => void;
+}
+
+// Start loading a rail shortly before it scrolls into view
+const LAZY_LOAD_MARGIN = '300px';
+// Fetch the next page when this close to the end of the rail
+const LOAD_MORE_THRESHOLD_PX = 400;
+
+const CategorySection: React.FC<CategorySectionProps> = ({ rail, userId, onMovieClick, onMore }) => {
+  const sectionRef = useRef<HTMLDivElement>(null);
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const [isNearViewport, setIsNearViewport] = useState(false);
+  const [canScrollLeft, setCanScrollLeft] = useState(false);
+  const [canScrollRight, setCanScrollRight] = useState(false);
+  const { movies, loading, loadingMore, loaded, hasMore, error, loadMore, retry } = useRailMovies(rail.id, isNearViewport, userId);
+
+  useEffect(() => {
+    const section = sectionRef.current;
+    if (!section) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          setIsNearViewport(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: LAZY_LOAD_MARGIN }
+    );
+
+    observer.observe(section);
+    return () => observer.disconnect();
+  }, []);
+
+  const updateScrollState = () => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+
+    setCanScrollLeft(scroller.scrollLeft > 0);
+    setCanScrollRight(scroller.scrollLeft + scroller.clientWidth < scroller.scrollWidth - 1);
+
+    if (scroller.scrollLeft + scroller.clientWidth >= scroller.scrollWidth - LOAD_MORE_THRESHOLD_PX) {
+      loadMore();
+    }
+  };
+
+  useEffect(() => {
+    updateScrollState();
+  }, [movies.length]);
+
+  // Page by one rail-width at a time
+  const scrollByPage = (direction: 1 | -1) => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    scroller.scrollBy({ left: direction * scroller.clientWidth * 0.9, behavior: 'smooth' });
+  };
+
+  // Rails with nothing to show (e.g. personalised for a guest) disappear
+  if (loaded && !error && movies.length === 0) {
+    return null;
+  }
+
+  return (
+    <div ref={sectionRef} className="mb-8">
+      <div className="flex items-center justify-between mb-4 px-6">
+        <h2 className="text-white text-xl font-semibold">{rail.title}</h2>
+        {onMore && (
+          <button
+            onClick={onMore}
+            className="text-gray-400 hover:text-white transition-colors text-sm font-medium flex items-center"
+          >
+            More
+            <ChevronRight className="w-4 h-4 ml-1" />
+          </button>
+        )}
+      </div>
+      <div className="relative group px-6">
+        {error && movies.length === 0 ? (
+          <div className="flex items-center h-32 text-sm text-gray-400">
+            Couldn't load this row.
+            <button onClick={retry} className="ml-2 text-white underline hover:text-gray-300">
+              Try again
+            </button>
+          </div>
+        ) : (
+          <div
+            ref={scrollerRef}
+            onScroll={updateScrollState}
+            className="flex space-x-4 overflow-x-auto scrollbar-hide pb-4"
+          >
+            {!loaded || loading ? (
+              Array.from({ length: 6 }).map((_, index) => (
+                <SkeletonCard key={index} />
+              ))
+            ) : (
+              <>
+                {movies.map((movie) => (
+                  <MovieCard
+                    key={movie.id}
+                    movie={movie}
+                    showEpisodes={false}
+                    onClick={() => onMovieClick(movie)}
+                  />
+                ))}
+                {(loadingMore || (hasMore && error)) && (
+                  error ? (
+                    <button
+                      onClick={retry}
+                      className="flex-shrink-0 w-48 aspect-[9/16] rounded-lg border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 transition-colors"
+                    >
+                      Try again
+                    </button>
+                  ) : (
+                    <SkeletonCard />
+                  )
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Paging arrows on larger screens */}
+        {canScrollLeft && (
+          <button
+            onClick={() => scrollByPage(-1)}
+            aria-label="Scroll left"
+            className="hidden md:flex absolute left-0 top-0 bottom-4 w-12 items-center justify-center bg-gradient-to-r from-black/80 to-transparent text-white opacity-0 group-hover:opacity-100 transition-opacity"
+          >
+            <ChevronLeft className="w-8 h-8" />
+          </button>
+        )}
+        {canScrollRight && (
+          <button
+            onClick={() => scrollByPage(1)}
+            aria-label="Scroll right"
+            className="hidden md:flex absolute right-0 top-0 bottom-4 w-12 items-center justify-center bg-gradient-to-l from-black/80 to-transparent text-white opacity-0 group-hover:opacity-100 transition-opacity"
+          >
+            <ChevronRight className="w-8 h-8" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CategorySection;
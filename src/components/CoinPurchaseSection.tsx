@@ -1,7 +1,11 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Coins, CreditCard, Smartphone, ShoppingCart, Star, History, Zap } from 'lucide-react';
 import { useUserCoins } from '../hooks/useUserCoins';
+import { useCoinPackages } from '../hooks/useCoinPackages';
 import { CoinPackage } from '../types/database';
+import { supabase } from '../lib/supabase';
+import { useError } from '../contexts/ErrorContext';
+import { getErrorMessage, createErrorMessage } from '../utils/errorHandling';
 
 interface CoinPurchaseSectionProps {
   userId: string;
@@ -9,64 +13,6 @@ interface CoinPurchaseSectionProps {
   onNavigateToTransactionHistory?: () => void;
 }
 
-const COIN_PACKAGES: CoinPackage[] = [
-  {
-    id: 'new-user-special',
-    name: '500 Coins',
-    coins: 500,
-    bonus: 0,
-    price: 4.99,
-    currency: 'USD',
-    isNewUserOffer: true
-  },
-  {
-    id: 'package-1000',
-    name: '1000 Coins + 150 Bonus',
-    coins: 1000,
-    bonus: 150,
-    price: 9.99,
-    currency: 'USD',
-    bonusPercentage: 15
-  },
-  {
-    id: 'package-1500',
-    name: '1500 Coins + 300 Bonus',
-    coins: 1500,
-    bonus: 300,
-    price: 14.99,
-    currency: 'USD',
-    bonusPercentage: 20
-  },
-  {
-    id: 'package-2500',
-    name: '2500 Coins + 875 Bonus',
-    coins: 2500,
-    bonus: 875,
-    price: 24.99,
-    currency: 'USD',
-    bonusPercentage: 35,
-    isPopular: true
-  },
-  {
-    id: 'package-5000',
-    name: '5000 Coins + 2500 Bonus',
-    coins: 5000,
-    bonus: 2500,
-    price: 49.99,
-    currency: 'USD',
-    bonusPercentage: 50
-  },
-  {
-    id: 'package-10000',
-    name: '10000 Coins + 10000 Bonus',
-    coins: 10000,
-    bonus: 10000,
-    price: 99.99,
-    currency: 'USD',
-    bonusPercentage: 100
-  }
-];
-
 const PAYMENT_METHODS = [
   {
     id: 'credit_card',
@@ -82,12 +28,21 @@ const PAYMENT_METHODS = [
   }
 ];
 
-const CoinPurchaseSection: React.FC<CoinPurchaseSectionProps> = ({ userId, userEmail, onNavigateToTransactionHistory }) => {
+const CoinPurchaseSection: React.FC<CoinPurchaseSectionProps> = ({ userId, onNavigateToTransactionHistory }) => {
   const { balance, loading, error } = useUserCoins(userId);
+  const { packages, loading: packagesLoading, fetchPackages } = useCoinPackages(userId);
   const [selectedPackage, setSelectedPackage] = useState<CoinPackage | null>(null);
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string | null>(null);
   const [purchasing, setPurchasing] = useState(false);
   const [showTransactionHistory, setShowTransactionHistory] = useState(false);
+  const { addError } = useError();
+
+  // Drop a selection the server no longer offers
+  useEffect(() => {
+    if (selectedPackage && !packages.some(pkg => pkg.id === selectedPackage.id)) {
+      setSelectedPackage(null);
+    }
+  }, [packages]);
 
   const handlePurchase = async () => {
     if (!selectedPackage || !selectedPaymentMethod) return;
@@ -95,21 +50,48 @@ const CoinPurchaseSection: React.FC<CoinPurchaseSectionProps> = ({ userId, userE
     setPurchasing(true);
     
     try {
-      // TODO: Integrate with Stripe
-      // This is where we'll create a Stripe checkout session
-      console.log('Initiating purchase:', {
-        package: selectedPackage,
-        paymentMethod: selectedPaymentMethod,
-        userId,
-        userEmail
-      });
-      
-      // Placeholder for Stripe integration
-      alert('Stripe integration coming soon! This will redirect to secure checkout.');
+      // Record the purchase as pending; the Stripe webhook settles it
+      const { data: transaction, error: transactionError } = await supabase
+        .from('transactions')
+        .insert({
+          user_id: userId,
+          package_id: selectedPackage.id,
+          package_name: selectedPackage.name,
+          coins_granted: selectedPackage.coins,
+          bonus_granted: selectedPackage.bonus,
+          amount_paid: selectedPackage.price,
+          currency: selectedPackage.currency,
+          payment_method: selectedPaymentMethod,
+          status: 'pending'
+        })
+        .select('id')
+        .single();
+
+      if (transactionError) throw transactionError;
+
+      const { data, error: checkoutError } = await supabase.functions.invoke<{ url: string; session_id: string }>(
+        'create-checkout-session',
+        { body: { transaction_id: transaction.id } }
+      );
+
+      if (checkoutError) throw checkoutError;
+      if (!data?.url) throw new Error('Checkout session did not return a URL');
+
+      // Hand over to Stripe Checkout; the user returns with ?checkout=success or ?checkout=cancelled
+      window.location.assign(data.url);
+    } catch (err) {
+      console.error('Purchase error:', err);
+
+      // The package may have expired or been used up since the list was loaded
+      fetchPackages();
+
+      addError(createErrorMessage(
+        `Failed to start checkout: ${getErrorMessage(err)}`,
+        'error',
+        handlePurchase,
+        'Retry'
+      ));
       
-    } catch (error) {
-      console.error('Purchase error:', error);
-    } finally {
       setPurchasing(false);
     }
   };
@@ -178,7 +160,17 @@ const CoinPurchaseSection: React.FC<CoinPurchaseSectionProps> = ({ userId, userE
         </h3>
         
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-          {COIN_PACKAGES.map((pkg) => (
+          {packagesLoading && packages.length === 0 && (
+            <div className="col-span-full flex items-center justify-center py-8">
+              <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            </div>
+          )}
+          {!packagesLoading && packages.length === 0 && (
+            <div className="col-span-full text-center py-8 text-gray-400">
+              No coin packages are available right now
+            </div>
+          )}
+          {packages.map((pkg) => (
             <div
               key={pkg.id}
               onClick={() => setSelectedPackage(pkg)}
@@ -233,6 +225,12 @@ const CoinPurchaseSection: React.FC<CoinPurchaseSectionProps> = ({ userId, userE
                     Total: {(pkg.coins + pkg.bonus).toLocaleString()} coins
                   </div>
                 )}
+
+                {pkg.endsAt && (
+                  <div className="text-yellow-400 text-xs mt-1">
+                    Ends {new Date(pkg.endsAt).toLocaleDateString()}
+                  </div>
+                )}
               </div>
             </div>
           ))}
@@ -0,0 +1,23 @@
+import React from 'react';
+import { splitHighlights } from '../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, className }) => (
+  <span className={className}>
+    {splitHighlights(text).map((segment, index) => (
+      segment.highlighted ? (
+        <mark key={index} className="bg-yellow-400/30 text-white rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    ))}
+  </span>
+);
+
+export default HighlightedText;
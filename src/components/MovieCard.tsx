@@ -1,6 +1,7 @@
 import React from 'react';
 import { Play } from 'lucide-react';
 import { MovieWithProgress } from '../types/database';
+import { formatViewCount, formatEpisodeCount } from '../utils/formatting';
 
 interface MovieCardProps {
   movie: MovieWithProgress;
@@ -45,7 +46,7 @@ const MovieCard: React.FC<MovieCardProps> = ({
 
   // Use poster_url from database or fallback to poster property for compatibility
   const posterUrl = movie.poster_url || movie.poster || '';
-  const viewCount = movie.view_count || movie.viewCount || '0';
+  const viewCount = formatViewCount(movie.view_count);
 
   return (
     <div className="flex-shrink-0 w-48 group cursor-pointer" onClick={onClick}>
@@ -87,7 +88,7 @@ const MovieCard: React.FC<MovieCardProps> = ({
         </h3>
         <p className="text-gray-400 text-xs mt-1">{movie.genre}</p>
         {showEpisodes && movie.episodes && (
-          <p className="text-gray-500 text-xs">{movie.episodes} episodes</p>
+          <p className="text-gray-500 text-xs">{formatEpisodeCount(movie.episodes)}</p>
         )}
         {showProgress && movie.progress_seconds && movie.total_duration_seconds && (
           <p className="text-gray-500 text-xs">
@@ -1,11 +1,14 @@
 import React from 'react';
-import { Play, X, Clock, Eye, Calendar, Star, Plus, Check, MessageCircle, Send, Trash2, Lock, Unlock } from 'lucide-react';
-import { MovieWithProgress } from '../types/database';
+import { Play, X, Clock, Eye, Calendar, Star, Plus, Check, MessageCircle, Send, Trash2, Lock, Unlock, CloudOff } from 'lucide-react';
+import { MovieWithProgress, Tag, SeriesStatus } from '../types/database';
 import { useMovieComments } from '../hooks/useMovieComments';
 import { useWatchlistCategories } from '../hooks/useWatchlistCategories';
 import { useEpisodeUnlocks } from '../hooks/useEpisodeUnlocks';
 import { useUserCoins } from '../hooks/useUserCoins';
+import { useMovieTags } from '../hooks/useMovieTags';
+import { useSeries } from '../hooks/useSeries';
 import { supabase } from '../lib/supabase';
+import { formatViewCount, formatEpisodeCount } from '../utils/formatting';
 
 interface MovieDetailPageProps {
   movie: MovieWithProgress;
@@ -18,8 +21,15 @@ interface MovieDetailPageProps {
   onAddToWatchlistWithCategory?: (categoryId: string | null) => void;
   watchlistLoading?: boolean;
   onPlayEpisode?: (episode: MovieWithProgress) => void;
+  onTagClick?: (tag: Tag) => void;
 }
 
+const SERIES_STATUS_LABELS: Record<SeriesStatus, string> = {
+  ongoing: 'Ongoing',
+  completed: 'Completed',
+  upcoming: 'Coming Soon'
+};
+
 const MovieDetailPage: React.FC<MovieDetailPageProps> = ({ 
   movie, 
   onClose, 
@@ -30,7 +40,8 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
   onToggleWatchlist,
   onAddToWatchlistWithCategory,
   watchlistLoading,
-  onPlayEpisode
+  onPlayEpisode,
+  onTagClick
 }) => {
   // Debug log to check if component is rendering and what movie data we have
   console.log('MovieDetailPage rendered with movie:', movie);
@@ -40,10 +51,28 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
   const [seriesEpisodes, setSeriesEpisodes] = React.useState<MovieWithProgress[]>([]);
   const [loadingEpisodes, setLoadingEpisodes] = React.useState(false);
   const [episodeError, setEpisodeError] = React.useState<string | null>(null);
-  const { comments, loading: commentsLoading, error: commentsError, submitting, addComment, deleteComment } = useMovieComments(movie.id);
+  const { comments, loading: commentsLoading, error: commentsError, submitting, addComment, deleteComment, isCommentPending } = useMovieComments(movie.id);
   const { categories } = useWatchlistCategories(user?.id || null);
   const { isEpisodeUnlocked, unlockEpisode } = useEpisodeUnlocks(user?.id || null);
-  const { spendCoins, canAfford, totalCoins } = useUserCoins(user?.id || null);
+  const { canAfford, totalCoins, fetchBalance } = useUserCoins(user?.id || null);
+  const { tags } = useMovieTags(movie.id);
+  const { series, seasons } = useSeries(movie.series_id || null);
+  const [selectedSeasonId, setSelectedSeasonId] = React.useState<string | null>(null);
+
+  // Open on the season of the episode the page was reached from
+  React.useEffect(() => {
+    setSelectedSeasonId(movie.season_id || seasons[0]?.id || null);
+  }, [movie.season_id, seasons]);
+
+  // A series page shows the show itself rather than the episode it was opened from
+  const displayTitle = series?.title || movie.title;
+  const displaySynopsis = series?.synopsis || movie.synopsis;
+  const displayPosterUrl = series?.poster_url || movie.poster_url;
+  const displayLandscapePosterUrl = series?.landscape_poster_url || movie.landscape_poster_url;
+  const episodeCount = series ? series.total_episodes : movie.episodes;
+  const visibleEpisodes = seasons.length > 1 && selectedSeasonId
+    ? seriesEpisodes.filter(episode => episode.season_id === selectedSeasonId)
+    : seriesEpisodes;
 
   // Fetch all episodes for the series if this movie is part of a series
   React.useEffect(() => {
@@ -59,7 +88,7 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
       try {
         const { data, error } = await supabase
           .from('movies')
-          .select('id, title, episode_number, poster_url, is_locked, unlock_cost, duration_seconds, view_count, genre, created_at, landscape_poster_url, badge, synopsis, episodes, video_url, video_url_720p, video_url_1080p, video_url_4k, subtitle_url_en, subtitle_url_es, series_id')
+          .select('id, title, episode_number, poster_url, is_locked, unlock_cost, duration_seconds, view_count, genre, created_at, landscape_poster_url, badge, synopsis, episodes, video_url, video_url_720p, video_url_1080p, video_url_4k, manifest_url, series_id, season_id, intro_start_seconds, intro_end_seconds, recap_start_seconds, recap_end_seconds, credits_start_seconds')
           .eq('series_id', movie.series_id)
           .order('episode_number', { ascending: true });
 
@@ -104,24 +133,22 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
     if (!confirmed) return;
 
     try {
-      // First deduct coins
-      const coinsDeducted = await spendCoins(episode.unlock_cost);
+      // Coins are deducted and the episode unlocked in one server-side transaction
+      const unlocked = await unlockEpisode(episode.id);
       
-      if (coinsDeducted) {
-        // Then unlock the episode
-        const unlocked = await unlockEpisode(episode.id, episode.unlock_cost);
-        
-        if (unlocked) {
-          // Update local episode state
-          setSeriesEpisodes(prev => 
-            prev.map(ep => 
-              ep.id === episode.id 
-                ? { ...ep, is_unlocked: true }
-                : ep
-            )
-          );
-        }
+      if (unlocked) {
+        // Update local episode state
+        setSeriesEpisodes(prev => 
+          prev.map(ep => 
+            ep.id === episode.id 
+              ? { ...ep, is_unlocked: true }
+              : ep
+          )
+        );
       }
+
+      // Pick up the balance the server settled on, whether or not the unlock went through
+      await fetchBalance();
     } catch (error) {
       console.error('Error unlocking episode:', error);
       alert('Failed to unlock episode. Please try again.');
@@ -206,7 +233,7 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
       <div className="relative min-h-screen">
         <div 
           className="absolute inset-0 bg-cover bg-center bg-no-repeat"
-          style={{ backgroundImage: `url(${movie.landscape_poster_url})` }}
+          style={{ backgroundImage: `url(${displayLandscapePosterUrl})` }}
         />
         <div className="absolute inset-0 bg-gradient-to-r from-black via-black/80 to-transparent" />
         <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-black/50" />
@@ -228,8 +255,8 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
               <div className="lg:col-span-1">
                 <div className="relative aspect-[9/16] max-w-sm mx-auto lg:mx-0 rounded-xl overflow-hidden shadow-2xl">
                   <img
-                    src={movie.poster_url}
-                    alt={movie.title}
+                    src={displayPosterUrl}
+                    alt={displayTitle}
                     className="w-full h-full object-cover"
                   />
                   {movie.badge && (
@@ -246,7 +273,7 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
                   
                   {/* Title and Genre */}
                   <h1 className="text-4xl md:text-6xl font-bold mb-4 leading-tight">
-                    {movie.title}
+                    {displayTitle}
                   </h1>
                   
                   <div className="flex flex-wrap items-center gap-4 mb-6">
@@ -255,14 +282,24 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
                     </span>
                     <div className="flex items-center text-gray-300">
                       <Eye className="w-5 h-5 mr-2" />
-                      <span className="text-lg">{movie.view_count} views</span>
+                      <span className="text-lg">{formatViewCount(movie.view_count)} views</span>
                     </div>
-                    {movie.episodes && (
+                    {!!episodeCount && (
                       <div className="flex items-center text-gray-300">
                         <Calendar className="w-5 h-5 mr-2" />
-                        <span className="text-lg">{movie.episodes} episodes</span>
+                        <span className="text-lg">
+                          {series && series.season_count > 1 && `${series.season_count} seasons · `}
+                          {formatEpisodeCount(episodeCount)}
+                        </span>
                       </div>
                     )}
+                    {series && (
+                      <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                        series.status === 'completed' ? 'bg-green-600/20 text-green-400' : 'bg-blue-600/20 text-blue-300'
+                      }`}>
+                        {SERIES_STATUS_LABELS[series.status]}
+                      </span>
+                    )}
                     {movie.duration_seconds && (
                       <div className="flex items-center text-gray-300">
                         <Clock className="w-5 h-5 mr-2" />
@@ -271,6 +308,22 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
                     )}
                   </div>
 
+                  {/* Tags */}
+                  {tags.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-6">
+                      {tags.map((tag) => (
+                        <button
+                          key={tag.id}
+                          onClick={() => onTagClick?.(tag)}
+                          disabled={!onTagClick}
+                          className="border border-gray-500 text-gray-200 hover:border-white hover:text-white px-3 py-1 rounded-full text-sm transition-colors"
+                        >
+                          {tag.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Progress Bar (if user has watched) */}
                   {isLoggedIn && movie.progress_seconds && movie.total_duration_seconds && (
                     <div className="mb-6">
@@ -290,11 +343,11 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
                   )}
 
                   {/* Synopsis */}
-                  {movie.synopsis && (
+                  {displaySynopsis && (
                     <div className="mb-8">
                       <h2 className="text-2xl font-semibold mb-4">Synopsis</h2>
                       <p className="text-gray-200 text-lg leading-relaxed">
-                        {movie.synopsis}
+                        {displaySynopsis}
                       </p>
                     </div>
                   )}
@@ -408,10 +461,10 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
                         <h3 className="text-gray-400 font-medium mb-2">Genre</h3>
                         <p className="text-white">{movie.genre}</p>
                       </div>
-                      {movie.episodes && (
+                      {!!episodeCount && (
                         <div>
                           <h3 className="text-gray-400 font-medium mb-2">Episodes</h3>
-                          <p className="text-white">{movie.episodes}</p>
+                          <p className="text-white">{episodeCount}</p>
                         </div>
                       )}
                       {movie.duration_seconds && (
@@ -426,7 +479,23 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
                   {/* Episodes Section - Only show if this is part of a series */}
                   {movie.series_id && (
                     <div className="mt-12 pt-8 border-t border-gray-700">
-                      <h2 className="text-2xl font-semibold mb-6">Episodes</h2>
+                      <div className="flex items-center justify-between mb-6">
+                        <h2 className="text-2xl font-semibold">Episodes</h2>
+                        {/* Season Picker */}
+                        {seasons.length > 1 && (
+                          <select
+                            value={selectedSeasonId || ''}
+                            onChange={(e) => setSelectedSeasonId(e.target.value)}
+                            className="bg-gray-800 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 hover:border-gray-500 transition-colors"
+                          >
+                            {seasons.map((season) => (
+                              <option key={season.id} value={season.id} className="bg-gray-800">
+                                {season.title || `Season ${season.season_number}`} ({formatEpisodeCount(season.episode_count)})
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
                       
                       {loadingEpisodes ? (
                         <div className="flex items-center justify-center py-8">
@@ -445,9 +514,9 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
                             Try Again
                           </button>
                         </div>
-                      ) : seriesEpisodes.length > 0 ? (
+                      ) : visibleEpisodes.length > 0 ? (
                         <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-6 lg:grid-cols-8 xl:grid-cols-10 gap-3">
-                          {seriesEpisodes.map((episode) => (
+                          {visibleEpisodes.map((episode) => (
                             <div
                               key={episode.id}
                               className={`relative aspect-square rounded-lg border-2 transition-all duration-200 cursor-pointer ${
@@ -605,6 +674,12 @@ const MovieDetailPage: React.FC<MovieDetailPageProps> = ({
                                   <span className="text-gray-400 text-sm">
                                     {formatCommentDate(comment.created_at)}
                                   </span>
+                                  {isCommentPending(comment.id) && (
+                                    <span className="text-yellow-400 text-xs flex items-center" title="Posts when you're back online">
+                                      <CloudOff className="w-3 h-3 mr-1" />
+                                      Waiting to post
+                                    </span>
+                                  )}
                                 </div>
                                 {comment.user_id === user?.id && (
                                   <button
@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, History, CreditCard, Calendar, Coins, Star, Search, Filter, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { ArrowLeft, History, CreditCard, Calendar, Coins, Star, Search, Filter, CheckCircle, XCircle, Clock, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { Transaction } from '../types/database';
+import { Transaction, CoinLedgerEntry, CoinLedgerEntryType } from '../types/database';
 import { useError } from '../contexts/ErrorContext';
+import { useUserCoins } from '../hooks/useUserCoins';
 import { withRetry, getErrorMessage, createErrorMessage } from '../utils/errorHandling';
 
 interface TransactionHistoryPageProps {
@@ -17,6 +18,7 @@ const TransactionHistoryPage: React.FC<TransactionHistoryPageProps> = ({ user, o
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('All');
   const { addError } = useError();
+  const { ledger, ledgerLoading, hasMoreLedger, fetchLedger, loadMoreLedger } = useUserCoins(user?.id || null);
 
   const fetchTransactions = async () => {
     if (!user?.id) {
@@ -62,8 +64,34 @@ const TransactionHistoryPage: React.FC<TransactionHistoryPageProps> = ({ user, o
 
   useEffect(() => {
     fetchTransactions();
+    fetchLedger(1, false);
   }, [user?.id]);
 
+  const getLedgerEntryLabel = (entryType: CoinLedgerEntryType) => {
+    switch (entryType) {
+      case 'purchase':
+        return 'Coin purchase';
+      case 'bonus_grant':
+        return 'Bonus coins';
+      case 'unlock_spend':
+        return 'Episode unlock';
+      case 'refund':
+        return 'Refund';
+      case 'admin_adjust':
+        return 'Balance adjustment';
+      case 'expiry':
+        return 'Bonus expired';
+      default:
+        return entryType;
+    }
+  };
+
+  const formatDelta = (delta: number) => {
+    return `${delta > 0 ? '+' : ''}${delta.toLocaleString()}`;
+  };
+
+  const getLedgerEntryTotal = (entry: CoinLedgerEntry) => entry.coins_delta + entry.bonus_delta;
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed':
@@ -407,6 +435,81 @@ const TransactionHistoryPage: React.FC<TransactionHistoryPageProps> = ({ user, o
             ))}
           </div>
         )}
+
+        {/* Coin Activity */}
+        <div className="mt-12">
+          <h2 className="text-2xl font-semibold mb-6 flex items-center">
+            <Coins className="w-6 h-6 mr-3 text-yellow-400" />
+            Coin Activity
+          </h2>
+
+          {ledger.length === 0 && !ledgerLoading ? (
+            <div className="bg-gray-900 rounded-xl p-8 text-center">
+              <p className="text-gray-400">No coin activity yet</p>
+              <p className="text-gray-500 text-sm">Purchases, bonuses and unlocks will appear here</p>
+            </div>
+          ) : (
+            <div className="bg-gray-900 rounded-xl divide-y divide-gray-800">
+              {ledger.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between p-4">
+                  <div className="flex items-center space-x-4">
+                    <div className={`rounded-full p-2 ${getLedgerEntryTotal(entry) >= 0 ? 'bg-green-600/20 text-green-400' : 'bg-red-600/20 text-red-400'}`}>
+                      {getLedgerEntryTotal(entry) >= 0 ? (
+                        <ArrowDownLeft className="w-4 h-4" />
+                      ) : (
+                        <ArrowUpRight className="w-4 h-4" />
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-white font-medium">{getLedgerEntryLabel(entry.entry_type)}</p>
+                      <p className="text-gray-400 text-sm">
+                        {formatDate(entry.created_at)}
+                        {entry.note && ` • ${entry.note}`}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="text-right">
+                    <div className="flex items-center justify-end space-x-3 text-sm font-medium">
+                      {entry.coins_delta !== 0 && (
+                        <span className="flex items-center text-yellow-400">
+                          <Coins className="w-4 h-4 mr-1" />
+                          {formatDelta(entry.coins_delta)}
+                        </span>
+                      )}
+                      {entry.bonus_delta !== 0 && (
+                        <span className="flex items-center text-purple-400">
+                          <Star className="w-4 h-4 mr-1" />
+                          {formatDelta(entry.bonus_delta)}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-gray-500 text-xs mt-1">
+                      Balance: {(entry.coins_after + entry.bonus_after).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {ledgerLoading && (
+            <div className="flex items-center justify-center py-6">
+              <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            </div>
+          )}
+
+          {hasMoreLedger && !ledgerLoading && (
+            <div className="flex justify-center mt-6">
+              <button
+                onClick={loadMoreLedger}
+                className="bg-gray-700 hover:bg-gray-600 text-white px-6 py-2 rounded-lg transition-colors"
+              >
+                Load More
+              </button>
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -1,20 +1,98 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Play, Pause, Volume2, VolumeX, Maximize, X, SkipBack, SkipForward, Settings, PictureInPicture2, Subtitles, Zap } from 'lucide-react';
-import { MovieWithProgress } from '../types/database';
+import { Play, Pause, Volume2, VolumeX, Maximize, X, SkipBack, SkipForward, Settings, PictureInPicture2, Subtitles, Zap, Lock, Coins } from 'lucide-react';
+import { MovieWithProgress, SubtitleFontSize, SubtitleEdgeStyle, SubtitlePosition } from '../types/database';
 import { supabase } from '../lib/supabase';
+import { useAdaptiveStream, formatRendition, AUTO_RENDITION } from '../hooks/useAdaptiveStream';
+import { useMovieSubtitles, PlayableSubtitle } from '../hooks/useMovieSubtitles';
+import { usePlayerPreferences } from '../hooks/usePlayerPreferences';
+import { useEpisodeUnlocks } from '../hooks/useEpisodeUnlocks';
+import { useUserCoins } from '../hooks/useUserCoins';
+import { usePlaybackEvents } from '../hooks/usePlaybackEvents';
+import { useSavedPosition } from '../hooks/useSavedPosition';
+import { SaveProgressOptions } from '../hooks/useWatchHistory';
+import {
+  SUBTITLES_OFF,
+  buildCueCss,
+  adjustTrackCues,
+  getPreferredSubtitleLanguage,
+  setPreferredSubtitleLanguage,
+  pickInitialSubtitle,
+  pickForcedSubtitle
+} from '../utils/subtitles';
+import { getSkipWindows, findActiveSkipWindow, getCreditsStart, getMarkerTicks, isFinishedPosition, SkipWindow } from '../utils/chapterMarkers';
 
 interface VideoPlayerProps {
   movie: MovieWithProgress;
   onClose: () => void;
-  onProgressUpdate: (movieId: number, progressSeconds: number, totalDurationSeconds: number) => void;
-  onEpisodeEnded?: (nextEpisode: MovieWithProgress | null) => void;
+  onProgressUpdate: (
+    movie: MovieWithProgress,
+    progressSeconds: number,
+    totalDurationSeconds: number,
+    options?: SaveProgressOptions
+  ) => void;
+  onEpisodeEnded?: (nextEpisode: MovieWithProgress | null, autoplayed: boolean) => void;
+  onPurchaseCoins?: () => void;
+  userId?: string | null;
+  // Explicit start offset (?t= links, Resume buttons); plays from there without asking
+  startTime?: number | null;
+  // Episodes in a row that started from the countdown without any input
+  autoplayStreak?: number;
 }
 
 type VideoQuality = 'auto' | '720p' | '1080p' | '4k';
 type PlaybackSpeed = 0.5 | 0.75 | 1 | 1.25 | 1.5 | 2;
-type SubtitleTrack = 'off' | 'en' | 'es';
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpdate, onEpisodeEnded }) => {
+const SUBTITLE_FONT_SIZES: { value: SubtitleFontSize; label: string }[] = [
+  { value: 'small', label: 'S' },
+  { value: 'medium', label: 'M' },
+  { value: 'large', label: 'L' },
+  { value: 'x-large', label: 'XL' }
+];
+
+const SUBTITLE_COLORS = [
+  { value: '#FFFFFF', label: 'White' },
+  { value: '#FFFF00', label: 'Yellow' },
+  { value: '#00FFFF', label: 'Cyan' },
+  { value: '#00FF00', label: 'Green' }
+];
+
+const SUBTITLE_BACKGROUND_OPACITIES = [0, 0.25, 0.5, 0.75, 1];
+
+const SUBTITLE_EDGE_STYLES: { value: SubtitleEdgeStyle; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'outline', label: 'Outline' },
+  { value: 'drop-shadow', label: 'Shadow' },
+  { value: 'raised', label: 'Raised' },
+  { value: 'depressed', label: 'Depressed' }
+];
+
+const SUBTITLE_POSITIONS: { value: SubtitlePosition; label: string }[] = [
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'raised', label: 'Raised' },
+  { value: 'top', label: 'Top' }
+];
+
+const SUBTITLE_OFFSET_STEP = 0.5;
+const MAX_SUBTITLE_OFFSET = 30;
+
+const UP_NEXT_COUNTDOWN_SECONDS = 10;
+const MAX_AUTOPLAYED_EPISODES = 3;
+// Saved positions this close to the start are not worth asking about
+const MIN_RESUME_SECONDS = 10;
+const PROGRESS_SAVE_INTERVAL_MS = 10000;
+// Scrubbing fires a burst of seeks; only where it stops is saved
+const SEEK_SAVE_DEBOUNCE_MS = 1000;
+
+const VideoPlayer: React.FC<VideoPlayerProps> = ({
+  movie,
+  onClose,
+  onProgressUpdate,
+  onEpisodeEnded,
+  onPurchaseCoins,
+  userId,
+  startTime = null,
+  autoplayStreak = 0
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
@@ -27,12 +105,73 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
   const [showSettings, setShowSettings] = useState(false);
   const [videoQuality, setVideoQuality] = useState<VideoQuality>('auto');
   const [playbackSpeed, setPlaybackSpeed] = useState<PlaybackSpeed>(1);
-  const [subtitleTrack, setSubtitleTrack] = useState<SubtitleTrack>('off');
+  const [selectedSubtitleId, setSelectedSubtitleId] = useState<string | null>(null);
   const [isPictureInPicture, setIsPictureInPicture] = useState(false);
   const [nextEpisode, setNextEpisode] = useState<MovieWithProgress | null>(null);
+  const [nextEpisodeChecked, setNextEpisodeChecked] = useState(false);
+  // Saved position offered as "Resume from" until the viewer picks
+  const [resumePrompt, setResumePrompt] = useState<number | null>(null);
+  const startDecidedRef = useRef(false);
+  const { savedPosition, loaded: savedPositionLoaded } = useSavedPosition(movie.id, userId || null, movie.progress_seconds);
+
+  // Manifest playback with ABR; the progressive URLs below are the fallback
+  const {
+    isAdaptive,
+    renditions,
+    selectedRendition,
+    activeRendition,
+    selectRendition
+  } = useAdaptiveStream(videoRef, movie.manifest_url);
+
+  // Subtitle tracks are built from movie_subtitles rather than fixed columns
+  const { subtitles } = useMovieSubtitles(movie.id);
+  const trackRefs = useRef<Record<string, HTMLTrackElement | null>>({});
+
+  // Caption appearance is saved per user; the sync offset only fixes this title's file
+  const { subtitleStyle, updateSubtitleStyle } = usePlayerPreferences(userId || null);
+  const [subtitleOffset, setSubtitleOffset] = useState(0);
+
+  // Chapter markers: skip buttons inside intro/recap, and the up-next countdown from the credits
+  const skipWindows = getSkipWindows(movie);
+  const activeSkipWindow = findActiveSkipWindow(skipWindows, currentTime);
+  const creditsStart = getCreditsStart(movie, duration);
+  const markerTicks = getMarkerTicks(movie, duration);
+
+  // Start, quartile and completion events behind view counts and trending
+  const { recordStart, recordProgress, recordComplete } = usePlaybackEvents(movie.id);
+
+  // End-card: counts down to the next episode, or offers to unlock it
+  const [endCardOpen, setEndCardOpen] = useState(false);
+  const [upNextCountdown, setUpNextCountdown] = useState<number | null>(null);
+  const [autoAdvanceCancelled, setAutoAdvanceCancelled] = useState(false);
+  const [hasEnded, setHasEnded] = useState(false);
+  const [showStillWatching, setShowStillWatching] = useState(false);
+  const [unlocking, setUnlocking] = useState(false);
+  const userInteractedRef = useRef(false);
+  const videoEndedRef = useRef<() => void>(() => {});
+  const { isEpisodeUnlocked, unlockEpisode } = useEpisodeUnlocks(userId || null);
+  const { canAfford, totalCoins, fetchBalance } = useUserCoins(userId || null);
+  const isNextEpisodeLocked = Boolean(nextEpisode?.is_locked && !isEpisodeUnlocked(nextEpisode.id));
   
   const controlsTimeoutRef = useRef<NodeJS.Timeout>();
   const progressUpdateIntervalRef = useRef<NodeJS.Timeout>();
+  // Progress listeners are bound once per title, so they read the latest callback here
+  const onProgressUpdateRef = useRef(onProgressUpdate);
+  onProgressUpdateRef.current = onProgressUpdate;
+  const lastSavedPositionRef = useRef<number | null>(null);
+  // Nothing is saved before playback starts, so an untouched player never
+  // overwrites the saved position with 0:00
+  const hasStartedRef = useRef(false);
+
+  const saveProgress = (video: HTMLVideoElement, options?: SaveProgressOptions) => {
+    if (!hasStartedRef.current || !(video.duration > 0)) return;
+
+    const position = Math.floor(video.currentTime);
+    if (position === lastSavedPositionRef.current) return;
+
+    lastSavedPositionRef.current = position;
+    onProgressUpdateRef.current(movie, video.currentTime, video.duration, options);
+  };
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -42,6 +181,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
         return;
       }
 
+      userInteractedRef.current = true;
+
       switch (event.code) {
         case 'Space':
           event.preventDefault();
@@ -113,7 +254,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
   };
 
   const videoUrl = getVideoUrl(videoQuality);
-  const hasVideoUrl = Boolean(movie.video_url || movie.video_url_720p || movie.video_url_1080p || movie.video_url_4k);
+  const hasVideoUrl = Boolean(movie.manifest_url || movie.video_url || movie.video_url_720p || movie.video_url_1080p || movie.video_url_4k);
 
   // Get available video qualities
   const getAvailableQualities = (): VideoQuality[] => {
@@ -124,17 +265,23 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
     return qualities;
   };
 
-  // Get available subtitle tracks
-  const getAvailableSubtitles = (): { value: SubtitleTrack; label: string }[] => {
-    const subtitles: { value: SubtitleTrack; label: string }[] = [{ value: 'off', label: 'Off' }];
-    if (movie.subtitle_url_en) subtitles.push({ value: 'en', label: 'English' });
-    if (movie.subtitle_url_es) subtitles.push({ value: 'es', label: 'Español' });
-    return subtitles;
+  // Forced tracks play automatically and are not offered in the menu
+  const selectableSubtitles = subtitles.filter(subtitle => !subtitle.forced);
+
+  const getSubtitleLabel = (subtitle: PlayableSubtitle) =>
+    subtitle.kind === 'captions' ? `${subtitle.label} (CC)` : subtitle.label;
+
+  const selectSubtitle = (subtitle: PlayableSubtitle | null) => {
+    setSelectedSubtitleId(subtitle?.id || null);
+    setPreferredSubtitleLanguage(subtitle ? subtitle.language : SUBTITLES_OFF);
   };
 
   // Fetch next episode
   const fetchNextEpisode = async () => {
-    if (!movie.series_id || !movie.episode_number) return;
+    if (!movie.series_id || !movie.episode_number) {
+      setNextEpisodeChecked(true);
+      return;
+    }
 
     try {
       const { data, error } = await supabase
@@ -151,6 +298,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
       }
     } catch (err) {
       console.log('No next episode found');
+    } finally {
+      setNextEpisodeChecked(true);
     }
   };
 
@@ -161,12 +310,6 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
     const handleLoadedMetadata = () => {
       setDuration(video.duration);
       setIsLoading(false);
-      
-      // Set initial progress if continuing watching
-      if (movie.progress_seconds && movie.progress_seconds > 0) {
-        video.currentTime = movie.progress_seconds;
-        setCurrentTime(movie.progress_seconds);
-      }
 
       // Set initial playback speed
       video.playbackRate = playbackSpeed;
@@ -174,6 +317,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
 
     const handleTimeUpdate = () => {
       setCurrentTime(video.currentTime);
+      recordProgress(video.currentTime, video.duration, getCreditsStart(movie, video.duration));
       // Manual check for end of video if native 'ended' event is unreliable
       // Trigger handleEnded if current time is very close to duration and video is playing
       if (isPlaying && video.currentTime >= video.duration - 0.5 && video.duration > 0) {
@@ -188,14 +332,20 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
     const handleEnded = () => {
       setIsPlaying(false);
       // Mark as completed
-      onProgressUpdate(movie.id, video.duration, video.duration);
-      console.log('Video ended. Next episode:', nextEpisode);
-      
-      // Directly play next episode or close player
-      playNextEpisode();
+      lastSavedPositionRef.current = Math.floor(video.duration);
+      onProgressUpdateRef.current(movie, video.duration, video.duration);
+      recordComplete(video.duration);
+      // Read through a ref: this listener is only bound once per title
+      videoEndedRef.current();
     };
 
-    const handlePlay = () => setIsPlaying(true);
+    const handlePlay = () => {
+      hasStartedRef.current = true;
+      setIsPlaying(true);
+      // Playing any other way answers the resume prompt with "Start over"
+      setResumePrompt(null);
+      recordStart(video.currentTime);
+    };
     const handlePause = () => setIsPlaying(false);
 
     const handleEnterpictureinpicture = () => setIsPictureInPicture(true);
@@ -218,7 +368,57 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
       video.removeEventListener('enterpictureinpicture', handleEnterpictureinpicture);
       video.removeEventListener('leavepictureinpicture', handleLeavepictureinpicture);
     };
-  }, [movie.id, movie.progress_seconds, onProgressUpdate]);
+  }, [movie.id]);
+
+  // Decide where playback starts once the length, saved position and next
+  // episode are known. Finished titles start over, or move on to the next
+  // episode when there is an unlocked one.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || startDecidedRef.current || duration <= 0) return;
+
+    if (startTime !== null) {
+      startDecidedRef.current = true;
+      const target = Math.min(Math.max(startTime, 0), duration);
+      video.currentTime = target;
+      setCurrentTime(target);
+      return;
+    }
+
+    if (!savedPositionLoaded || !nextEpisodeChecked) return;
+    startDecidedRef.current = true;
+
+    if (savedPosition === null || savedPosition < MIN_RESUME_SECONDS) return;
+
+    if (isFinishedPosition(movie, savedPosition, duration)) {
+      if (nextEpisode && !isNextEpisodeLocked) {
+        playNextEpisode();
+      }
+      return;
+    }
+
+    setResumePrompt(savedPosition);
+  }, [duration, startTime, savedPosition, savedPositionLoaded, nextEpisodeChecked]);
+
+  const resumePlayback = () => {
+    const video = videoRef.current;
+    if (!video || resumePrompt === null) return;
+
+    video.currentTime = resumePrompt;
+    setCurrentTime(resumePrompt);
+    setResumePrompt(null);
+    video.play();
+  };
+
+  const startOver = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.currentTime = 0;
+    setCurrentTime(0);
+    setResumePrompt(null);
+    video.play();
+  };
 
   // Fetch next episode on mount
   useEffect(() => {
@@ -228,7 +428,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
   // Update video quality
   useEffect(() => {
     const video = videoRef.current;
-    if (!video) return;
+    // Adaptive streams switch renditions themselves without touching video.src
+    if (!video || isAdaptive) return;
 
     const currentTime = video.currentTime;
     const wasPlaying = !video.paused;
@@ -240,7 +441,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
     if (wasPlaying) {
       video.play();
     }
-  }, [videoQuality, movie.id, movie.video_url, movie.video_url_720p, movie.video_url_1080p, movie.video_url_4k]);
+  }, [isAdaptive, videoQuality, movie.id, movie.video_url, movie.video_url_720p, movie.video_url_1080p, movie.video_url_4k]);
 
   // Update playback speed
   useEffect(() => {
@@ -250,33 +451,82 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
     }
   }, [playbackSpeed]);
 
+  // Pick the starting track once the title's subtitles have loaded
+  useEffect(() => {
+    setSelectedSubtitleId(pickInitialSubtitle(subtitles, getPreferredSubtitleLanguage())?.id || null);
+  }, [subtitles]);
+
   // Update subtitle track
   useEffect(() => {
-    const video = videoRef.current;
-    if (!video) return;
+    // With subtitles off, a forced narrative track may still need to show
+    const forced = selectedSubtitleId ? null : pickForcedSubtitle(subtitles, getPreferredSubtitleLanguage());
+    const activeId = selectedSubtitleId || forced?.id || null;
+
+    subtitles.forEach(subtitle => {
+      const track = trackRefs.current[subtitle.id]?.track;
+      if (track) {
+        track.mode = subtitle.id === activeId ? 'showing' : 'disabled';
+      }
+    });
+  }, [selectedSubtitleId, subtitles]);
+
+  // Re-time and re-position cues; tracks only expose cues once they have loaded
+  useEffect(() => {
+    const elements = subtitles
+      .map(subtitle => trackRefs.current[subtitle.id])
+      .filter((element): element is HTMLTrackElement => Boolean(element));
+
+    const applyAdjustments = () => {
+      elements.forEach(element => adjustTrackCues(element.track, subtitleOffset, subtitleStyle.subtitle_position));
+    };
+
+    applyAdjustments();
+    elements.forEach(element => element.addEventListener('load', applyAdjustments));
 
-    // Disable all tracks first
-    for (let i = 0; i < video.textTracks.length; i++) {
-      video.textTracks[i].mode = 'disabled';
+    return () => {
+      elements.forEach(element => element.removeEventListener('load', applyAdjustments));
+    };
+  }, [subtitles, selectedSubtitleId, subtitleOffset, subtitleStyle.subtitle_position]);
+
+  // Open the end-card once the credits roll; seeking back before them re-arms it
+  useEffect(() => {
+    if (creditsStart === null || !nextEpisode) return;
+
+    if (currentTime < creditsStart) {
+      setEndCardOpen(false);
+      setUpNextCountdown(null);
+      setAutoAdvanceCancelled(false);
+      setHasEnded(false);
+    } else if (!endCardOpen && !autoAdvanceCancelled && isPlaying) {
+      openEndCard();
     }
+  }, [currentTime, creditsStart, nextEpisode, endCardOpen, autoAdvanceCancelled, isPlaying]);
 
-    // Enable selected track
-    if (subtitleTrack !== 'off') {
-      const trackIndex = subtitleTrack === 'en' ? 0 : 1;
-      if (video.textTracks[trackIndex]) {
-        video.textTracks[trackIndex].mode = 'showing';
-      }
+  // Tick while the credits play or after the video has ended, but not while paused mid-credits
+  useEffect(() => {
+    if (upNextCountdown === null || !(isPlaying || hasEnded)) return;
+
+    if (upNextCountdown <= 0) {
+      autoAdvance();
+      return;
     }
-  }, [subtitleTrack]);
 
-  // Update watch history every 10 seconds
+    const timeout = setTimeout(() => setUpNextCountdown(prev => (prev === null ? null : prev - 1)), 1000);
+    return () => clearTimeout(timeout);
+  }, [upNextCountdown, isPlaying, hasEnded]);
+
+  const changeSubtitleOffset = (delta: number) => {
+    setSubtitleOffset(prev => Math.max(-MAX_SUBTITLE_OFFSET, Math.min(MAX_SUBTITLE_OFFSET, prev + delta)));
+  };
+
+  // Update watch history every 10 seconds while playing
   useEffect(() => {
     if (isPlaying && duration > 0) {
       progressUpdateIntervalRef.current = setInterval(() => {
         if (videoRef.current) {
-          onProgressUpdate(movie.id, videoRef.current.currentTime, duration);
+          saveProgress(videoRef.current);
         }
-      }, 10000); // Update every 10 seconds
+      }, PROGRESS_SAVE_INTERVAL_MS);
     } else {
       if (progressUpdateIntervalRef.current) {
         clearInterval(progressUpdateIntervalRef.current);
@@ -288,7 +538,43 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
         clearInterval(progressUpdateIntervalRef.current);
       }
     };
-  }, [isPlaying, duration, movie.id, onProgressUpdate]);
+  }, [isPlaying, duration, movie.id]);
+
+  // Save straight away whenever the position could otherwise be lost: on
+  // pause, once a seek settles, when the tab is hidden or the page unloads,
+  // and when the player closes. Hidden and unloading pages use keepalive.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let seekTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const handlePause = () => saveProgress(video);
+    const handleSeeked = () => {
+      clearTimeout(seekTimeout);
+      seekTimeout = setTimeout(() => saveProgress(video), SEEK_SAVE_DEBOUNCE_MS);
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        saveProgress(video, { keepalive: true });
+      }
+    };
+    const handlePageHide = () => saveProgress(video, { keepalive: true });
+
+    video.addEventListener('pause', handlePause);
+    video.addEventListener('seeked', handleSeeked);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      clearTimeout(seekTimeout);
+      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('seeked', handleSeeked);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+      saveProgress(video);
+    };
+  }, [movie.id]);
 
   // Auto-hide controls
   useEffect(() => {
@@ -362,6 +648,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
     setCurrentTime(newTime);
   };
 
+  const skipChapter = (skipWindow: SkipWindow) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.currentTime = skipWindow.end;
+    setCurrentTime(skipWindow.end);
+  };
+
   const toggleFullscreen = () => {
     const container = document.getElementById('video-player-container');
     if (!container) return;
@@ -390,15 +684,83 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
     }
   };
 
-  const playNextEpisode = () => {
+  const playNextEpisode = (autoplayed: boolean = false) => {
     // Signal to parent component to play the next episode or close player
     if (onEpisodeEnded) {
-      onEpisodeEnded(nextEpisode);
+      onEpisodeEnded(nextEpisode, autoplayed);
     } else {
       onClose();
     }
   };
 
+  // Leave during the credits: the episode counts as watched
+  const finishEpisode = (autoplayed: boolean = false) => {
+    setUpNextCountdown(null);
+    if (duration > 0) {
+      lastSavedPositionRef.current = Math.floor(duration);
+      onProgressUpdate(movie, duration, duration);
+    }
+    playNextEpisode(autoplayed);
+  };
+
+  // Locked episodes never count down; they wait for an unlock
+  const openEndCard = () => {
+    setEndCardOpen(true);
+    if (!isNextEpisodeLocked && !autoAdvanceCancelled) {
+      setUpNextCountdown(UP_NEXT_COUNTDOWN_SECONDS);
+    }
+  };
+
+  videoEndedRef.current = () => {
+    setHasEnded(true);
+    if (nextEpisode) {
+      openEndCard();
+    } else {
+      playNextEpisode();
+    }
+  };
+
+  const autoAdvance = () => {
+    const autoplayed = !userInteractedRef.current;
+
+    // Nobody has touched the player for a few episodes; check before playing on
+    if (autoplayed && autoplayStreak >= MAX_AUTOPLAYED_EPISODES) {
+      videoRef.current?.pause();
+      setUpNextCountdown(null);
+      setEndCardOpen(false);
+      setShowStillWatching(true);
+      return;
+    }
+
+    finishEpisode(autoplayed);
+  };
+
+  const cancelAutoAdvance = () => {
+    setUpNextCountdown(null);
+    setAutoAdvanceCancelled(true);
+    // During the credits the card gets out of the way; at the end it stays for a manual choice
+    if (!hasEnded) {
+      setEndCardOpen(false);
+    }
+  };
+
+  const handleUnlockNextEpisode = async () => {
+    if (!nextEpisode) return;
+
+    setUnlocking(true);
+    try {
+      // Coins are deducted and the episode unlocked in one server-side transaction
+      const unlocked = await unlockEpisode(nextEpisode.id);
+      await fetchBalance();
+
+      if (unlocked) {
+        finishEpisode();
+      }
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
 
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
@@ -413,6 +775,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
       id="video-player-container"
       className="fixed inset-0 bg-black z-50 flex items-center justify-center"
       onMouseMove={() => setShowControls(true)}
+      onPointerDown={() => { userInteractedRef.current = true; }}
       onMouseLeave={() => isPlaying && setShowControls(false)}
     >
       {/* Close Button */}
@@ -446,28 +809,22 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
       {/* Video Element */}
       <video
         ref={videoRef}
-        src={videoUrl}
+        src={isAdaptive ? undefined : videoUrl}
         className="w-full h-full object-contain"
         onClick={togglePlay}
         preload="metadata"
       >
         {/* Subtitle tracks */}
-        {movie.subtitle_url_en && (
+        {subtitles.map((subtitle) => (
           <track
-            kind="subtitles"
-            src={movie.subtitle_url_en}
-            srcLang="en"
-            label="English"
+            key={subtitle.id}
+            ref={(element) => { trackRefs.current[subtitle.id] = element; }}
+            kind={subtitle.kind}
+            src={subtitle.src}
+            srcLang={subtitle.language}
+            label={getSubtitleLabel(subtitle)}
           />
-        )}
-        {movie.subtitle_url_es && (
-          <track
-            kind="subtitles"
-            src={movie.subtitle_url_es}
-            srcLang="es"
-            label="Español"
-          />
-        )}
+        ))}
       </video>
 
       {/* Loading Spinner */}
@@ -487,8 +844,32 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
         </div>
       )}
 
+      {/* Resume prompt */}
+      {resumePrompt !== null && !isPlaying && !isLoading && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/60">
+          <div className="bg-gray-900/95 rounded-lg shadow-xl p-6 w-80 text-center">
+            <p className="text-white font-semibold">Continue where you left off?</p>
+            <p className="text-gray-400 text-sm mt-1 mb-5 truncate">{movie.title}</p>
+            <button
+              onClick={resumePlayback}
+              className="w-full bg-red-600 hover:bg-red-700 text-white font-semibold py-2 rounded-lg flex items-center justify-center transition-colors"
+            >
+              <Play className="w-4 h-4 mr-2 fill-current" />
+              Resume from {formatTime(resumePrompt)}
+            </button>
+            <button
+              onClick={startOver}
+              className="w-full mt-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 rounded-lg flex items-center justify-center transition-colors"
+            >
+              <SkipBack className="w-4 h-4 mr-2" />
+              Start over
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Play/Pause Overlay */}
-      {!isPlaying && !isLoading && (
+      {!isPlaying && !isLoading && resumePrompt === null && (
         <button
           onClick={togglePlay}
           className="absolute inset-0 flex items-center justify-center text-white hover:bg-black/20 transition-colors"
@@ -497,9 +878,111 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
         </button>
       )}
 
+      {/* Skip Intro / Skip Recap */}
+      {activeSkipWindow && !endCardOpen && (
+        <button
+          onClick={() => skipChapter(activeSkipWindow)}
+          className="absolute bottom-32 right-6 z-10 bg-black/70 hover:bg-black/90 border border-white/60 text-white font-semibold px-5 py-2 rounded-lg transition-colors"
+        >
+          {activeSkipWindow.label}
+        </button>
+      )}
+
+      {/* Up Next */}
+      {endCardOpen && nextEpisode && (
+        <div className="absolute bottom-32 right-6 z-10 bg-gray-900/95 rounded-lg shadow-xl p-4 w-72">
+          <p className="text-gray-400 text-sm">Up next</p>
+          <p className="text-white font-semibold truncate">
+            {nextEpisode.episode_number ? `Episode ${nextEpisode.episode_number}` : nextEpisode.title}
+          </p>
+
+          {isNextEpisodeLocked ? (
+            <>
+              <div className="flex items-center text-sm text-gray-300 mt-1">
+                <Lock className="w-4 h-4 mr-1 text-yellow-400" />
+                Unlock for {nextEpisode.unlock_cost || 0} coins
+              </div>
+              {userId && (
+                <div className="flex items-center text-sm text-gray-400 mb-3">
+                  <Coins className="w-4 h-4 mr-1" />
+                  Your balance: {totalCoins} coins
+                </div>
+              )}
+              <div className="flex space-x-2 mt-3">
+                {userId && canAfford(nextEpisode.unlock_cost || 0) ? (
+                  <button
+                    onClick={handleUnlockNextEpisode}
+                    disabled={unlocking}
+                    className="flex-1 bg-yellow-500 hover:bg-yellow-600 disabled:opacity-50 text-black text-sm font-semibold px-3 py-2 rounded transition-colors"
+                  >
+                    {unlocking ? 'Unlocking...' : 'Unlock & Play'}
+                  </button>
+                ) : (
+                  <button
+                    onClick={onPurchaseCoins}
+                    className="flex-1 bg-yellow-500 hover:bg-yellow-600 text-black text-sm font-semibold px-3 py-2 rounded transition-colors"
+                  >
+                    {userId ? 'Get Coins' : 'Sign In to Unlock'}
+                  </button>
+                )}
+                <button
+                  onClick={hasEnded ? onClose : cancelAutoAdvance}
+                  className="flex-1 bg-gray-700 hover:bg-gray-600 text-white text-sm px-3 py-2 rounded transition-colors"
+                >
+                  {hasEnded ? 'Close' : 'Not Now'}
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              {upNextCountdown !== null && (
+                <p className="text-gray-300 text-sm">Playing in {upNextCountdown}s</p>
+              )}
+              <div className="flex space-x-2 mt-3">
+                <button
+                  onClick={() => finishEpisode()}
+                  className="flex-1 bg-red-600 hover:bg-red-700 text-white text-sm font-semibold px-3 py-2 rounded transition-colors"
+                >
+                  Play Now
+                </button>
+                <button
+                  onClick={upNextCountdown !== null ? cancelAutoAdvance : onClose}
+                  className="flex-1 bg-gray-700 hover:bg-gray-600 text-white text-sm px-3 py-2 rounded transition-colors"
+                >
+                  {upNextCountdown !== null ? 'Cancel' : 'Close'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Are you still watching? */}
+      {showStillWatching && (
+        <div className="absolute inset-0 z-20 bg-black/80 flex items-center justify-center">
+          <div className="text-center">
+            <h2 className="text-white text-2xl font-bold mb-6">Are you still watching?</h2>
+            <div className="flex justify-center space-x-4">
+              <button
+                onClick={() => finishEpisode()}
+                className="bg-red-600 hover:bg-red-700 text-white font-semibold px-6 py-3 rounded-lg transition-colors"
+              >
+                Continue Watching
+              </button>
+              <button
+                onClick={onClose}
+                className="bg-gray-700 hover:bg-gray-600 text-white px-6 py-3 rounded-lg transition-colors"
+              >
+                Exit
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Settings Panel */}
       {showSettings && (
-        <div className={`absolute bottom-20 right-6 bg-gray-900 rounded-lg shadow-xl p-4 min-w-64 transition-opacity duration-300 ${
+        <div className={`absolute bottom-20 right-6 bg-gray-900 rounded-lg shadow-xl p-4 min-w-64 max-h-[70vh] overflow-y-auto transition-opacity duration-300 ${
           showControls ? 'opacity-100' : 'opacity-0'
         }`}>
           {/* Video Quality */}
@@ -508,21 +991,50 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
               <Zap className="w-4 h-4 mr-2" />
               Quality
             </h4>
-            <div className="space-y-1">
-              {getAvailableQualities().map((quality) => (
+            {isAdaptive ? (
+              <div className="space-y-1">
                 <button
-                  key={quality}
-                  onClick={() => setVideoQuality(quality)}
+                  onClick={() => selectRendition(AUTO_RENDITION)}
                   className={`w-full text-left px-3 py-2 rounded text-sm transition-colors ${
-                    videoQuality === quality
+                    selectedRendition === AUTO_RENDITION
                       ? 'bg-red-600 text-white'
                       : 'text-gray-300 hover:bg-gray-800'
                   }`}
                 >
-                  {quality === 'auto' ? 'Auto' : quality.toUpperCase()}
+                  Auto{renditions[activeRendition] ? ` (${formatRendition(renditions[activeRendition])})` : ''}
                 </button>
-              ))}
-            </div>
+                {[...renditions].sort((a, b) => b.height - a.height || b.bitrate - a.bitrate).map((rendition) => (
+                  <button
+                    key={rendition.index}
+                    onClick={() => selectRendition(rendition.index)}
+                    className={`w-full text-left px-3 py-2 rounded text-sm transition-colors flex justify-between ${
+                      selectedRendition === rendition.index
+                        ? 'bg-red-600 text-white'
+                        : 'text-gray-300 hover:bg-gray-800'
+                    }`}
+                  >
+                    <span>{formatRendition(rendition)}</span>
+                    <span className="text-xs opacity-70">{(rendition.bitrate / 1000000).toFixed(1)} Mbps</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {getAvailableQualities().map((quality) => (
+                  <button
+                    key={quality}
+                    onClick={() => setVideoQuality(quality)}
+                    className={`w-full text-left px-3 py-2 rounded text-sm transition-colors ${
+                      videoQuality === quality
+                        ? 'bg-red-600 text-white'
+                        : 'text-gray-300 hover:bg-gray-800'
+                    }`}
+                  >
+                    {quality === 'auto' ? 'Auto' : quality.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Playback Speed */}
@@ -552,21 +1064,162 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
               Subtitles
             </h4>
             <div className="space-y-1">
-              {getAvailableSubtitles().map((subtitle) => (
+              <button
+                onClick={() => selectSubtitle(null)}
+                className={`w-full text-left px-3 py-2 rounded text-sm transition-colors ${
+                  selectedSubtitleId === null
+                    ? 'bg-red-600 text-white'
+                    : 'text-gray-300 hover:bg-gray-800'
+                }`}
+              >
+                Off
+              </button>
+              {selectableSubtitles.map((subtitle) => (
                 <button
-                  key={subtitle.value}
-                  onClick={() => setSubtitleTrack(subtitle.value)}
+                  key={subtitle.id}
+                  onClick={() => selectSubtitle(subtitle)}
                   className={`w-full text-left px-3 py-2 rounded text-sm transition-colors ${
-                    subtitleTrack === subtitle.value
+                    selectedSubtitleId === subtitle.id
                       ? 'bg-red-600 text-white'
                       : 'text-gray-300 hover:bg-gray-800'
                   }`}
                 >
-                  {subtitle.label}
+                  {getSubtitleLabel(subtitle)}
                 </button>
               ))}
             </div>
           </div>
+
+          {/* Subtitle Appearance */}
+          {subtitles.length > 0 && (
+            <div className="mt-4">
+              <h4 className="text-white font-semibold mb-2">Subtitle Appearance</h4>
+
+              <div className="space-y-3 text-sm">
+                <div>
+                  <div className="text-gray-400 mb-1">Size</div>
+                  <div className="flex space-x-1">
+                    {SUBTITLE_FONT_SIZES.map((size) => (
+                      <button
+                        key={size.value}
+                        onClick={() => updateSubtitleStyle({ subtitle_font_size: size.value })}
+                        className={`flex-1 px-2 py-1 rounded transition-colors ${
+                          subtitleStyle.subtitle_font_size === size.value
+                            ? 'bg-red-600 text-white'
+                            : 'text-gray-300 hover:bg-gray-800'
+                        }`}
+                      >
+                        {size.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="text-gray-400 mb-1">Colour</div>
+                  <div className="flex space-x-2">
+                    {SUBTITLE_COLORS.map((color) => (
+                      <button
+                        key={color.value}
+                        title={color.label}
+                        onClick={() => updateSubtitleStyle({ subtitle_color: color.value })}
+                        className={`w-7 h-7 rounded-full border-2 transition-colors ${
+                          subtitleStyle.subtitle_color === color.value ? 'border-red-500' : 'border-gray-700'
+                        }`}
+                        style={{ backgroundColor: color.value }}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="text-gray-400 mb-1">Background</div>
+                  <div className="flex space-x-1">
+                    {SUBTITLE_BACKGROUND_OPACITIES.map((opacity) => (
+                      <button
+                        key={opacity}
+                        onClick={() => updateSubtitleStyle({ subtitle_background_opacity: opacity })}
+                        className={`flex-1 px-2 py-1 rounded transition-colors ${
+                          subtitleStyle.subtitle_background_opacity === opacity
+                            ? 'bg-red-600 text-white'
+                            : 'text-gray-300 hover:bg-gray-800'
+                        }`}
+                      >
+                        {opacity * 100}%
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="text-gray-400 mb-1">Edge</div>
+                  <div className="grid grid-cols-3 gap-1">
+                    {SUBTITLE_EDGE_STYLES.map((edge) => (
+                      <button
+                        key={edge.value}
+                        onClick={() => updateSubtitleStyle({ subtitle_edge_style: edge.value })}
+                        className={`px-2 py-1 rounded transition-colors ${
+                          subtitleStyle.subtitle_edge_style === edge.value
+                            ? 'bg-red-600 text-white'
+                            : 'text-gray-300 hover:bg-gray-800'
+                        }`}
+                      >
+                        {edge.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="text-gray-400 mb-1">Position</div>
+                  <div className="flex space-x-1">
+                    {SUBTITLE_POSITIONS.map((position) => (
+                      <button
+                        key={position.value}
+                        onClick={() => updateSubtitleStyle({ subtitle_position: position.value })}
+                        className={`flex-1 px-2 py-1 rounded transition-colors ${
+                          subtitleStyle.subtitle_position === position.value
+                            ? 'bg-red-600 text-white'
+                            : 'text-gray-300 hover:bg-gray-800'
+                        }`}
+                      >
+                        {position.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="text-gray-400 mb-1">Sync</div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => changeSubtitleOffset(-SUBTITLE_OFFSET_STEP)}
+                      className="px-2 py-1 rounded text-gray-300 hover:bg-gray-800 transition-colors"
+                    >
+                      -{SUBTITLE_OFFSET_STEP}s
+                    </button>
+                    <span className="flex-1 text-center text-white">
+                      {subtitleOffset > 0 ? '+' : ''}{subtitleOffset.toFixed(1)}s
+                    </span>
+                    <button
+                      onClick={() => changeSubtitleOffset(SUBTITLE_OFFSET_STEP)}
+                      className="px-2 py-1 rounded text-gray-300 hover:bg-gray-800 transition-colors"
+                    >
+                      +{SUBTITLE_OFFSET_STEP}s
+                    </button>
+                    {subtitleOffset !== 0 && (
+                      <button
+                        onClick={() => setSubtitleOffset(0)}
+                        className="px-2 py-1 rounded text-gray-400 hover:text-white transition-colors"
+                      >
+                        Reset
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -576,17 +1229,28 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
       }`}>
         {/* Progress Bar */}
         <div className="mb-4">
-          <input
-            type="range"
-            min="0"
-            max="100"
-            value={progressPercentage}
-            onChange={handleSeek}
-            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
-            style={{
-              background: `linear-gradient(to right, #ef4444 0%, #ef4444 ${progressPercentage}%, #4b5563 ${progressPercentage}%, #4b5563 100%)`
-            }}
-          />
+          <div className="relative">
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={progressPercentage}
+              onChange={handleSeek}
+              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
+              style={{
+                background: `linear-gradient(to right, #ef4444 0%, #ef4444 ${progressPercentage}%, #4b5563 ${progressPercentage}%, #4b5563 100%)`
+              }}
+            />
+            {/* Chapter markers */}
+            {markerTicks.map((tick) => (
+              <span
+                key={tick.key}
+                aria-label={tick.label}
+                className="absolute top-1/2 -translate-y-1/2 w-1 h-3 bg-yellow-400 rounded-sm pointer-events-none"
+                style={{ left: `${(tick.seconds / duration) * 100}%` }}
+              />
+            ))}
+          </div>
           <div className="flex justify-between text-sm text-gray-300 mt-1">
             <span>{formatTime(currentTime)}</span>
             <span>{formatTime(duration)}</span>
@@ -671,6 +1335,9 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ movie, onClose, onProgressUpd
         </div>
       </div>
 
+      {/* Caption appearance from the viewer's preferences */}
+      <style>{buildCueCss('#video-player-container video', subtitleStyle)}</style>
+
       <style jsx>{`
         .slider::-webkit-slider-thumb {
           appearance: none;
@@ -1,29 +1,18 @@
 import React from 'react';
-import { ArrowLeft, Clock, Play, Trash2, Search } from 'lucide-react';
+import { ArrowLeft, Clock, Play, Trash2, Search, CloudOff } from 'lucide-react';
 import { useWatchHistory } from '../hooks/useWatchHistory';
-import { MovieWithProgress } from '../types/database';
+import { MovieWithProgress, ContinueWatchingItem } from '../types/database';
+import { formatViewCount, formatEpisodeCount, formatResumePosition, formatPendingSync } from '../utils/formatting';
 
 interface WatchHistoryPageProps {
   user: any;
   onBack: () => void;
   onMovieClick: (movie: MovieWithProgress) => void;
+  onResume: (movie: MovieWithProgress) => void;
 }
 
-const WatchHistoryPage: React.FC<WatchHistoryPageProps> = ({ user, onBack, onMovieClick }) => {
-  const { continueWatching, loading, error, removeFromWatchHistory } = useWatchHistory(user?.id || null);
-
-  const getProgressPercentage = (movie: MovieWithProgress) => {
-    if (!movie.progress_seconds || !movie.total_duration_seconds) {
-      return 0;
-    }
-    return Math.min((movie.progress_seconds / movie.total_duration_seconds) * 100, 100);
-  };
-
-  const formatTime = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
+const WatchHistoryPage: React.FC<WatchHistoryPageProps> = ({ user, onBack, onMovieClick, onResume }) => {
+  const { continueWatching, loading, error, removeFromWatchHistory, pendingSyncCount } = useWatchHistory(user?.id || null);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -35,6 +24,12 @@ const WatchHistoryPage: React.FC<WatchHistoryPageProps> = ({ user, onBack, onMov
     });
   };
 
+  const handleResume = (movie: ContinueWatchingItem, e: React.MouseEvent) => {
+    e.stopPropagation();
+    // Finished titles start over rather than reopening on the last frame
+    onResume(movie.is_completed ? { ...movie, progress_seconds: 0 } : movie);
+  };
+
   const handleRemoveFromHistory = async (movieId: number, e: React.MouseEvent) => {
     e.stopPropagation();
     if (window.confirm('Remove this item from your watch history?')) {
@@ -118,6 +113,12 @@ const WatchHistoryPage: React.FC<WatchHistoryPageProps> = ({ user, onBack, onMov
               <p className="text-gray-400 mt-1">
                 {continueWatching.length} {continueWatching.length === 1 ? 'item' : 'items'}
               </p>
+              {pendingSyncCount > 0 && (
+                <p className="text-yellow-400 text-sm mt-1 flex items-center">
+                  <CloudOff className="w-4 h-4 mr-1" />
+                  {formatPendingSync(pendingSyncCount)}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -152,18 +153,18 @@ const WatchHistoryPage: React.FC<WatchHistoryPageProps> = ({ user, onBack, onMov
                 <div className="relative aspect-[9/16] rounded-lg overflow-hidden shadow-lg hover:shadow-xl transition-all duration-300 group-hover:scale-105">
                   <img
                     src={movie.poster_url}
-                    alt={movie.title}
+                    alt={movie.series_title || movie.title}
                     className="w-full h-full object-cover"
                     loading="lazy"
                     decoding="async"
                   />
                   <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent" />
                   
-                  {/* Progress Bar */}
+                  {/* Progress Bar - whole series for series, position for movies */}
                   <div className="absolute bottom-0 left-0 right-0 h-1 bg-gray-600">
                     <div 
                       className="h-full bg-red-500 transition-all duration-300"
-                      style={{ width: `${getProgressPercentage(movie)}%` }}
+                      style={{ width: `${movie.completion_percent}%` }}
                     />
                   </div>
                   
@@ -184,34 +185,35 @@ const WatchHistoryPage: React.FC<WatchHistoryPageProps> = ({ user, onBack, onMov
                   <div className="absolute bottom-4 left-4 right-4">
                     <div className="flex items-center text-white text-sm mb-2">
                       <Play className="w-3 h-3 mr-1 fill-current" />
-                      {movie.view_count}
+                      {formatViewCount(movie.view_count)}
                     </div>
                   </div>
                 </div>
                 
                 <div className="mt-3">
                   <h3 className="text-white font-medium text-sm line-clamp-2 leading-tight">
-                    {movie.title}
+                    {movie.series_title || movie.title}
                   </h3>
                   <p className="text-gray-400 text-xs mt-1">{movie.genre}</p>
                   {movie.episodes && (
-                    <p className="text-gray-500 text-xs">{movie.episodes} episodes</p>
-                  )}
-                  {movie.progress_seconds && movie.total_duration_seconds && (
-                    <div className="mt-2">
-                      <p className="text-gray-500 text-xs">
-                        {formatTime(movie.progress_seconds)} / {formatTime(movie.total_duration_seconds)}
-                      </p>
-                      <p className="text-gray-500 text-xs">
-                        {Math.round(getProgressPercentage(movie))}% complete
-                      </p>
-                    </div>
+                    <p className="text-gray-500 text-xs">{formatEpisodeCount(movie.episodes)}</p>
                   )}
+                  <div className="mt-2">
+                    <p className="text-gray-500 text-xs">{formatResumePosition(movie)}</p>
+                    <p className="text-gray-500 text-xs">{movie.completion_percent}% complete</p>
+                  </div>
                   {movie.last_watched_at && (
                     <p className="text-gray-500 text-xs mt-1">
                       Last watched: {formatDate(movie.last_watched_at)}
                     </p>
                   )}
+                  <button
+                    onClick={(e) => handleResume(movie, e)}
+                    className="mt-3 bg-white/10 hover:bg-white/20 text-white text-sm font-medium px-4 py-1.5 rounded flex items-center transition-colors"
+                  >
+                    <Play className="w-4 h-4 mr-1 fill-current" />
+                    {movie.is_completed ? 'Watch Again' : 'Resume'}
+                  </button>
                 </div>
               </div>
             ))}
@@ -1,41 +1,111 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Heart, Trash2, Search, Filter, Folder, Plus, MoreVertical, Move } from 'lucide-react';
+import { ArrowLeft, Heart, Trash2, Search, Filter, Folder, Plus, MoreVertical, Move, CloudOff, GripVertical, ArrowUpDown } from 'lucide-react';
 import { useWatchlist } from '../hooks/useWatchlist';
 import { useWatchlistCategories } from '../hooks/useWatchlistCategories';
-import { MovieWithProgress } from '../types/database';
+import { MovieWithProgress, WatchlistMovie, UserWatchlistCategory } from '../types/database';
+import { formatViewCount, formatEpisodeCount, formatPendingSync, formatTimeLeft } from '../utils/formatting';
+import { neighboursAfterMove } from '../utils/fractionalIndex';
 import CategoryModal from './CategoryModal';
 
 interface WatchlistPageProps {
   user: any;
+  categoryId?: string;
+  onCategoryChange?: (categoryId: string | null) => void;
   onBack: () => void;
   onMovieClick: (movie: MovieWithProgress) => void;
 }
 
-const WatchlistPage: React.FC<WatchlistPageProps> = ({ user, onBack, onMovieClick }) => {
-  const { watchlist, loading, error, removeFromWatchlist, moveToCategory } = useWatchlist(user?.id || null);
+const UNCATEGORIZED = 'uncategorized';
+
+type SortOrder = 'manual' | 'added' | 'title' | 'release' | 'remaining';
+
+const SORT_OPTIONS: { value: SortOrder; label: string }[] = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'added', label: 'Date added' },
+  { value: 'title', label: 'Title' },
+  { value: 'release', label: 'Release date' },
+  { value: 'remaining', label: 'Remaining time' }
+];
+
+// Time left in the saved title, or null when its length isn't known
+const getRemainingSeconds = (movie: WatchlistMovie) => {
+  const duration = movie.duration_seconds || movie.total_duration_seconds;
+  if (!duration) return null;
+  return Math.max(duration - (movie.progress_seconds || 0), 0);
+};
+
+const SORTERS: Record<Exclude<SortOrder, 'manual'>, (a: WatchlistMovie, b: WatchlistMovie) => number> = {
+  added: (a, b) => b.added_at.localeCompare(a.added_at),
+  title: (a, b) => a.title.localeCompare(b.title),
+  // Titles are released when they are published, so newest first
+  release: (a, b) => b.created_at.localeCompare(a.created_at),
+  // Quickest to finish first; titles of unknown length last
+  remaining: (a, b) => {
+    const remainingA = getRemainingSeconds(a);
+    const remainingB = getRemainingSeconds(b);
+    if (remainingA === remainingB) return 0;
+    if (remainingA === null) return 1;
+    if (remainingB === null) return -1;
+    return remainingA - remainingB;
+  }
+};
+
+type DragItem = { type: 'movie'; id: number } | { type: 'category'; id: string };
+
+// Arrow keys move one place. The grid reads left to right, so up is earlier.
+const getReorderStep = (key: string) => {
+  if (key === 'ArrowLeft' || key === 'ArrowUp') return -1;
+  if (key === 'ArrowRight' || key === 'ArrowDown') return 1;
+  return 0;
+};
+
+// Reordering can move the focused control in the DOM, which drops focus
+const refocus = (selector: string) => {
+  requestAnimationFrame(() => document.querySelector<HTMLElement>(selector)?.focus());
+};
+
+const WatchlistPage: React.FC<WatchlistPageProps> = ({ user, categoryId, onCategoryChange, onBack, onMovieClick }) => {
+  const {
+    watchlist,
+    loading,
+    error,
+    removeFromWatchlist,
+    moveToCategory,
+    reorderWatchlistItem,
+    pendingSyncCount
+  } = useWatchlist(user?.id || null);
   const { 
     categories, 
     loading: categoriesLoading, 
     createCategory, 
     updateCategory, 
+    reorderCategory,
     deleteCategory 
   } = useWatchlistCategories(user?.id || null);
   
   const [searchQuery, setSearchQuery] = useState('');
-  const [categoryFilter, setCategoryFilter] = useState('All');
+  // The selected category lives in the URL (/watchlist/:categoryId)
+  const categoryFilter = categoryId || 'All';
+  const setCategoryFilter = (value: string) => onCategoryChange?.(value === 'All' ? null : value);
   const [genreFilter, setGenreFilter] = useState('All');
   const [showCategoryModal, setShowCategoryModal] = useState(false);
   const [showMoveMenu, setShowMoveMenu] = useState<number | null>(null);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('manual');
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // Read out by screen readers after a keyboard reorder
+  const [announcement, setAnnouncement] = useState('');
 
   // Get unique genres from watchlist
   const availableGenres = ['All', ...new Set(watchlist.map(movie => movie.genre))];
 
   // Get category options for filtering
   const categoryOptions = [
-    'All',
-    'Uncategorized',
-    ...categories.map(cat => cat.name)
+    { value: 'All', label: 'All' },
+    { value: UNCATEGORIZED, label: 'Uncategorized' },
+    ...categories.map(cat => ({ value: cat.id, label: cat.name }))
   ];
+  const categoryFilterLabel = categoryOptions.find(option => option.value === categoryFilter)?.label || 'All';
 
   // Filter watchlist based on search and genre
   const filteredWatchlist = watchlist.filter(movie => {
@@ -44,15 +114,97 @@ const WatchlistPage: React.FC<WatchlistPageProps> = ({ user, onBack, onMovieClic
     const matchesGenre = genreFilter === 'All' || movie.genre === genreFilter;
     
     let matchesCategory = true;
-    if (categoryFilter === 'Uncategorized') {
+    if (categoryFilter === UNCATEGORIZED) {
       matchesCategory = !movie.category_id;
     } else if (categoryFilter !== 'All') {
-      matchesCategory = movie.category?.name === categoryFilter;
+      matchesCategory = movie.category_id === categoryFilter;
     }
     
     return matchesSearch && matchesGenre && matchesCategory;
   });
 
+  // The hook keeps the watchlist in manual order
+  const sortedWatchlist = sortOrder === 'manual' ? filteredWatchlist : [...filteredWatchlist].sort(SORTERS[sortOrder]);
+  const canReorderMovies = sortOrder === 'manual';
+
+  const startDrag = (e: React.DragEvent, item: DragItem) => {
+    e.dataTransfer.effectAllowed = 'move';
+    // Firefox won't start a drag without data
+    e.dataTransfer.setData('text/plain', String(item.id));
+    setShowMoveMenu(null);
+    setDragItem(item);
+  };
+
+  const endDrag = () => {
+    setDragItem(null);
+    setDropTarget(null);
+  };
+
+  const reorderMovie = (movie: WatchlistMovie, toIndex: number) => {
+    const fromIndex = sortedWatchlist.findIndex(item => item.id === movie.id);
+    if (fromIndex === -1 || toIndex === fromIndex || toIndex < 0 || toIndex >= sortedWatchlist.length) return;
+
+    const { previous, next } = neighboursAfterMove(sortedWatchlist, fromIndex, toIndex);
+    reorderWatchlistItem(movie.id, previous?.id ?? null, next?.id ?? null);
+    setAnnouncement(`${movie.title} moved to position ${toIndex + 1} of ${sortedWatchlist.length}.`);
+  };
+
+  const reorderCategoryTo = (category: UserWatchlistCategory, toIndex: number) => {
+    const fromIndex = categories.findIndex(item => item.id === category.id);
+    if (fromIndex === -1 || toIndex === fromIndex || toIndex < 0 || toIndex >= categories.length) return;
+
+    const { previous, next } = neighboursAfterMove(categories, fromIndex, toIndex);
+    reorderCategory(category.id, previous?.id ?? null, next?.id ?? null);
+    setAnnouncement(`${category.name} moved to position ${toIndex + 1} of ${categories.length}.`);
+  };
+
+  const handleMovieDrop = (e: React.DragEvent, target: WatchlistMovie, targetIndex: number) => {
+    e.preventDefault();
+    const dragged = dragItem?.type === 'movie' ? sortedWatchlist.find(movie => movie.id === dragItem.id) : undefined;
+    endDrag();
+    if (dragged && dragged.id !== target.id) reorderMovie(dragged, targetIndex);
+  };
+
+  // Dropping a title on a category chip moves it there; dropping a category reorders
+  const handleChipDrop = (e: React.DragEvent, value: string) => {
+    e.preventDefault();
+    const item = dragItem;
+    endDrag();
+    if (!item) return;
+
+    if (item.type === 'movie') {
+      moveToCategory(item.id, value === UNCATEGORIZED ? null : value);
+      return;
+    }
+    const dragged = categories.find(category => category.id === item.id);
+    const targetIndex = categories.findIndex(category => category.id === value);
+    if (dragged && targetIndex !== -1) reorderCategoryTo(dragged, targetIndex);
+  };
+
+  const chipAcceptsDrop = (value: string) => {
+    if (!dragItem || value === 'All') return false;
+    if (dragItem.type === 'movie') return true;
+    return value !== UNCATEGORIZED && value !== dragItem.id;
+  };
+
+  const handleMovieKeyDown = (e: React.KeyboardEvent, movie: WatchlistMovie, index: number) => {
+    const step = getReorderStep(e.key);
+    if (!step) return;
+    e.preventDefault();
+    e.stopPropagation();
+    reorderMovie(movie, index + step);
+    refocus(`[data-reorder-movie="${movie.id}"]`);
+  };
+
+  // Chips are filter buttons, so reordering them needs Alt
+  const handleCategoryKeyDown = (e: React.KeyboardEvent, category: UserWatchlistCategory, index: number) => {
+    const step = e.altKey ? getReorderStep(e.key) : 0;
+    if (!step) return;
+    e.preventDefault();
+    reorderCategoryTo(category, index + step);
+    refocus(`[data-reorder-category="${category.id}"]`);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -75,7 +227,7 @@ const WatchlistPage: React.FC<WatchlistPageProps> = ({ user, onBack, onMovieClic
     await moveToCategory(movieId, categoryId);
   };
 
-  const getCategoryColor = (categoryId?: string) => {
+  const getCategoryColor = (categoryId?: string | null) => {
     if (!categoryId) return '#6B7280'; // Gray for uncategorized
     const category = categories.find(cat => cat.id === categoryId);
     return category?.color || '#6B7280';
@@ -171,6 +323,12 @@ const WatchlistPage: React.FC<WatchlistPageProps> = ({ user, onBack, onMovieClic
               <p className="text-gray-400 mt-1">
                 {watchlist.length} {watchlist.length === 1 ? 'movie' : 'movies'} saved
               </p>
+              {pendingSyncCount > 0 && (
+                <p className="text-yellow-400 text-sm mt-1 flex items-center">
+                  <CloudOff className="w-4 h-4 mr-1" />
+                  {formatPendingSync(pendingSyncCount)}
+                </p>
+              )}
             </div>
           </div>
           
@@ -206,22 +364,6 @@ const WatchlistPage: React.FC<WatchlistPageProps> = ({ user, onBack, onMovieClic
                 <span className="text-gray-400 text-sm">Filters:</span>
               </div>
               
-              {/* Category Filter */}
-              <div className="flex items-center space-x-2">
-                <Folder className="w-4 h-4 text-gray-400" />
-                <select
-                  value={categoryFilter}
-                  onChange={(e) => setCategoryFilter(e.target.value)}
-                  className="bg-gray-800 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 hover:border-gray-500 transition-colors"
-                >
-                  {categoryOptions.map((category) => (
-                    <option key={category} value={category} className="bg-gray-800">
-                      {category}
-                    </option>
-                  ))}
-                </select>
-              </div>
-
               {/* Genre Filter */}
               <select
                 value={genreFilter}
@@ -234,17 +376,83 @@ const WatchlistPage: React.FC<WatchlistPageProps> = ({ user, onBack, onMovieClic
                   </option>
                 ))}
               </select>
+
+              {/* Sort */}
+              <div className="flex items-center space-x-2">
+                <ArrowUpDown className="w-4 h-4 text-gray-400" />
+                <select
+                  value={sortOrder}
+                  onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                  aria-label="Sort watchlist"
+                  className="bg-gray-800 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 hover:border-gray-500 transition-colors"
+                >
+                  {SORT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value} className="bg-gray-800">
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Category Filter: drop a title on a chip to move it there, drag chips to reorder them */}
+            <div className="flex flex-wrap items-center gap-2">
+              <Folder className="w-4 h-4 text-gray-400" />
+              {categoryOptions.map((option) => {
+                const categoryIndex = categories.findIndex(cat => cat.id === option.value);
+                const category = categories[categoryIndex] as UserWatchlistCategory | undefined;
+                const isSelected = categoryFilter === option.value;
+
+                return (
+                  <button
+                    key={option.value}
+                    onClick={() => setCategoryFilter(option.value)}
+                    draggable={Boolean(category)}
+                    onDragStart={category ? (e) => startDrag(e, { type: 'category', id: category.id }) : undefined}
+                    onDragEnd={endDrag}
+                    onDragOver={(e) => {
+                      if (!chipAcceptsDrop(option.value)) return;
+                      e.preventDefault();
+                      setDropTarget(`category:${option.value}`);
+                    }}
+                    onDragLeave={() => setDropTarget(current => (current === `category:${option.value}` ? null : current))}
+                    onDrop={(e) => handleChipDrop(e, option.value)}
+                    onKeyDown={category ? (e) => handleCategoryKeyDown(e, category, categoryIndex) : undefined}
+                    data-reorder-category={category?.id}
+                    aria-pressed={isSelected}
+                    aria-keyshortcuts={category ? 'Alt+ArrowLeft Alt+ArrowRight' : undefined}
+                    title={category ? 'Drag or press Alt+Left/Right to reorder' : undefined}
+                    className={`flex items-center px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                      isSelected
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-gray-800 border-gray-600 text-gray-300 hover:border-gray-500'
+                    } ${dropTarget === `category:${option.value}` ? 'ring-2 ring-blue-400' : ''} ${
+                      dragItem?.type === 'category' && dragItem.id === category?.id ? 'opacity-50' : ''
+                    }`}
+                  >
+                    {option.value !== 'All' && (
+                      <span
+                        className="w-2.5 h-2.5 rounded-full mr-2"
+                        style={{ backgroundColor: getCategoryColor(category?.id) }}
+                      />
+                    )}
+                    {option.label}
+                  </button>
+                );
+              })}
             </div>
           </div>
         )}
 
+        <p className="sr-only" aria-live="polite">{announcement}</p>
+
         {/* Results Info */}
         {watchlist.length > 0 && searchQuery && (
           <div className="mb-6">
             <p className="text-gray-400 text-sm">
               {filteredWatchlist.length} {filteredWatchlist.length === 1 ? 'result' : 'results'} 
               {searchQuery && ` for "${searchQuery}"`}
-              {categoryFilter !== 'All' && ` in ${categoryFilter}`}
+              {categoryFilter !== 'All' && ` in ${categoryFilterLabel}`}
               {genreFilter !== 'All' && ` in ${genreFilter}`}
             </p>
           </div>
@@ -293,11 +501,23 @@ const WatchlistPage: React.FC<WatchlistPageProps> = ({ user, onBack, onMovieClic
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {filteredWatchlist.map((movie) => (
+            {sortedWatchlist.map((movie, index) => (
               <div
                 key={movie.id}
-                className="group cursor-pointer relative"
+                className={`group cursor-pointer relative ${dragItem?.type === 'movie' && dragItem.id === movie.id ? 'opacity-50' : ''} ${
+                  dropTarget === `movie:${movie.id}` ? 'ring-2 ring-blue-400 rounded-lg' : ''
+                }`}
                 onClick={() => onMovieClick(movie)}
+                draggable
+                onDragStart={(e) => startDrag(e, { type: 'movie', id: movie.id })}
+                onDragEnd={endDrag}
+                onDragOver={(e) => {
+                  if (!canReorderMovies || dragItem?.type !== 'movie' || dragItem.id === movie.id) return;
+                  e.preventDefault();
+                  setDropTarget(`movie:${movie.id}`);
+                }}
+                onDragLeave={() => setDropTarget(current => (current === `movie:${movie.id}` ? null : current))}
+                onDrop={(e) => handleMovieDrop(e, movie, index)}
               >
                 <div className="relative aspect-[9/16] rounded-lg overflow-hidden shadow-lg hover:shadow-xl transition-all duration-300 group-hover:scale-105">
                   <img
@@ -326,7 +546,19 @@ const WatchlistPage: React.FC<WatchlistPageProps> = ({ user, onBack, onMovieClic
                   )}
 
                   {/* Action Menu */}
-                  <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-all duration-300">
+                  <div className="absolute top-2 right-2 flex items-start space-x-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-all duration-300">
+                    {canReorderMovies && (
+                      <button
+                        onClick={(e) => e.stopPropagation()}
+                        onKeyDown={(e) => handleMovieKeyDown(e, movie, index)}
+                        data-reorder-movie={movie.id}
+                        aria-label={`Reorder ${movie.title}, position ${index + 1} of ${sortedWatchlist.length}. Use the arrow keys to move it.`}
+                        title="Drag or use the arrow keys to reorder"
+                        className="bg-black/70 hover:bg-gray-600 text-white p-2 rounded-full cursor-grab"
+                      >
+                        <GripVertical className="w-4 h-4" />
+                      </button>
+                    )}
                     <div className="relative">
                       <button
                         onClick={(e) => {
@@ -387,7 +619,7 @@ const WatchlistPage: React.FC<WatchlistPageProps> = ({ user, onBack, onMovieClic
                   <div className="absolute bottom-4 left-4 right-4">
                     <div className="flex items-center text-white text-sm">
                       <Heart className="w-3 h-3 mr-1 fill-current" />
-                      {movie.view_count}
+                      {formatViewCount(movie.view_count)}
                     </div>
                   </div>
                 </div>
@@ -398,11 +630,16 @@ const WatchlistPage: React.FC<WatchlistPageProps> = ({ user, onBack, onMovieClic
                   </h3>
                   <p className="text-gray-400 text-xs mt-1">{movie.genre}</p>
                   {movie.episodes && (
-                    <p className="text-gray-500 text-xs">{movie.episodes} episodes</p>
+                    <p className="text-gray-500 text-xs">{formatEpisodeCount(movie.episodes)}</p>
+                  )}
+                  {sortOrder === 'remaining' && getRemainingSeconds(movie) !== null && (
+                    <p className="text-gray-500 text-xs">{formatTimeLeft(getRemainingSeconds(movie) ?? 0)}</p>
                   )}
                   <div className="flex items-center justify-between mt-1">
                     <p className="text-gray-500 text-xs">
-                      Added: {formatDate(movie.created_at)}
+                      {sortOrder === 'release'
+                        ? `Released: ${formatDate(movie.created_at)}`
+                        : `Added: ${formatDate(movie.added_at)}`}
                     </p>
                     {movie.category && (
                       <div className="flex items-center">
@@ -0,0 +1,205 @@
+import { useState, useEffect, useRef, RefObject } from 'react';
+
+export interface StreamRendition {
+  index: number;
+  width: number;
+  height: number;
+  bitrate: number;
+}
+
+export type StreamType = 'hls' | 'dash';
+
+// Rendition index that hands quality selection back to ABR
+export const AUTO_RENDITION = -1;
+
+interface StreamCallbacks {
+  onRenditions: (renditions: StreamRendition[]) => void;
+  onRenditionChange: (index: number) => void;
+  onFatalError: (error: Error) => void;
+}
+
+interface StreamEngine {
+  selectRendition: (index: number) => void;
+  destroy: () => void;
+}
+
+export const getStreamType = (manifestUrl?: string | null): StreamType | null => {
+  if (!manifestUrl) return null;
+  const path = manifestUrl.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith('.m3u8')) return 'hls';
+  if (path.endsWith('.mpd')) return 'dash';
+  return null;
+};
+
+export const formatRendition = (rendition: StreamRendition) =>
+  rendition.height ? `${rendition.height}p` : `${Math.round(rendition.bitrate / 1000)} kbps`;
+
+const attachHls = async (video: HTMLVideoElement, manifestUrl: string, callbacks: StreamCallbacks): Promise<StreamEngine> => {
+  const { default: Hls } = await import('hls.js');
+
+  if (!Hls.isSupported()) {
+    // Safari plays HLS natively and runs its own ABR, without exposing renditions
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = manifestUrl;
+      return {
+        selectRendition: () => {},
+        destroy: () => {
+          video.removeAttribute('src');
+          video.load();
+        }
+      };
+    }
+    throw new Error('HLS playback is not supported in this browser');
+  }
+
+  const hls = new Hls({ capLevelToPlayerSize: true });
+
+  hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+    callbacks.onRenditions(data.levels.map((level, index) => ({
+      index,
+      width: level.width,
+      height: level.height,
+      bitrate: level.bitrate
+    })));
+  });
+
+  hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+    callbacks.onRenditionChange(data.level);
+  });
+
+  hls.on(Hls.Events.ERROR, (_event, data) => {
+    if (!data.fatal) return;
+
+    if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+      hls.recoverMediaError();
+    } else {
+      callbacks.onFatalError(new Error(`HLS playback failed: ${data.details}`));
+    }
+  });
+
+  hls.loadSource(manifestUrl);
+  hls.attachMedia(video);
+
+  return {
+    // nextLevel switches at the next fragment boundary instead of flushing the buffer
+    selectRendition: (index) => {
+      hls.nextLevel = index;
+    },
+    destroy: () => hls.destroy()
+  };
+};
+
+const attachDash = async (video: HTMLVideoElement, manifestUrl: string, callbacks: StreamCallbacks): Promise<StreamEngine> => {
+  const { default: dashjs } = await import('dashjs');
+
+  const player = dashjs.MediaPlayer().create();
+  const setAutoSwitch = (enabled: boolean) => {
+    player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: enabled } } } });
+  };
+
+  player.on(dashjs.MediaPlayer.events.STREAM_INITIALIZED, () => {
+    callbacks.onRenditions(player.getBitrateInfoListFor('video').map(info => ({
+      index: info.qualityIndex,
+      width: info.width,
+      height: info.height,
+      bitrate: info.bitrate
+    })));
+  });
+
+  player.on(dashjs.MediaPlayer.events.QUALITY_CHANGE_RENDERED, (event) => {
+    if (event.mediaType === 'video') {
+      callbacks.onRenditionChange(event.newQuality);
+    }
+  });
+
+  player.on(dashjs.MediaPlayer.events.ERROR, (event) => {
+    callbacks.onFatalError(new Error(`DASH playback failed: ${JSON.stringify(event.error)}`));
+  });
+
+  setAutoSwitch(true);
+  player.initialize(video, manifestUrl, false);
+
+  return {
+    selectRendition: (index) => {
+      setAutoSwitch(index === AUTO_RENDITION);
+      if (index !== AUTO_RENDITION) {
+        player.setQualityFor('video', index, false);
+      }
+    },
+    destroy: () => player.reset()
+  };
+};
+
+// Plays an HLS or DASH manifest through MSE with bandwidth-driven ABR. When the
+// manifest can't be played, `failed` is set and the caller falls back to the
+// progressive URLs.
+export const useAdaptiveStream = (videoRef: RefObject<HTMLVideoElement>, manifestUrl?: string | null) => {
+  const [renditions, setRenditions] = useState<StreamRendition[]>([]);
+  const [selectedRendition, setSelectedRendition] = useState(AUTO_RENDITION);
+  const [activeRendition, setActiveRendition] = useState(AUTO_RENDITION);
+  const [failed, setFailed] = useState(false);
+  const engineRef = useRef<StreamEngine | null>(null);
+
+  const streamType = getStreamType(manifestUrl);
+  const isAdaptive = Boolean(streamType) && !failed;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    setRenditions([]);
+    setSelectedRendition(AUTO_RENDITION);
+    setActiveRendition(AUTO_RENDITION);
+    setFailed(false);
+
+    if (!video || !manifestUrl || !streamType) return;
+
+    let cancelled = false;
+    const callbacks: StreamCallbacks = {
+      onRenditions: (list) => !cancelled && setRenditions(list),
+      onRenditionChange: (index) => !cancelled && setActiveRendition(index),
+      onFatalError: (error) => {
+        console.error('Adaptive stream error:', error);
+        if (!cancelled) setFailed(true);
+      }
+    };
+
+    const attach = streamType === 'hls' ? attachHls : attachDash;
+    attach(video, manifestUrl, callbacks)
+      .then(engine => {
+        if (cancelled) {
+          engine.destroy();
+        } else {
+          engineRef.current = engine;
+        }
+      })
+      .catch(callbacks.onFatalError);
+
+    return () => {
+      cancelled = true;
+      engineRef.current?.destroy();
+      engineRef.current = null;
+    };
+  }, [manifestUrl]);
+
+  // Tear the engine down once it has failed so the progressive source can take over
+  useEffect(() => {
+    if (failed) {
+      engineRef.current?.destroy();
+      engineRef.current = null;
+    }
+  }, [failed]);
+
+  const selectRendition = (index: number) => {
+    setSelectedRendition(index);
+    engineRef.current?.selectRendition(index);
+  };
+
+  return {
+    isAdaptive,
+    streamType,
+    renditions,
+    selectedRendition,
+    activeRendition,
+    selectRendition,
+    failed
+  };
+};
@@ -0,0 +1,123 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { Movie, BrowseFilters, BrowseSort } from '../types/database';
+import { useError } from '../contexts/ErrorContext';
+import { withRetry, getErrorMessage, createErrorMessage } from '../utils/errorHandling';
+
+const PAGE_SIZE = 24;
+
+const BROWSE_COLUMNS = 'id, title, genre, view_count, poster_url, landscape_poster_url, badge, synopsis, episodes, duration_seconds, created_at, series_id, episode_number';
+
+interface BrowseCursor {
+  value: string | number;
+  id: number;
+}
+
+// Position of a row in the given sort, for asking the server for the rows after it
+const getCursor = (movie: Movie, sort: BrowseSort): BrowseCursor => {
+  switch (sort) {
+    case 'newest':
+    case 'oldest':
+      return { value: movie.created_at, id: movie.id };
+    case 'alphabetical':
+      return { value: movie.title, id: movie.id };
+    case 'episodes':
+      return { value: movie.episodes || 0, id: movie.id };
+    default:
+      return { value: movie.view_count, id: movie.id };
+  }
+};
+
+// Filtered, sorted catalog with keyset pagination. Filtering and sorting run in
+// the browse_movies RPC, so every page is consistent with the ones before it.
+export const useBrowseMovies = (filters: BrowseFilters, sort: BrowseSort) => {
+  const [movies, setMovies] = useState<Movie[]>([]);
+  const [cursor, setCursor] = useState<BrowseCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { addError } = useError();
+
+  // Only the latest filter combination may update state
+  const requestIdRef = useRef(0);
+  const filtersKey = JSON.stringify(filters);
+
+  const fetchMovies = async (after: BrowseCursor | null = null) => {
+    const requestId = ++requestIdRef.current;
+
+    if (after) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
+    setError(null);
+
+    try {
+      const { data, error } = await withRetry(async () => {
+        const result = await supabase
+          .rpc('browse_movies', {
+            p_filters: filters,
+            p_sort: sort,
+            p_after: after,
+            p_limit: PAGE_SIZE
+          })
+          .select(BROWSE_COLUMNS);
+
+        if (result.error) throw result.error;
+        return result;
+      });
+
+      if (error) throw error;
+      if (requestId !== requestIdRef.current) return;
+
+      const newMovies = (data as Movie[]) || [];
+      setMovies(prev => (after ? [...prev, ...newMovies] : newMovies));
+      setCursor(newMovies.length > 0 ? getCursor(newMovies[newMovies.length - 1], sort) : after);
+      setHasMore(newMovies.length === PAGE_SIZE);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+
+      console.error('Error browsing movies:', err);
+      const errorMessage = getErrorMessage(err);
+      setError(errorMessage);
+
+      addError(createErrorMessage(
+        'Failed to load movies. Please check your connection and try again.',
+        'error',
+        () => fetchMovies(after),
+        'Retry'
+      ));
+
+      if (!after) {
+        setMovies([]);
+        setHasMore(false);
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    setCursor(null);
+    fetchMovies(null);
+  }, [filtersKey, sort]);
+
+  const loadMore = () => {
+    if (loading || loadingMore || !hasMore) return;
+    fetchMovies(cursor);
+  };
+
+  return {
+    movies,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    loadMore,
+    retry: () => fetchMovies(null)
+  };
+};
@@ -0,0 +1,46 @@
+import { useEffect, useReducer, useRef } from 'react';
+import { fetchQuery, getQueryEntry, subscribeQuery, FetchQueryOptions } from '../lib/queryCache';
+
+// Reads one shared cache entry: cached data is returned straight away and
+// refreshed in the background once stale. A null key (signed out) reads as
+// no data.
+export const useCachedQuery = <T>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+  options: Pick<FetchQueryOptions, 'staleTime'> = {}
+) => {
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+
+  // The fetcher closes over the same user as the key, so the latest is always safe to use
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  useEffect(() => {
+    if (!key) return;
+
+    const unsubscribe = subscribeQuery(key, rerender);
+    // Failures are reported by the fetcher and kept on the entry
+    fetchQuery(key, () => fetcherRef.current(), options).catch(() => {});
+    return unsubscribe;
+  }, [key]);
+
+  const entry = key ? getQueryEntry<T>(key) : undefined;
+
+  const refetch = async () => {
+    if (!key) return;
+    try {
+      await fetchQuery(key, () => fetcherRef.current(), { force: true });
+    } catch {
+      // Reported by the fetcher
+    }
+  };
+
+  return {
+    data: entry?.data,
+    // Only the first load counts as loading; refreshes keep showing the cached data
+    loading: Boolean(key) && entry?.data === undefined && (!entry?.error || Boolean(entry?.promise)),
+    refreshing: Boolean(entry?.promise),
+    error: entry?.error ?? null,
+    refetch
+  };
+};
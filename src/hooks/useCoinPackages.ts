@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { CoinPackage, CoinPackageRow } from '../types/database';
+import { useError } from '../contexts/ErrorContext';
+import { withRetry, getErrorMessage, createErrorMessage } from '../utils/errorHandling';
+
+const toCoinPackage = (row: CoinPackageRow): CoinPackage => ({
+  id: row.id,
+  name: row.name,
+  coins: row.coins,
+  bonus: row.bonus,
+  // numeric columns come back from PostgREST as strings
+  price: Number(row.price),
+  currency: row.currency,
+  bonusPercentage: row.bonus > 0 ? Math.round((row.bonus / row.coins) * 100) : undefined,
+  isNewUserOffer: row.first_purchase_only,
+  isPopular: row.is_popular,
+  endsAt: row.ends_at
+});
+
+// Packages the signed-in user can buy right now. Active windows and
+// eligibility are decided by the server; checkout re-checks them.
+export const useCoinPackages = (userId: string | null, currency: string = 'USD') => {
+  const [packages, setPackages] = useState<CoinPackage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { addError } = useError();
+
+  const fetchPackages = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await withRetry(async () => {
+        const result = await supabase.rpc('get_coin_packages', { p_currency: currency });
+
+        if (result.error) throw result.error;
+        return result;
+      });
+
+      if (error) throw error;
+
+      setPackages(((data as CoinPackageRow[]) || []).map(toCoinPackage));
+    } catch (err) {
+      console.error('Error fetching coin packages:', err);
+      const errorMessage = getErrorMessage(err);
+      setError(errorMessage);
+
+      addError(createErrorMessage(
+        'Failed to load coin packages. Please try again.',
+        'error',
+        () => fetchPackages(),
+        'Retry'
+      ));
+
+      setPackages([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPackages();
+  }, [userId, currency]);
+
+  return {
+    packages,
+    loading,
+    error,
+    fetchPackages
+  };
+};
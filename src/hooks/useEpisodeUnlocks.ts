@@ -1,29 +1,25 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback } from 'react';
 import { supabase } from '../lib/supabase';
-import { UserEpisodeUnlock } from '../types/database';
+import { EpisodeUnlockResult, UserEpisodeUnlock } from '../types/database';
 import { useError } from '../contexts/ErrorContext';
 import { withRetry, getErrorMessage, createErrorMessage } from '../utils/errorHandling';
+import { queryKeys, getQueryEntry, setQueryData } from '../lib/queryCache';
+import { useCachedQuery } from './useCachedQuery';
+import { useRealtimeChanges } from './useRealtimeChanges';
+import { applyEpisodeUnlock, EpisodeUnlocksData } from './useUserCoins';
+
+const NO_UNLOCKS = new Set<number>();
 
 export const useEpisodeUnlocks = (userId: string | null) => {
-  const [unlockedEpisodes, setUnlockedEpisodes] = useState<Set<number>>(new Set());
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const { addError } = useError();
+  const cacheKey = userId ? queryKeys.unlocks(userId) : null;
 
-  const fetchUnlockedEpisodes = async () => {
-    if (!userId) {
-      setUnlockedEpisodes(new Set());
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
+  const loadUnlockedEpisodes = async () => {
     try {
       const { data, error } = await withRetry(async () => {
         const result = await supabase
           .from('user_episode_unlocks')
-          .select('movie_id')
+          .select('id, movie_id')
           .eq('user_id', userId);
         
         if (result.error) throw result.error;
@@ -32,12 +28,13 @@ export const useEpisodeUnlocks = (userId: string | null) => {
 
       if (error) throw error;
 
-      const unlockedIds = new Set(data?.map(unlock => unlock.movie_id) || []);
-      setUnlockedEpisodes(unlockedIds);
-    } catch (err: any) {
+      const unlocks = (data as Pick<UserEpisodeUnlock, 'id' | 'movie_id'>[]) || [];
+      return {
+        movieIds: new Set(unlocks.map(unlock => unlock.movie_id)),
+        movieIdsByRow: new Map(unlocks.map(unlock => [unlock.id, unlock.movie_id]))
+      };
+    } catch (err) {
       console.error('Error fetching unlocked episodes:', err);
-      const errorMessage = getErrorMessage(err);
-      setError(errorMessage);
       
       addError(createErrorMessage(
         'Failed to load your unlocked episodes. Please try again.',
@@ -45,39 +42,57 @@ export const useEpisodeUnlocks = (userId: string | null) => {
         () => fetchUnlockedEpisodes(),
         'Retry'
       ));
-      
-      setUnlockedEpisodes(new Set());
-    } finally {
-      setLoading(false);
+
+      throw err;
     }
   };
 
-  const unlockEpisode = async (movieId: number, unlockCost: number) => {
+  const { data, loading, error, refetch: fetchUnlockedEpisodes } = useCachedQuery(cacheKey, loadUnlockedEpisodes);
+  const unlockedEpisodes = data?.movieIds || NO_UNLOCKS;
+
+  // Episodes unlocked on another device open up here without a reload.
+  // Deletes skip the user filter and carry only the row id, so they arrive
+  // for everyone's unlocks; only rows this viewer is known to have count.
+  useRealtimeChanges<UserEpisodeUnlock>(
+    userId ? `unlocks:${userId}` : null,
+    { table: 'user_episode_unlocks', filter: `user_id=eq.${userId}` },
+    payload => {
+      if (!cacheKey) return;
+      if (payload.eventType === 'DELETE') {
+        const rowId = payload.old.id;
+        const current = getQueryEntry<EpisodeUnlocksData>(cacheKey)?.data;
+        const movieId = rowId ? current?.movieIdsByRow.get(rowId) : undefined;
+        if (!current || !rowId || movieId === undefined) return;
+
+        const movieIdsByRow = new Map(current.movieIdsByRow);
+        movieIdsByRow.delete(rowId);
+        const movieIds = new Set(current.movieIds);
+        // Another row may still unlock the same episode
+        if (![...movieIdsByRow.values()].includes(movieId)) movieIds.delete(movieId);
+        setQueryData<EpisodeUnlocksData>(cacheKey, { movieIds, movieIdsByRow });
+      } else {
+        const { id: rowId, movie_id: movieId } = payload.new;
+        setQueryData<EpisodeUnlocksData>(cacheKey, previous => ({
+          movieIds: new Set([...(previous?.movieIds || []), movieId]),
+          movieIdsByRow: new Map([...(previous?.movieIdsByRow || []), [rowId, movieId]])
+        }));
+      }
+    }
+  );
+
+  const unlockEpisode = async (movieId: number): Promise<EpisodeUnlockResult | null> => {
     if (!userId) {
       addError(createErrorMessage(
         'Please sign in to unlock episodes.',
         'warning'
       ));
-      return false;
+      return null;
     }
 
     try {
-      // Check if episode is already unlocked
-      if (unlockedEpisodes.has(movieId)) {
-        addError(createErrorMessage(
-          'This episode is already unlocked!',
-          'info'
-        ));
-        return true;
-      }
-
-      const { error } = await withRetry(async () => {
-        const result = await supabase
-          .from('user_episode_unlocks')
-          .insert({
-            user_id: userId,
-            movie_id: movieId
-          });
+      // Coins are debited and the unlock recorded in a single server-side transaction
+      const { data, error } = await withRetry(async () => {
+        const result = await supabase.rpc('unlock_episode', { p_movie_id: movieId });
         
         if (result.error) throw result.error;
         return result;
@@ -85,38 +100,45 @@ export const useEpisodeUnlocks = (userId: string | null) => {
 
       if (error) throw error;
 
-      // Update local state
-      setUnlockedEpisodes(prev => new Set([...prev, movieId]));
+      const unlock = data as EpisodeUnlockResult;
+
+      // Updates the balance too, for every screen showing it
+      applyEpisodeUnlock(userId, movieId, unlock);
       
-      addError(createErrorMessage(
-        `Episode unlocked successfully! ${unlockCost} coins deducted.`,
-        'success'
-      ));
+      if (unlock.already_unlocked) {
+        addError(createErrorMessage(
+          'This episode is already unlocked!',
+          'info'
+        ));
+      } else {
+        addError(createErrorMessage(
+          `Episode unlocked successfully! ${unlock.coins_spent + unlock.bonus_spent} coins deducted.`,
+          'success'
+        ));
+      }
       
-      return true;
+      return unlock;
     } catch (err: any) {
       console.error('Error unlocking episode:', err);
       const errorMessage = getErrorMessage(err);
       
       // Handle specific error cases
-      if (errorMessage.includes('duplicate') || errorMessage.includes('unique')) {
-        // Episode was already unlocked (race condition)
-        setUnlockedEpisodes(prev => new Set([...prev, movieId]));
+      if (errorMessage.includes('Insufficient coins')) {
         addError(createErrorMessage(
-          'Episode is already unlocked!',
-          'info'
+          'Insufficient coins. Please purchase more coins to continue.',
+          'warning'
         ));
-        return true;
+        return null;
       }
       
       addError(createErrorMessage(
         'Failed to unlock episode. Please try again.',
         'error',
-        () => unlockEpisode(movieId, unlockCost),
+        () => unlockEpisode(movieId),
         'Retry'
       ));
       
-      return false;
+      return null;
     }
   };
 
@@ -142,10 +164,6 @@ export const useEpisodeUnlocks = (userId: string | null) => {
     return unlockedEpisodes.size;
   };
 
-  useEffect(() => {
-    fetchUnlockedEpisodes();
-  }, [userId]);
-
   return {
     unlockedEpisodes,
     loading,
@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { HomeRail } from '../types/database';
+import { useError } from '../contexts/ErrorContext';
+import { withRetry, getErrorMessage, createErrorMessage } from '../utils/errorHandling';
+
+// Active home page rails for a locale, in display order
+export const useHomeRails = (locale: string) => {
+  const [rails, setRails] = useState<HomeRail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { addError } = useError();
+
+  const fetchRails = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await withRetry(async () => {
+        const result = await supabase
+          .from('home_rails')
+          .select('*')
+          .eq('is_active', true)
+          .or(`locales.is.null,locales.cs.{${locale}}`)
+          .order('sort_order', { ascending: true });
+
+        if (result.error) throw result.error;
+        return result;
+      });
+
+      if (error) throw error;
+
+      setRails(data || []);
+    } catch (err) {
+      console.error('Error fetching home rails:', err);
+      const errorMessage = getErrorMessage(err);
+      setError(errorMessage);
+
+      addError(createErrorMessage(
+        'Failed to load the home page. Please try again.',
+        'error',
+        () => fetchRails(),
+        'Retry'
+      ));
+
+      setRails([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRails();
+  }, [locale]);
+
+  return {
+    rails,
+    loading,
+    error,
+    fetchRails
+  };
+};
@@ -3,6 +3,11 @@ import { supabase } from '../lib/supabase';
 import { MovieComment } from '../types/database';
 import { useError } from '../contexts/ErrorContext';
 import { withRetry, getErrorMessage, createErrorMessage } from '../utils/errorHandling';
+import { sendOrQueue } from '../lib/outbox';
+import { usePendingSync } from './usePendingSync';
+import { useRealtimeChanges } from './useRealtimeChanges';
+
+const QUEUED_MESSAGE = "You're offline. This change will sync when you're back online.";
 
 export const useMovieComments = (movieId: number | null) => {
   const [comments, setComments] = useState<MovieComment[]>([]);
@@ -11,6 +16,48 @@ export const useMovieComments = (movieId: number | null) => {
   const [submitting, setSubmitting] = useState(false);
   const { addError } = useError();
 
+  // Comments from everyone else watching this title appear as they are posted
+  useRealtimeChanges<MovieComment>(
+    movieId ? `comments:${movieId}` : null,
+    { table: 'movie_comments', filter: `movie_id=eq.${movieId}` },
+    payload => {
+      if (payload.eventType === 'INSERT') {
+        const comment = payload.new;
+        setComments(prev => (prev.some(existing => existing.id === comment.id) ? prev : [comment, ...prev]));
+      } else if (payload.eventType === 'UPDATE') {
+        const comment = payload.new;
+        setComments(prev => prev.map(existing => (existing.id === comment.id ? comment : existing)));
+      } else {
+        const commentId = payload.old.id;
+        setComments(prev => prev.filter(existing => existing.id !== commentId));
+      }
+    }
+  );
+
+  // Comments posted while offline show up straight away, marked as pending
+  const pendingSync = usePendingSync(
+    entry => (entry.kind === 'comment_add' || entry.kind === 'comment_delete') && entry.movieId === movieId,
+    () => fetchComments()
+  );
+  const pendingComments: MovieComment[] = pendingSync.flatMap(entry =>
+    entry.kind === 'comment_add'
+      ? [{
+          id: entry.commentId,
+          movie_id: entry.movieId,
+          user_id: entry.userId,
+          comment_text: entry.commentText,
+          created_at: entry.createdAt
+        }]
+      : []
+  );
+  const pendingDeletes = new Set(pendingSync.flatMap(entry => (entry.kind === 'comment_delete' ? [entry.commentId] : [])));
+  const pendingCommentIds = new Set(pendingComments.map(comment => comment.id));
+  // A replayed comment can arrive live a moment before it leaves the queue
+  const visibleComments = [
+    ...pendingComments.reverse(),
+    ...comments.filter(comment => !pendingDeletes.has(comment.id) && !pendingCommentIds.has(comment.id))
+  ];
+
   const fetchComments = async () => {
     if (!movieId) {
       setComments([]);
@@ -60,20 +107,20 @@ export const useMovieComments = (movieId: number | null) => {
     setError(null);
 
     try {
-      const { error } = await withRetry(async () => {
-        const result = await supabase
-          .from('movie_comments')
-          .insert({
-            movie_id: movieId,
-            user_id: userId,
-            comment_text: commentText.trim()
-          });
-        
-        if (result.error) throw result.error;
-        return result;
+      // The id is made here so a replayed comment is never posted twice
+      const outcome = await sendOrQueue({
+        kind: 'comment_add',
+        userId,
+        movieId,
+        commentId: crypto.randomUUID(),
+        commentText: commentText.trim(),
+        createdAt: new Date().toISOString()
       });
 
-      if (error) throw error;
+      if (outcome === 'queued') {
+        addError(createErrorMessage(QUEUED_MESSAGE, 'info'));
+        return true;
+      }
 
       // Refresh comments after successful submission
       await fetchComments();
@@ -103,21 +150,15 @@ export const useMovieComments = (movieId: number | null) => {
   };
 
   const deleteComment = async (commentId: string, userId: string) => {
-    if (!commentId || !userId) return false;
+    if (!commentId || !userId || !movieId) return false;
 
     try {
-      const { error } = await withRetry(async () => {
-        const result = await supabase
-          .from('movie_comments')
-          .delete()
-          .eq('id', commentId)
-          .eq('user_id', userId); // Ensure user can only delete their own comments
-        
-        if (result.error) throw result.error;
-        return result;
-      });
+      const outcome = await sendOrQueue({ kind: 'comment_delete', userId, movieId, commentId });
 
-      if (error) throw error;
+      if (outcome === 'queued') {
+        addError(createErrorMessage(QUEUED_MESSAGE, 'info'));
+        return true;
+      }
 
       // Refresh comments after successful deletion
       await fetchComments();
@@ -149,7 +190,9 @@ export const useMovieComments = (movieId: number | null) => {
   }, [movieId]);
 
   return {
-    comments,
+    comments: visibleComments,
+    isCommentPending: (commentId: string) => pendingCommentIds.has(commentId),
+    pendingSyncCount: pendingSync.length,
     loading,
     error,
     submitting,
@@ -0,0 +1,137 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { MovieSearchResult, MovieSearchFilters } from '../types/database';
+import { useError } from '../contexts/ErrorContext';
+import { withRetry, getErrorMessage, createErrorMessage } from '../utils/errorHandling';
+
+const SEARCH_PAGE_SIZE = 24;
+const SEARCH_DEBOUNCE_MS = 400;
+
+// Ranked full-text search over titles, genres and synopses. Matching, typo
+// tolerance and ranking all happen in the search_movies RPC.
+export const useMovieSearch = (query: string, filters: MovieSearchFilters = {}) => {
+  const [results, setResults] = useState<MovieSearchResult[]>([]);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { addError } = useError();
+
+  // Only the latest request may update state; slower, older ones are dropped
+  const requestIdRef = useRef(0);
+  const filtersKey = JSON.stringify(filters);
+
+  const fetchSuggestions = async (searchQuery: string, requestId: number) => {
+    try {
+      const { data, error } = await supabase.rpc('search_suggestions', { p_query: searchQuery });
+      if (error) throw error;
+
+      if (requestId === requestIdRef.current) {
+        setSuggestions((data as { suggestion: string }[] || []).map(row => row.suggestion));
+      }
+    } catch (err) {
+      // Suggestions are a nicety; an empty result list is still accurate
+      console.error('Error fetching search suggestions:', err);
+    }
+  };
+
+  const search = async (pageNum: number = 1) => {
+    const searchQuery = query.trim();
+    const requestId = ++requestIdRef.current;
+
+    if (searchQuery === '') {
+      setResults([]);
+      setSuggestions([]);
+      setTotalCount(0);
+      setLoading(false);
+      setLoadingMore(false);
+      setError(null);
+      return;
+    }
+
+    if (pageNum === 1) {
+      setLoading(true);
+    } else {
+      setLoadingMore(true);
+    }
+    setError(null);
+
+    try {
+      const { data, error } = await withRetry(async () => {
+        const result = await supabase.rpc('search_movies', {
+          p_query: searchQuery,
+          p_filters: filters,
+          p_page: pageNum,
+          p_page_size: SEARCH_PAGE_SIZE
+        });
+
+        if (result.error) throw result.error;
+        return result;
+      });
+
+      if (error) throw error;
+      if (requestId !== requestIdRef.current) return;
+
+      const rows = (data as MovieSearchResult[]) || [];
+      setResults(prev => (pageNum === 1 ? rows : [...prev, ...rows]));
+      setPage(pageNum);
+      if (pageNum === 1) {
+        setTotalCount(rows[0]?.total_count || 0);
+        setSuggestions([]);
+        if (rows.length === 0) {
+          fetchSuggestions(searchQuery, requestId);
+        }
+      }
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+
+      console.error('Error searching movies:', err);
+      const errorMessage = getErrorMessage(err);
+      setError(errorMessage);
+
+      addError(createErrorMessage(
+        'Search failed. Please try again.',
+        'error',
+        () => search(pageNum),
+        'Retry Search'
+      ));
+
+      if (pageNum === 1) {
+        setResults([]);
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  // Debounced search whenever the query or filters change
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      search(1);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [query, filtersKey]);
+
+  const loadMore = () => {
+    if (loading || loadingMore || results.length >= totalCount) return;
+    search(page + 1);
+  };
+
+  return {
+    results,
+    suggestions,
+    totalCount,
+    loading,
+    loadingMore,
+    error,
+    hasMore: results.length < totalCount,
+    loadMore,
+    retry: () => search(1)
+  };
+};
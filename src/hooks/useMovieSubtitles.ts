@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { MovieSubtitle } from '../types/database';
+import { withRetry } from '../utils/errorHandling';
+import { isSrtUrl, srtToVtt } from '../utils/subtitles';
+
+export interface PlayableSubtitle extends MovieSubtitle {
+  // URL the <track> element can load: the original VTT or a converted blob
+  src: string;
+}
+
+const toPlayable = async (subtitle: MovieSubtitle): Promise<PlayableSubtitle> => {
+  if (!isSrtUrl(subtitle.url)) {
+    return { ...subtitle, src: subtitle.url };
+  }
+
+  // Browsers only render WebVTT, so SRT files are converted here
+  const response = await fetch(subtitle.url);
+  if (!response.ok) throw new Error(`Failed to load subtitles: ${response.status}`);
+
+  const vtt = srtToVtt(await response.text());
+  return { ...subtitle, src: URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' })) };
+};
+
+export const useMovieSubtitles = (movieId: number) => {
+  const [subtitles, setSubtitles] = useState<PlayableSubtitle[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrls: string[] = [];
+
+    const fetchSubtitles = async () => {
+      setLoading(true);
+
+      try {
+        const { data, error } = await withRetry(async () => {
+          const result = await supabase
+            .from('movie_subtitles')
+            .select('*')
+            .eq('movie_id', movieId)
+            .order('label', { ascending: true });
+
+          if (result.error) throw result.error;
+          return result;
+        });
+
+        if (error) throw error;
+
+        // One bad file shouldn't take the other languages down with it
+        const results = await Promise.allSettled((data || []).map(toPlayable));
+        const playable = results.flatMap(result => {
+          if (result.status === 'fulfilled') return [result.value];
+          console.error('Error preparing subtitle track:', result.reason);
+          return [];
+        });
+
+        objectUrls = playable.filter(track => track.src !== track.url).map(track => track.src);
+        if (cancelled) {
+          objectUrls.forEach(url => URL.revokeObjectURL(url));
+          return;
+        }
+
+        setSubtitles(playable);
+      } catch (err) {
+        console.error('Error fetching subtitles:', err);
+        if (!cancelled) setSubtitles([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchSubtitles();
+
+    return () => {
+      cancelled = true;
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [movieId]);
+
+  return {
+    subtitles,
+    loading
+  };
+};
@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Tag } from '../types/database';
+import { withRetry } from '../utils/errorHandling';
+
+export const useMovieTags = (movieId: number) => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchMovieTags = async () => {
+      setLoading(true);
+
+      try {
+        const { data, error } = await withRetry(async () => {
+          const result = await supabase
+            .from('movie_tags')
+            .select('tag:tags(*)')
+            .eq('movie_id', movieId);
+
+          if (result.error) throw result.error;
+          return result;
+        });
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        const movieTags = ((data || []) as unknown as { tag: Tag | null }[])
+          .map(row => row.tag)
+          .filter((tag): tag is Tag => Boolean(tag))
+          .sort((a, b) => a.tag_type.localeCompare(b.tag_type) || a.sort_order - b.sort_order);
+
+        setTags(movieTags);
+      } catch (err) {
+        // Tags are secondary on the detail page, so a failure just hides them
+        console.error('Error fetching movie tags:', err);
+        if (!cancelled) setTags([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchMovieTags();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [movieId]);
+
+  return {
+    tags,
+    loading
+  };
+};
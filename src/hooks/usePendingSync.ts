@@ -0,0 +1,25 @@
+import { useState, useEffect, useRef } from 'react';
+import { OutboxEntry, getOutboxEntries, subscribeToOutbox } from '../lib/outbox';
+
+// Queued writes that match `matches`, for "waiting to sync" indicators.
+// `onSynced` runs when the last of them has been sent, so callers can pick
+// up the server's version.
+export const usePendingSync = (matches: (entry: OutboxEntry) => boolean, onSynced?: () => void) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>(getOutboxEntries);
+  const pending = entries.filter(matches);
+
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+  const pendingCountRef = useRef(pending.length);
+
+  useEffect(() => subscribeToOutbox(setEntries), []);
+
+  useEffect(() => {
+    if (pendingCountRef.current > 0 && pending.length === 0) {
+      onSyncedRef.current?.();
+    }
+    pendingCountRef.current = pending.length;
+  }, [pending.length]);
+
+  return pending;
+};
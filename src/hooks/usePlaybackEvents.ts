@@ -0,0 +1,92 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { PlaybackEventType } from '../types/database';
+
+const PLAYBACK_SESSION_KEY = 'onaireplay:playback-session';
+
+const QUARTILES: { fraction: number; event: PlaybackEventType }[] = [
+  { fraction: 0.25, event: 'quartile_25' },
+  { fraction: 0.5, event: 'quartile_50' },
+  { fraction: 0.75, event: 'quartile_75' },
+  { fraction: 1, event: 'quartile_100' }
+];
+
+// The last quartile counts as reached this close to the end
+const END_TOLERANCE_SECONDS = 1;
+
+// One id per browser session; the server keeps each event once per session
+const getPlaybackSessionId = (): string => {
+  try {
+    let sessionId = sessionStorage.getItem(PLAYBACK_SESSION_KEY);
+    if (!sessionId) {
+      sessionId = crypto.randomUUID();
+      sessionStorage.setItem(PLAYBACK_SESSION_KEY, sessionId);
+    }
+    return sessionId;
+  } catch {
+    return crypto.randomUUID();
+  }
+};
+
+// Reports start, quartiles and completion for a title. Fire-and-forget:
+// analytics failures are logged, never shown to the viewer.
+export const usePlaybackEvents = (movieId: number) => {
+  const sessionIdRef = useRef<string | null>(null);
+  const sentRef = useRef<Set<PlaybackEventType>>(new Set());
+
+  useEffect(() => {
+    sentRef.current = new Set();
+  }, [movieId]);
+
+  const recordEvent = async (eventType: PlaybackEventType, positionSeconds: number) => {
+    if (sentRef.current.has(eventType)) return;
+    sentRef.current.add(eventType);
+
+    if (!sessionIdRef.current) {
+      sessionIdRef.current = getPlaybackSessionId();
+    }
+
+    try {
+      const { error } = await supabase.rpc('record_playback_event', {
+        p_movie_id: movieId,
+        p_session_id: sessionIdRef.current,
+        p_event_type: eventType,
+        p_position_seconds: positionSeconds
+      });
+
+      if (error) throw error;
+    } catch (err) {
+      console.error('Error recording playback event:', err);
+    }
+  };
+
+  const recordStart = (positionSeconds: number) => {
+    recordEvent('start', positionSeconds);
+  };
+
+  // `creditsStart` counts as finishing the title when the movie has one
+  const recordProgress = (positionSeconds: number, durationSeconds: number, creditsStart: number | null) => {
+    if (!durationSeconds || !isFinite(durationSeconds)) return;
+
+    QUARTILES.forEach(({ fraction, event }) => {
+      const threshold = fraction === 1 ? durationSeconds - END_TOLERANCE_SECONDS : durationSeconds * fraction;
+      if (positionSeconds >= threshold) {
+        recordEvent(event, positionSeconds);
+      }
+    });
+
+    if (creditsStart !== null && positionSeconds >= creditsStart) {
+      recordEvent('complete', positionSeconds);
+    }
+  };
+
+  const recordComplete = (positionSeconds: number) => {
+    recordEvent('complete', positionSeconds);
+  };
+
+  return {
+    recordStart,
+    recordProgress,
+    recordComplete
+  };
+};
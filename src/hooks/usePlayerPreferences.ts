@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { SubtitleStyle } from '../types/database';
+import { useError } from '../contexts/ErrorContext';
+import { withRetry, createErrorMessage } from '../utils/errorHandling';
+import { DEFAULT_SUBTITLE_STYLE } from '../utils/subtitles';
+
+const SUBTITLE_STYLE_KEY = 'onaireplay:subtitle-style';
+
+// Local copy so captions look right before the saved row loads, and for signed-out viewers
+const readCachedStyle = (): SubtitleStyle => {
+  try {
+    return { ...DEFAULT_SUBTITLE_STYLE, ...JSON.parse(localStorage.getItem(SUBTITLE_STYLE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SUBTITLE_STYLE;
+  }
+};
+
+const cacheStyle = (style: SubtitleStyle) => {
+  try {
+    localStorage.setItem(SUBTITLE_STYLE_KEY, JSON.stringify(style));
+  } catch {
+    // Storage can be disabled; the saved row still applies once it loads
+  }
+};
+
+export const usePlayerPreferences = (userId: string | null) => {
+  const [subtitleStyle, setSubtitleStyle] = useState<SubtitleStyle>(readCachedStyle);
+  const { addError } = useError();
+
+  const fetchPreferences = async () => {
+    if (!userId) return;
+
+    try {
+      const { data, error } = await withRetry(async () => {
+        const result = await supabase
+          .from('user_player_preferences')
+          .select('subtitle_font_size, subtitle_color, subtitle_background_opacity, subtitle_edge_style, subtitle_position')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (result.error) throw result.error;
+        return result;
+      });
+
+      if (error) throw error;
+
+      if (data) {
+        const style = { ...data, subtitle_background_opacity: Number(data.subtitle_background_opacity) } as SubtitleStyle;
+        setSubtitleStyle(style);
+        cacheStyle(style);
+      }
+    } catch (err) {
+      // Captions fall back to the cached style
+      console.error('Error fetching player preferences:', err);
+    }
+  };
+
+  const updateSubtitleStyle = async (changes: Partial<SubtitleStyle>) => {
+    const style = { ...subtitleStyle, ...changes };
+    setSubtitleStyle(style);
+    cacheStyle(style);
+
+    if (!userId) return;
+
+    try {
+      const { error } = await withRetry(async () => {
+        const result = await supabase
+          .from('user_player_preferences')
+          .upsert({ user_id: userId, ...style }, { onConflict: 'user_id' });
+
+        if (result.error) throw result.error;
+        return result;
+      });
+
+      if (error) throw error;
+    } catch (err) {
+      console.error('Error saving player preferences:', err);
+      addError(createErrorMessage(
+        'Failed to save subtitle settings. They will only apply on this device.',
+        'warning',
+        () => updateSubtitleStyle(changes),
+        'Retry'
+      ));
+    }
+  };
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [userId]);
+
+  return {
+    subtitleStyle,
+    updateSubtitleStyle,
+    fetchPreferences
+  };
+};
@@ -0,0 +1,89 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { Movie } from '../types/database';
+import { withRetry, getErrorMessage } from '../utils/errorHandling';
+
+const RAIL_PAGE_SIZE = 12;
+
+const RAIL_COLUMNS = 'id, title, genre, view_count, poster_url, landscape_poster_url, badge, synopsis, episodes, duration_seconds, created_at, series_id, episode_number';
+
+// One home rail's titles, fetched a page at a time once `enabled` is set.
+// `userId` only triggers a refetch, since personalised rails read the session.
+export const useRailMovies = (railId: string, enabled: boolean, userId: string | null) => {
+  const [movies, setMovies] = useState<Movie[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only the latest request may update state
+  const requestIdRef = useRef(0);
+
+  const fetchPage = async (offset: number) => {
+    const requestId = ++requestIdRef.current;
+
+    if (offset > 0) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
+    setError(null);
+
+    try {
+      const { data, error } = await withRetry(async () => {
+        const result = await supabase
+          .rpc('home_rail_movies', {
+            p_rail_id: railId,
+            p_offset: offset,
+            p_limit: RAIL_PAGE_SIZE
+          })
+          .select(RAIL_COLUMNS);
+
+        if (result.error) throw result.error;
+        return result;
+      });
+
+      if (error) throw error;
+      if (requestId !== requestIdRef.current) return;
+
+      const newMovies = (data as Movie[]) || [];
+      setMovies(prev => (offset > 0 ? [...prev, ...newMovies] : newMovies));
+      setHasMore(newMovies.length === RAIL_PAGE_SIZE);
+      setLoaded(true);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+
+      // A rail that fails shows its own retry rather than a global error,
+      // since one rail shouldn't take over the whole home page
+      console.error('Error fetching rail movies:', err);
+      setError(getErrorMessage(err));
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetchPage(0);
+  }, [railId, enabled, userId]);
+
+  const loadMore = () => {
+    if (loading || loadingMore || !hasMore) return;
+    fetchPage(movies.length);
+  };
+
+  return {
+    movies,
+    loading,
+    loadingMore,
+    loaded,
+    hasMore,
+    error,
+    loadMore,
+    retry: () => fetchPage(movies.length)
+  };
+};
@@ -0,0 +1,20 @@
+import { useEffect, useRef } from 'react';
+import { subscribeToChanges, ChangePayload, TableChanges } from '../lib/realtime';
+
+// Listens to inserts, updates and deletes on a table while `name` is set.
+// A new name (another user or title) or null (signed out) drops the old channel.
+export const useRealtimeChanges = <T extends object>(
+  name: string | null,
+  changes: TableChanges,
+  onChange: (payload: ChangePayload<T>) => void
+) => {
+  // Read through a ref: the channel is only opened once per name
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!name) return;
+
+    return subscribeToChanges<T>(name, changes, payload => onChangeRef.current(payload));
+  }, [name]);
+};
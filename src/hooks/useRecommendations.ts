@@ -0,0 +1,104 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { Movie, RecommendationRow, RecommendationRail } from '../types/database';
+import { withRetry, getErrorMessage } from '../utils/errorHandling';
+
+const RECOMMENDATION_RAIL_COUNT = 3;
+const RECOMMENDATIONS_PER_RAIL = 12;
+
+const POPULAR_COLUMNS = 'id, title, genre, view_count, poster_url, landscape_poster_url, badge, synopsis, episodes, duration_seconds, created_at, series_id, episode_number';
+
+// recommended_rails returns one flat list, already ordered seed by seed
+const groupBySeed = (rows: RecommendationRow[]): RecommendationRail[] => {
+  const rails: RecommendationRail[] = [];
+  rows.forEach(row => {
+    let rail = rails.find(candidate => candidate.seedMovieId === row.seed_movie_id);
+    if (!rail) {
+      rail = { seedMovieId: row.seed_movie_id, seedTitle: row.seed_title, seedSource: row.seed_source, movies: [] };
+      rails.push(rail);
+    }
+    rail.movies.push(row);
+  });
+  return rails;
+};
+
+// "Because you watched X" rails for signed-in viewers; guests, and viewers
+// without any history yet, get the most popular titles instead
+export const useRecommendations = (userId: string | null) => {
+  const [rails, setRails] = useState<RecommendationRail[]>([]);
+  const [popular, setPopular] = useState<Movie[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Signing in or out mid-request must not show the other viewer's rails
+  const requestIdRef = useRef(0);
+
+  const fetchPopular = async () => {
+    const { data, error } = await withRetry(async () => {
+      const result = await supabase
+        .rpc('browse_movies', { p_sort: 'popularity', p_limit: RECOMMENDATIONS_PER_RAIL })
+        .select(POPULAR_COLUMNS);
+
+      if (result.error) throw result.error;
+      return result;
+    });
+
+    if (error) throw error;
+    return (data as Movie[]) || [];
+  };
+
+  const fetchRecommendations = async () => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      let nextRails: RecommendationRail[] = [];
+
+      if (userId) {
+        const { data, error } = await withRetry(async () => {
+          const result = await supabase.rpc('recommended_rails', {
+            p_rail_count: RECOMMENDATION_RAIL_COUNT,
+            p_limit: RECOMMENDATIONS_PER_RAIL
+          });
+
+          if (result.error) throw result.error;
+          return result;
+        });
+
+        if (error) throw error;
+        nextRails = groupBySeed((data as RecommendationRow[]) || []);
+      }
+
+      const nextPopular = nextRails.length === 0 ? await fetchPopular() : [];
+      if (requestId !== requestIdRef.current) return;
+
+      setRails(nextRails);
+      setPopular(nextPopular);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+
+      // Recommendations are an extra; the rest of the home page still works
+      console.error('Error fetching recommendations:', err);
+      setError(getErrorMessage(err));
+      setRails([]);
+      setPopular([]);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    fetchRecommendations();
+  }, [userId]);
+
+  return {
+    rails,
+    popular,
+    loading,
+    error,
+    refetch: fetchRecommendations
+  };
+};
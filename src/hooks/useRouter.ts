@@ -0,0 +1,161 @@
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import { Route, parseRoute, buildPath, isModalRoute } from '../utils/routes';
+
+interface HistoryEntryState {
+  key: string;
+  // Page path shown behind a modal route
+  background?: string;
+  // Entry was pushed by the app, so history.back() stays on the site
+  pushed?: boolean;
+}
+
+interface RouterLocation {
+  path: string;
+  search: string;
+  state: HistoryEntryState;
+}
+
+interface NavigateOptions {
+  replace?: boolean;
+}
+
+const SCROLL_POSITIONS_KEY = 'onaireplay:scroll-positions';
+const MAX_SCROLL_RESTORE_FRAMES = 60;
+
+const createKey = () => Math.random().toString(36).slice(2, 10);
+
+const splitPath = (target: string) => {
+  const index = target.indexOf('?');
+  return index === -1
+    ? { path: target, search: '' }
+    : { path: target.slice(0, index), search: target.slice(index) };
+};
+
+const readScrollPositions = (): Record<string, number> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(SCROLL_POSITIONS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveScrollPosition = (key: string, y: number) => {
+  try {
+    sessionStorage.setItem(SCROLL_POSITIONS_KEY, JSON.stringify({ ...readScrollPositions(), [key]: y }));
+  } catch {
+    // Storage can be full or disabled; scroll restoration is best effort
+  }
+};
+
+const readLocation = (): RouterLocation => {
+  const state = window.history.state as HistoryEntryState | null;
+  return {
+    path: window.location.pathname,
+    search: window.location.search,
+    state: state?.key ? state : { key: createKey() }
+  };
+};
+
+// Path of the page a location shows; modals opened from a deep link sit on home
+const getPagePath = (location: RouterLocation) => {
+  if (location.state.background) return location.state.background;
+  return isModalRoute(parseRoute(location.path, location.search)) ? '/' : `${location.path}${location.search}`;
+};
+
+export const useRouter = () => {
+  const [location, setLocation] = useState<RouterLocation>(readLocation);
+  const locationRef = useRef(location);
+  locationRef.current = location;
+
+  useEffect(() => {
+    // Scroll positions are restored per entry below
+    window.history.scrollRestoration = 'manual';
+
+    if (!(window.history.state as HistoryEntryState | null)?.key) {
+      window.history.replaceState(locationRef.current.state, '', window.location.href);
+    }
+
+    const handlePopState = () => {
+      const current = locationRef.current;
+      if (!current.state.background) {
+        saveScrollPosition(current.state.key, window.scrollY);
+      }
+      setLocation(readLocation());
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Restore the scroll position of page entries; modals open over the current one
+  useLayoutEffect(() => {
+    if (location.state.background) return;
+
+    const savedY = readScrollPositions()[location.state.key];
+    if (!savedY) {
+      window.scrollTo(0, 0);
+      return;
+    }
+
+    // The page may still be loading, so keep trying until it is tall enough
+    let frame = 0;
+    let attempts = 0;
+    const restore = () => {
+      window.scrollTo(0, savedY);
+      if (Math.abs(window.scrollY - savedY) > 1 && attempts++ < MAX_SCROLL_RESTORE_FRAMES) {
+        frame = requestAnimationFrame(restore);
+      }
+    };
+    restore();
+
+    return () => cancelAnimationFrame(frame);
+  }, [location.state.key, location.state.background]);
+
+  const navigate = useCallback((to: Route | string, options: NavigateOptions = {}) => {
+    const target = typeof to === 'string' ? to : buildPath(to);
+    const { path, search } = splitPath(target);
+    const current = locationRef.current;
+
+    if (!current.state.background) {
+      saveScrollPosition(current.state.key, window.scrollY);
+    }
+
+    const state: HistoryEntryState = {
+      // Replacing keeps the entry, and with it the scroll position
+      key: options.replace ? current.state.key : createKey(),
+      background: isModalRoute(parseRoute(path, search)) ? getPagePath(current) : undefined,
+      pushed: options.replace ? current.state.pushed : true
+    };
+
+    if (options.replace) {
+      window.history.replaceState(state, '', target);
+    } else {
+      window.history.pushState(state, '', target);
+    }
+
+    setLocation({ path, search, state });
+  }, []);
+
+  // Close a modal route. Go back when the app opened it, otherwise (deep link,
+  // refresh) swap it for the page underneath so we never leave the site.
+  const closeModal = useCallback(() => {
+    const current = locationRef.current;
+    if (current.state.pushed && current.state.background) {
+      window.history.back();
+      return;
+    }
+
+    navigate(getPagePath(current), { replace: true });
+  }, [navigate]);
+
+  const route = parseRoute(location.path, location.search);
+  const page = splitPath(getPagePath(location));
+  const pageRoute = parseRoute(page.path, page.search);
+
+  return {
+    route,
+    pageRoute,
+    navigate,
+    closeModal
+  };
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { withRetry } from '../utils/errorHandling';
+
+// Where the viewer left off in a title. Movies opened from watch history
+// already carry it; anything else is looked up for signed-in viewers.
+export const useSavedPosition = (movieId: number, userId: string | null, knownPosition?: number) => {
+  const [savedPosition, setSavedPosition] = useState<number | null>(knownPosition ?? null);
+  const [loaded, setLoaded] = useState(knownPosition !== undefined || !userId);
+
+  useEffect(() => {
+    if (knownPosition !== undefined || !userId) {
+      setSavedPosition(knownPosition ?? null);
+      setLoaded(true);
+      return;
+    }
+
+    let cancelled = false;
+    setLoaded(false);
+
+    const fetchSavedPosition = async () => {
+      try {
+        const { data } = await withRetry(async () => {
+          const result = await supabase
+            .from('user_watch_history')
+            .select('progress_seconds')
+            .eq('user_id', userId)
+            .eq('movie_id', movieId)
+            .maybeSingle();
+
+          if (result.error) throw result.error;
+          return result;
+        });
+
+        if (!cancelled) {
+          setSavedPosition(data?.progress_seconds ?? null);
+        }
+      } catch (err) {
+        // Playback simply starts from the beginning
+        console.error('Error fetching saved position:', err);
+        if (!cancelled) setSavedPosition(null);
+      } finally {
+        if (!cancelled) setLoaded(true);
+      }
+    };
+
+    fetchSavedPosition();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [movieId, userId, knownPosition]);
+
+  return { savedPosition, loaded };
+};
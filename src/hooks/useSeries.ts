@@ -0,0 +1,82 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { Series, Season } from '../types/database';
+import { withRetry, getErrorMessage } from '../utils/errorHandling';
+
+// A series and its seasons in order; both empty for standalone movies
+export const useSeries = (seriesId: string | null) => {
+  const [series, setSeries] = useState<Series | null>(null);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Moving between series quickly must not show the previous one
+  const requestIdRef = useRef(0);
+
+  const fetchSeries = async () => {
+    const requestId = ++requestIdRef.current;
+
+    if (!seriesId) {
+      setSeries(null);
+      setSeasons([]);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await withRetry(async () => {
+        const result = await supabase
+          .from('series')
+          .select('*, seasons(*)')
+          .eq('id', seriesId)
+          .order('season_number', { referencedTable: 'seasons', ascending: true })
+          .maybeSingle();
+
+        if (result.error) throw result.error;
+        return result;
+      });
+
+      if (error) throw error;
+      if (requestId !== requestIdRef.current) return;
+
+      const row = data as (Series & { seasons: Season[] }) | null;
+      if (!row) {
+        setSeries(null);
+        setSeasons([]);
+        return;
+      }
+
+      const { seasons: seriesSeasons, ...seriesRow } = row;
+      setSeries(seriesRow);
+      setSeasons(seriesSeasons || []);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+
+      // The page still works from the episode's own details
+      console.error('Error fetching series:', err);
+      setError(getErrorMessage(err));
+      setSeries(null);
+      setSeasons([]);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    fetchSeries();
+  }, [seriesId]);
+
+  return {
+    series,
+    seasons,
+    loading,
+    error,
+    refetch: fetchSeries
+  };
+};
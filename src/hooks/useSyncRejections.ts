@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+import { OutboxMutation, takeOutboxRejections, subscribeToOutboxRejections } from '../lib/outbox';
+import { useError } from '../contexts/ErrorContext';
+import { createErrorMessage } from '../utils/errorHandling';
+
+const REJECTION_MESSAGES: Record<OutboxMutation['kind'], string> = {
+  watch_progress: "Progress saved while you were offline couldn't be synced.",
+  watchlist_add: "A title you saved while offline couldn't be added to your watchlist.",
+  watchlist_move: "A watchlist change made while offline couldn't be saved.",
+  watchlist_remove: "A title you removed while offline couldn't be taken off your watchlist.",
+  comment_add: "A comment you wrote while offline couldn't be posted.",
+  comment_delete: "A comment you deleted while offline couldn't be removed."
+};
+
+// Tells the viewer about offline writes the server turned down on replay.
+// Mounted once, at the top of the app; the screens showing that data
+// refetch on their own once the queue empties.
+export const useSyncRejections = () => {
+  const { addError } = useError();
+
+  useEffect(() => {
+    const showRejections = () => {
+      takeOutboxRejections().forEach(entry => {
+        addError(createErrorMessage(REJECTION_MESSAGES[entry.kind], 'error'));
+      });
+    };
+
+    // Replays start on load, possibly before the app has mounted
+    showRejections();
+    return subscribeToOutboxRejections(showRejections);
+  }, []);
+};
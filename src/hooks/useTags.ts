@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Tag } from '../types/database';
+import { useError } from '../contexts/ErrorContext';
+import { withRetry, getErrorMessage, createErrorMessage } from '../utils/errorHandling';
+
+// The whole taxonomy, grouped by type and in curated order
+export const useTags = () => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { addError } = useError();
+
+  const fetchTags = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await withRetry(async () => {
+        const result = await supabase
+          .from('tags')
+          .select('*')
+          .order('tag_type', { ascending: true })
+          .order('sort_order', { ascending: true })
+          .order('name', { ascending: true });
+
+        if (result.error) throw result.error;
+        return result;
+      });
+
+      if (error) throw error;
+
+      setTags(data || []);
+    } catch (err) {
+      console.error('Error fetching tags:', err);
+      const errorMessage = getErrorMessage(err);
+      setError(errorMessage);
+
+      addError(createErrorMessage(
+        'Failed to load themes. Please try again.',
+        'error',
+        () => fetchTags(),
+        'Retry'
+      ));
+
+      setTags([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  return {
+    tags,
+    loading,
+    error,
+    fetchTags
+  };
+};
@@ -1,24 +1,51 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { UserBalance } from '../types/database';
+import { UserBalance, EpisodeUnlockResult, CoinLedgerEntry } from '../types/database';
 import { useError } from '../contexts/ErrorContext';
 import { withRetry, getErrorMessage, createErrorMessage } from '../utils/errorHandling';
+import { queryKeys, getQueryEntry, setQueryData, invalidateQuery } from '../lib/queryCache';
+import { useCachedQuery } from './useCachedQuery';
+import { useRealtimeChanges } from './useRealtimeChanges';
+
+const LEDGER_PAGE_SIZE = 20;
+
+export interface EpisodeUnlocksData {
+  movieIds: Set<number>;
+  // Realtime deletes name only the row, so rows are kept to match them against
+  movieIdsByRow: Map<string, number>;
+}
+
+// Every unlock_episode call ends here, whichever hook made it, so the balance
+// and unlocked episodes stay in step for every screen showing them
+export const applyEpisodeUnlock = (userId: string, movieId: number, unlock: EpisodeUnlockResult) => {
+  const balanceKey = queryKeys.balance(userId);
+  const balance = getQueryEntry<UserBalance | null>(balanceKey)?.data;
+  if (balance) {
+    setQueryData<UserBalance | null>(balanceKey, {
+      ...balance,
+      coins: unlock.coins,
+      bonus_coins: unlock.bonus_coins,
+      updated_at: new Date().toISOString()
+    });
+  } else {
+    // No balance row was loaded yet; fetch the one the spend left behind
+    invalidateQuery(balanceKey);
+  }
+  setQueryData<EpisodeUnlocksData>(queryKeys.unlocks(userId), previous => ({
+    movieIds: new Set([...(previous?.movieIds || []), movieId]),
+    movieIdsByRow: new Map(previous?.movieIdsByRow).set(unlock.unlock_id, movieId)
+  }));
+};
 
 export const useUserCoins = (userId: string | null) => {
-  const [balance, setBalance] = useState<UserBalance | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [ledger, setLedger] = useState<CoinLedgerEntry[]>([]);
+  const [ledgerPage, setLedgerPage] = useState(1);
+  const [hasMoreLedger, setHasMoreLedger] = useState(false);
+  const [ledgerLoading, setLedgerLoading] = useState(false);
   const { addError } = useError();
+  const cacheKey = userId ? queryKeys.balance(userId) : null;
 
-  const fetchBalance = async () => {
-    if (!userId) {
-      setBalance(null);
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
+  const loadBalance = async () => {
     try {
       const { data, error } = await withRetry(async () => {
         const result = await supabase
@@ -33,11 +60,9 @@ export const useUserCoins = (userId: string | null) => {
 
       if (error) throw error;
 
-      setBalance(data);
-    } catch (err: any) {
+      return data as UserBalance | null;
+    } catch (err) {
       console.error('Error fetching user balance:', err);
-      const errorMessage = getErrorMessage(err);
-      setError(errorMessage);
       
       addError(createErrorMessage(
         'Failed to load your coin balance. Please try again.',
@@ -45,25 +70,53 @@ export const useUserCoins = (userId: string | null) => {
         () => fetchBalance(),
         'Retry'
       ));
-      
-      setBalance(null);
-    } finally {
-      setLoading(false);
+
+      throw err;
     }
   };
 
-  const updateBalance = async (newCoins: number, newBonusCoins: number) => {
-    if (!userId) return false;
+  // One balance for the whole app: a spend in one place shows everywhere
+  const { data, loading, error, refetch: fetchBalance } = useCachedQuery(cacheKey, loadBalance);
+  const balance = data ?? null;
+
+  // Credits from the Stripe webhook and spends on other devices arrive live
+  useRealtimeChanges<UserBalance>(
+    userId ? `balance:${userId}` : null,
+    { table: 'user_balances', filter: `user_id=eq.${userId}` },
+    payload => {
+      if (!cacheKey) return;
+      if (payload.eventType === 'DELETE') {
+        // Deletes skip the user filter; the row's key is the user id, so check it
+        if (payload.old.user_id !== userId) return;
+        setQueryData<UserBalance | null>(cacheKey, null);
+      } else {
+        setQueryData<UserBalance | null>(cacheKey, payload.new);
+      }
+    }
+  );
+
+  // Every balance movement, newest first, one page at a time
+  const fetchLedger = async (pageNum: number = 1, append: boolean = false) => {
+    if (!userId) {
+      setLedger([]);
+      setHasMoreLedger(false);
+      return;
+    }
+
+    setLedgerLoading(true);
 
     try {
-      const { error } = await withRetry(async () => {
+      const startRange = (pageNum - 1) * LEDGER_PAGE_SIZE;
+      const endRange = pageNum * LEDGER_PAGE_SIZE - 1;
+
+      const { data, error } = await withRetry(async () => {
         const result = await supabase
-          .from('user_balances')
-          .update({
-            coins: newCoins,
-            bonus_coins: newBonusCoins
-          })
-          .eq('user_id', userId);
+          .from('coin_ledger')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .range(startRange, endRange);
         
         if (result.error) throw result.error;
         return result;
@@ -71,68 +124,75 @@ export const useUserCoins = (userId: string | null) => {
 
       if (error) throw error;
 
-      // Update local state
-      if (balance) {
-        setBalance({
-          ...balance,
-          coins: newCoins,
-          bonus_coins: newBonusCoins,
-          updated_at: new Date().toISOString()
-        });
+      const entries = data || [];
+
+      if (append && pageNum > 1) {
+        setLedger(prev => [...prev, ...entries]);
+      } else {
+        setLedger(entries);
       }
 
-      return true;
-    } catch (err: any) {
-      console.error('Error updating balance:', err);
+      setLedgerPage(pageNum);
+      setHasMoreLedger(entries.length === LEDGER_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error fetching coin ledger:', err);
       
       addError(createErrorMessage(
-        'Failed to update your balance. Please try again.',
+        'Failed to load your coin activity. Please try again.',
         'error',
-        () => updateBalance(newCoins, newBonusCoins),
+        () => fetchLedger(pageNum, append),
         'Retry'
       ));
-      
-      return false;
+    } finally {
+      setLedgerLoading(false);
     }
   };
 
-  const addCoins = async (coinsToAdd: number, bonusCoinsToAdd: number = 0) => {
-    if (!balance) return false;
-    
-    const newCoins = balance.coins + coinsToAdd;
-    const newBonusCoins = balance.bonus_coins + bonusCoinsToAdd;
-    
-    return await updateBalance(newCoins, newBonusCoins);
+  const loadMoreLedger = async () => {
+    if (ledgerLoading || !hasMoreLedger) return;
+    await fetchLedger(ledgerPage + 1, true);
   };
 
-  const spendCoins = async (coinsToSpend: number) => {
-    if (!balance) return false;
-    
-    const totalAvailable = balance.coins + balance.bonus_coins;
-    if (totalAvailable < coinsToSpend) {
-      addError(createErrorMessage(
-        'Insufficient coins. Please purchase more coins to continue.',
-        'warning'
-      ));
-      return false;
-    }
+  const spendCoins = async (movieId: number): Promise<EpisodeUnlockResult | null> => {
+    if (!userId) return null;
 
-    // Spend bonus coins first, then regular coins
-    let newBonusCoins = balance.bonus_coins;
-    let newCoins = balance.coins;
-    let remaining = coinsToSpend;
+    try {
+      // The server checks the price, spends bonus coins first and records the unlock atomically
+      const { data, error } = await withRetry(async () => {
+        const result = await supabase.rpc('unlock_episode', { p_movie_id: movieId });
+        
+        if (result.error) throw result.error;
+        return result;
+      });
 
-    if (remaining > 0 && newBonusCoins > 0) {
-      const bonusToSpend = Math.min(remaining, newBonusCoins);
-      newBonusCoins -= bonusToSpend;
-      remaining -= bonusToSpend;
-    }
+      if (error) throw error;
 
-    if (remaining > 0) {
-      newCoins -= remaining;
-    }
+      const unlock = data as EpisodeUnlockResult;
+
+      applyEpisodeUnlock(userId, movieId, unlock);
 
-    return await updateBalance(newCoins, newBonusCoins);
+      return unlock;
+    } catch (err: any) {
+      console.error('Error spending coins:', err);
+      const errorMessage = getErrorMessage(err);
+      
+      if (errorMessage.includes('Insufficient coins')) {
+        addError(createErrorMessage(
+          'Insufficient coins. Please purchase more coins to continue.',
+          'warning'
+        ));
+        return null;
+      }
+      
+      addError(createErrorMessage(
+        'Failed to spend coins. Please try again.',
+        'error',
+        () => spendCoins(movieId),
+        'Retry'
+      ));
+      
+      return null;
+    }
   };
 
   const canAfford = (cost: number) => {
@@ -140,7 +200,8 @@ export const useUserCoins = (userId: string | null) => {
     return (balance.coins + balance.bonus_coins) >= cost;
   };
   useEffect(() => {
-    fetchBalance();
+    setLedger([]);
+    setHasMoreLedger(false);
   }, [userId]);
 
   return {
@@ -148,9 +209,12 @@ export const useUserCoins = (userId: string | null) => {
     loading,
     error,
     fetchBalance,
-    updateBalance,
-    addCoins,
     spendCoins,
+    ledger,
+    ledgerLoading,
+    hasMoreLedger,
+    fetchLedger,
+    loadMoreLedger,
     canAfford,
     totalCoins: balance ? balance.coins + balance.bonus_coins : 0
   };
@@ -1,48 +1,74 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
-import { MovieWithProgress, UserWatchHistory } from '../types/database';
+import { useEffect, useRef } from 'react';
+import { supabase, supabaseRestUrl, supabaseAnonKey } from '../lib/supabase';
+import { Movie, ContinueWatchingItem } from '../types/database';
 import { useError } from '../contexts/ErrorContext';
-import { withRetry, getErrorMessage, isNetworkError, createErrorMessage } from '../utils/errorHandling';
+import { withRetry, isNetworkError, createErrorMessage } from '../utils/errorHandling';
+import { isFinishedPosition } from '../utils/chapterMarkers';
+import { sendOrQueue, OutboxMutation } from '../lib/outbox';
+import { usePendingSync } from './usePendingSync';
+import { useCachedQuery } from './useCachedQuery';
+import { queryKeys, setQueryData } from '../lib/queryCache';
+
+const CONTINUE_WATCHING_LIMIT = 20;
+const NO_ITEMS: ContinueWatchingItem[] = [];
+
+export interface SaveProgressOptions {
+  // The page is going away: send with fetch keepalive so the write survives it
+  keepalive?: boolean;
+}
+
+interface WatchHistoryRow {
+  user_id: string;
+  movie_id: number;
+  progress_seconds: number;
+  total_duration_seconds: number;
+  last_watched_at: string;
+}
+
+const getTitleKey = (movie: Movie) => movie.series_id || String(movie.id);
+
+// Apply a progress write to the local list the way continue_watching would,
+// moving the title to the front
+const applyProgress = (
+  items: ContinueWatchingItem[],
+  movie: Movie,
+  row: WatchHistoryRow,
+  finished: boolean
+): ContinueWatchingItem[] => {
+  const existing = items.find(item => getTitleKey(item) === getTitleKey(movie));
+  const completionPercent = row.total_duration_seconds > 0
+    ? Math.min(Math.round((100 * row.progress_seconds) / row.total_duration_seconds), 100)
+    : 0;
+
+  const updated: ContinueWatchingItem = {
+    ...movie,
+    // Series keep their own title and posters on the card
+    poster_url: existing?.poster_url || movie.poster_url,
+    landscape_poster_url: existing?.landscape_poster_url || movie.landscape_poster_url,
+    progress_seconds: row.progress_seconds,
+    total_duration_seconds: row.total_duration_seconds,
+    last_watched_at: row.last_watched_at,
+    series_title: existing?.series_title ?? null,
+    season_number: existing?.id === movie.id ? existing.season_number : null,
+    season_episode_number: existing?.id === movie.id ? existing.season_episode_number : null,
+    completed_episodes: existing?.completed_episodes ?? (finished ? 1 : 0),
+    completion_percent: movie.series_id ? existing?.completion_percent ?? 0 : completionPercent,
+    is_completed: finished
+  };
+
+  return [updated, ...items.filter(item => item !== existing)].slice(0, CONTINUE_WATCHING_LIMIT);
+};
 
+// Watch history with one entry per title: series are grouped and point at the
+// episode to resume, via the continue_watching RPC
 export const useWatchHistory = (userId: string | null) => {
-  const [continueWatching, setContinueWatching] = useState<MovieWithProgress[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const { addError } = useError();
+  const cacheKey = userId ? queryKeys.watchHistory(userId) : null;
 
-  const fetchWatchHistory = async () => {
-    if (!userId) {
-      setContinueWatching([]);
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
+  const loadWatchHistory = async () => {
     try {
       const { data, error } = await withRetry(async () => {
-        const result = await supabase
-          .from('user_watch_history')
-          .select(`
-            *,
-            movie:movies (
-              id,
-              title,
-              genre,
-              view_count,
-              poster_url,
-              landscape_poster_url,
-              badge,
-              episodes,
-              duration_seconds,
-              created_at,
-              series_id,
-              episode_number
-            )
-          `)
-          .eq('user_id', userId)
-          .order('last_watched_at', { ascending: false })
-          .limit(10);
+        const result = await supabase.rpc('continue_watching', { p_limit: CONTINUE_WATCHING_LIMIT });
         
         if (result.error) throw result.error;
         return result;
@@ -50,23 +76,9 @@ export const useWatchHistory = (userId: string | null) => {
 
       if (error) throw error;
 
-      const moviesWithProgress: MovieWithProgress[] = (data as (UserWatchHistory & { movie: any })[])
-        .filter(item => item.movie) // Filter out any items without movie data
-        .map(item => ({
-          ...item.movie,
-          progress_seconds: item.progress_seconds,
-          total_duration_seconds: item.total_duration_seconds,
-          last_watched_at: item.last_watched_at,
-          poster: item.movie.poster_url, // Map to frontend format
-          landscapePoster: item.movie.landscape_poster_url, // Map to frontend format
-          viewCount: item.movie.view_count // Map to frontend format
-        }));
-
-      setContinueWatching(moviesWithProgress);
-    } catch (err: any) {
+      return (data as ContinueWatchingItem[]) || [];
+    } catch (err) {
       console.error('Error fetching watch history:', err);
-      const errorMessage = getErrorMessage(err);
-      setError(errorMessage);
       
       // Show user-friendly error with retry option
       addError(createErrorMessage(
@@ -75,38 +87,96 @@ export const useWatchHistory = (userId: string | null) => {
         () => fetchWatchHistory(),
         'Retry'
       ));
-      
-      setContinueWatching([]);
-    } finally {
-      setLoading(false);
+
+      throw err;
     }
   };
 
-  const addToWatchHistory = async (movieId: number, progressSeconds: number, totalDurationSeconds: number) => {
+  // Shared with every other screen showing this user's history
+  const { data, loading, error, refetch: fetchWatchHistory } = useCachedQuery(cacheKey, loadWatchHistory);
+  const continueWatching = data || NO_ITEMS;
+
+  const setContinueWatching = (update: (previous: ContinueWatchingItem[]) => ContinueWatchingItem[]) => {
+    if (cacheKey) {
+      setQueryData<ContinueWatchingItem[]>(cacheKey, previous => update(previous || []));
+    }
+  };
+
+  const pendingSync = usePendingSync(
+    entry => entry.kind === 'watch_progress' && entry.userId === userId,
+    () => fetchWatchHistory()
+  );
+
+  // Keepalive writes run during pagehide, too late to wait for getSession()
+  const accessTokenRef = useRef<string | null>(null);
+
+  // sendBeacon cannot carry the auth headers PostgREST needs, so this is a
+  // keepalive fetch instead; the browser finishes it after the page is gone
+  const sendKeepaliveUpsert = async (row: WatchHistoryRow) => {
+    const response = await fetch(`${supabaseRestUrl}/user_watch_history?on_conflict=user_id,movie_id`, {
+      method: 'POST',
+      keepalive: true,
+      headers: {
+        apikey: supabaseAnonKey,
+        Authorization: `Bearer ${accessTokenRef.current}`,
+        'Content-Type': 'application/json',
+        Prefer: 'resolution=merge-duplicates,return=minimal'
+      },
+      body: JSON.stringify(row)
+    });
+
+    if (!response.ok) throw new Error(`Failed to save progress (${response.status})`);
+  };
+
+  const addToWatchHistory = async (
+    movie: Movie,
+    progressSeconds: number,
+    totalDurationSeconds: number,
+    options: SaveProgressOptions = {}
+  ) => {
     if (!userId) return;
 
-    try {
-      const { error } = await withRetry(async () => {
-        const result = await supabase
-          .from('user_watch_history')
-          .upsert({
-            user_id: userId,
-            movie_id: movieId,
-            progress_seconds: Math.floor(progressSeconds),
-            total_duration_seconds: Math.floor(totalDurationSeconds),
-            last_watched_at: new Date().toISOString()
-          }, {
-            onConflict: 'user_id,movie_id'
-          });
-        
-        if (result.error) throw result.error;
-        return result;
-      });
+    const row: WatchHistoryRow = {
+      user_id: userId,
+      movie_id: movie.id,
+      progress_seconds: Math.floor(progressSeconds),
+      total_duration_seconds: Math.floor(totalDurationSeconds),
+      last_watched_at: new Date().toISOString()
+    };
+
+    // Only the server knows which episode follows a finished one, so those
+    // are refetched once saved; everything else is updated in place
+    const finished = isFinishedPosition(movie, row.progress_seconds, row.total_duration_seconds);
+    const needsRefresh = finished && Boolean(movie.series_id);
+    if (!needsRefresh) {
+      setContinueWatching(prev => applyProgress(prev, movie, row, finished));
+    }
 
-      if (error) throw error;
+    // Progress that cannot be sent waits in the sync queue
+    const mutation: OutboxMutation = {
+      kind: 'watch_progress',
+      userId,
+      movieId: row.movie_id,
+      progressSeconds: row.progress_seconds,
+      totalDurationSeconds: row.total_duration_seconds,
+      lastWatchedAt: row.last_watched_at
+    };
 
-      // Refresh the watch history after adding
-      await fetchWatchHistory();
+    try {
+      if (options.keepalive && accessTokenRef.current) {
+        try {
+          await sendKeepaliveUpsert(row);
+        } catch (err) {
+          if (!isNetworkError(err)) throw err;
+          await sendOrQueue(mutation);
+        }
+      } else {
+        await sendOrQueue(mutation);
+      }
+
+      if (needsRefresh) {
+        await fetchWatchHistory();
+      }
     } catch (err: any) {
       console.error('Error adding to watch history:', err);
       
@@ -125,11 +195,8 @@ export const useWatchHistory = (userId: string | null) => {
 
     try {
       const { error } = await withRetry(async () => {
-        const result = await supabase
-          .from('user_watch_history')
-          .delete()
-          .eq('user_id', userId)
-          .eq('movie_id', movieId);
+        // Removes every episode when the movie is part of a series
+        const result = await supabase.rpc('remove_title_from_watch_history', { p_movie_id: movieId });
         
         if (result.error) throw result.error;
         return result;
@@ -152,8 +219,16 @@ export const useWatchHistory = (userId: string | null) => {
   };
 
   useEffect(() => {
-    fetchWatchHistory();
-  }, [userId]);
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      accessTokenRef.current = session?.access_token || null;
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      accessTokenRef.current = session?.access_token || null;
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
 
   return {
     continueWatching,
@@ -161,6 +236,7 @@ export const useWatchHistory = (userId: string | null) => {
     error,
     addToWatchHistory,
     removeFromWatchHistory,
+    pendingSyncCount: pendingSync.length,
     refreshWatchHistory: fetchWatchHistory
   };
 };
\ No newline at end of file
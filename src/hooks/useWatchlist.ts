@@ -1,26 +1,49 @@
-import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { MovieWithProgress, UserWatchlistItem, UserWatchlistCategory } from '../types/database';
+import { MovieWithProgress, WatchlistMovie, UserWatchlistItem, UserWatchlistCategory, UserWatchHistory } from '../types/database';
 import { useError } from '../contexts/ErrorContext';
-import { withRetry, getErrorMessage, isNetworkError, createErrorMessage } from '../utils/errorHandling';
+import { withRetry, isNetworkError, createErrorMessage } from '../utils/errorHandling';
+import { keyBetween, comparePositions } from '../utils/fractionalIndex';
+import { sendOrQueue } from '../lib/outbox';
+import { queryKeys, getQueryEntry, setQueryData, invalidateQuery } from '../lib/queryCache';
+import { usePendingSync } from './usePendingSync';
+import { useCachedQuery } from './useCachedQuery';
+import { useRealtimeChanges } from './useRealtimeChanges';
 
-export const useWatchlist = (userId: string | null) => {
-  const [watchlist, setWatchlist] = useState<MovieWithProgress[]>([]);
-  const [watchlistIds, setWatchlistIds] = useState<Set<number>>(new Set());
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const { addError } = useError();
+const QUEUED_MESSAGE = "You're offline. This change will sync when you're back online.";
 
-  const fetchWatchlist = async () => {
-    if (!userId) {
-      setWatchlist([]);
-      setWatchlistIds(new Set());
-      return;
-    }
+interface WatchlistData {
+  // In the viewer's manual order
+  movies: WatchlistMovie[];
+  // Also covers titles added while offline, before their rows exist
+  movieIds: Set<number>;
+}
+
+const NO_MOVIES: WatchlistMovie[] = [];
+const NO_MOVIE_IDS = new Set<number>();
 
-    setLoading(true);
-    setError(null);
+const withoutId = (ids: Set<number>, movieId: number) => {
+  const next = new Set(ids);
+  next.delete(movieId);
+  return next;
+};
 
+const sortByPosition = (movies: WatchlistMovie[]) =>
+  [...movies].sort((a, b) => comparePositions(a.position, b.position) || b.added_at.localeCompare(a.added_at));
+
+// Watchlist writes run one after another, so quick toggles reach the server
+// in the order they were made
+let writeChain: Promise<unknown> = Promise.resolve();
+const serializeWrite = <T>(write: () => Promise<T>) => {
+  const run = writeChain.then(write, write);
+  writeChain = run.catch(() => undefined);
+  return run;
+};
+
+export const useWatchlist = (userId: string | null) => {
+  const { addError } = useError();
+  const cacheKey = userId ? queryKeys.watchlist(userId) : null;
+
+  const loadWatchlist = async (): Promise<WatchlistData> => {
     try {
       const { data, error } = await withRetry(async () => {
         const result = await supabase
@@ -48,6 +71,7 @@ export const useWatchlist = (userId: string | null) => {
             )
           `)
           .eq('user_id', userId)
+          .order('position', { ascending: true, nullsFirst: false })
           .order('created_at', { ascending: false });
         
         if (result.error) throw result.error;
@@ -56,7 +80,28 @@ export const useWatchlist = (userId: string | null) => {
 
       if (error) throw error;
 
-      const moviesInWatchlist: MovieWithProgress[] = (data as (UserWatchlistItem & { movie: any })[])
+      const items = data as (UserWatchlistItem & { movie: any })[];
+
+      // Progress on the saved titles, for sorting by time left
+      const { data: progressRows, error: progressError } = await withRetry(async () => {
+        const result = await supabase
+          .from('user_watch_history')
+          .select('movie_id, progress_seconds, total_duration_seconds')
+          .eq('user_id', userId)
+          .in('movie_id', items.map(item => item.movie_id));
+
+        if (result.error) throw result.error;
+        return result;
+      });
+
+      if (progressError) throw progressError;
+
+      const progressByMovie = new Map(
+        (progressRows as Pick<UserWatchHistory, 'movie_id' | 'progress_seconds' | 'total_duration_seconds'>[])
+          .map(row => [row.movie_id, row])
+      );
+
+      const moviesInWatchlist: WatchlistMovie[] = items
         .filter(item => item.movie) // Filter out any items without movie data
         .map(item => {
           // Debug log to check movie data from watchlist
@@ -67,20 +112,23 @@ export const useWatchlist = (userId: string | null) => {
           is_in_watchlist: true,
           category_id: item.category_id,
           category: item.category,
+          watchlist_item_id: item.id,
+          position: item.position,
+          added_at: item.created_at,
+          progress_seconds: progressByMovie.get(item.movie_id)?.progress_seconds,
+          total_duration_seconds: progressByMovie.get(item.movie_id)?.total_duration_seconds,
           poster: item.movie.poster_url, // Map to frontend format
           landscapePoster: item.movie.landscape_poster_url, // Map to frontend format
           viewCount: item.movie.view_count // Map to frontend format
           };
         });
 
-      const movieIds = new Set(moviesInWatchlist.map(movie => movie.id));
-
-      setWatchlist(moviesInWatchlist);
-      setWatchlistIds(movieIds);
-    } catch (err: any) {
+      return {
+        movies: moviesInWatchlist,
+        movieIds: new Set(moviesInWatchlist.map(movie => movie.id))
+      };
+    } catch (err) {
       console.error('Error fetching watchlist:', err);
-      const errorMessage = getErrorMessage(err);
-      setError(errorMessage);
       
       addError(createErrorMessage(
         'Failed to load your watchlist. Please check your connection and try again.',
@@ -88,42 +136,132 @@ export const useWatchlist = (userId: string | null) => {
         () => fetchWatchlist(),
         'Retry'
       ));
-      
-      setWatchlist([]);
-      setWatchlistIds(new Set());
-    } finally {
-      setLoading(false);
+
+      throw err;
     }
   };
 
-  const addToWatchlist = async (movieId: number) => {
-    return addToWatchlistWithCategory(movieId, null);
+  // Shared with every other screen showing this user's watchlist
+  const { data, loading, error, refetch: fetchWatchlist } = useCachedQuery(cacheKey, loadWatchlist);
+  const watchlist = data?.movies || NO_MOVIES;
+  const watchlistIds = data?.movieIds || NO_MOVIE_IDS;
+
+  const setWatchlistData = (update: (previous: WatchlistData) => WatchlistData) => {
+    if (cacheKey) {
+      setQueryData<WatchlistData>(cacheKey, previous => update(previous || { movies: [], movieIds: new Set() }));
+    }
   };
 
-  const addToWatchlistWithCategory = async (movieId: number, categoryId: string | null) => {
+  const setWatchlist = (update: (previous: WatchlistMovie[]) => WatchlistMovie[]) => {
+    setWatchlistData(previous => ({ ...previous, movies: update(previous.movies) }));
+  };
+
+  const setWatchlistIds = (update: (previous: Set<number>) => Set<number>) => {
+    setWatchlistData(previous => ({ ...previous, movieIds: update(previous.movieIds) }));
+  };
+
+  const pendingSync = usePendingSync(
+    entry =>
+      (entry.kind === 'watchlist_add' || entry.kind === 'watchlist_move' || entry.kind === 'watchlist_remove') &&
+      entry.userId === userId,
+    () => fetchWatchlist()
+  );
+
+  const readWatchlist = (): WatchlistData =>
+    (cacheKey && getQueryEntry<WatchlistData>(cacheKey)?.data) || { movies: NO_MOVIES, movieIds: NO_MOVIE_IDS };
+
+  const findCategory = (categoryId: string | null) =>
+    categoryId && userId
+      ? getQueryEntry<UserWatchlistCategory[]>(queryKeys.watchlistCategories(userId))?.data?.find(category => category.id === categoryId) ?? null
+      : null;
+
+  // The server's copy, with joined movie and category details, replaces the
+  // optimistic one in the background
+  const reconcile = () => {
+    if (cacheKey) invalidateQuery(cacheKey);
+  };
+
+  // Titles saved, moved or removed on another device. Rows arrive without
+  // the joined movie, so only titles not shown yet need the refetch. Deletes
+  // skip the user filter and carry only the row id, so they arrive for every
+  // viewer's rows and are matched against the ones shown here.
+  useRealtimeChanges<UserWatchlistItem>(
+    userId ? `watchlist:${userId}` : null,
+    { table: 'user_watchlist', filter: `user_id=eq.${userId}` },
+    payload => {
+      if (!cacheKey) return;
+      const current = readWatchlist();
+
+      if (payload.eventType === 'DELETE') {
+        const rowId = payload.old.id;
+        const removed = rowId ? current.movies.find(saved => saved.watchlist_item_id === rowId) : undefined;
+        if (!removed) return;
+
+        setWatchlistData(previous => ({
+          movies: previous.movies.filter(saved => saved.id !== removed.id),
+          movieIds: withoutId(previous.movieIds, removed.id)
+        }));
+        return;
+      }
+
+      const { id: rowId, movie_id: movieId, position } = payload.new;
+      const categoryId = payload.new.category_id ?? null;
+      const category = findCategory(categoryId);
+
+      if (!current.movies.some(saved => saved.id === movieId)) {
+        setWatchlistIds(previous => new Set([...previous, movieId]));
+        invalidateQuery(cacheKey);
+        return;
+      }
+
+      setWatchlist(previous => sortByPosition(previous.map(saved =>
+        saved.id === movieId ? { ...saved, watchlist_item_id: rowId, category_id: categoryId, category, position } : saved
+      )));
+      // A category this device hasn't loaded yet has no name or colour to show
+      if (categoryId && !category) invalidateQuery(cacheKey);
+    }
+  );
+
+  const addToWatchlist = async (movieId: number, movie?: MovieWithProgress) => {
+    return addToWatchlistWithCategory(movieId, null, movie);
+  };
+
+  // Pass `movie` to show it in the list straight away rather than after the refetch
+  const addToWatchlistWithCategory = async (movieId: number, categoryId: string | null, movie?: MovieWithProgress) => {
     if (!userId) return false;
 
+    const previous = readWatchlist();
+    const previousMovie = previous.movies.find(saved => saved.id === movieId);
+    const wasSaved = previous.movieIds.has(movieId);
+    // New titles go to the top of the manual order
+    const position = previousMovie?.position || keyBetween(null, previous.movies[0]?.position);
+
+    setWatchlistData(current => ({
+      movies: movie
+        ? [
+            {
+              ...movie,
+              is_in_watchlist: true,
+              category_id: categoryId,
+              category: findCategory(categoryId),
+              position,
+              added_at: previousMovie?.added_at || new Date().toISOString()
+            },
+            ...current.movies.filter(saved => saved.id !== movieId)
+          ]
+        : current.movies,
+      movieIds: new Set([...current.movieIds, movieId])
+    }));
+
     try {
-      const { error } = await withRetry(async () => {
-        const result = await supabase
-          .from('user_watchlist')
-          .insert({
-            user_id: userId,
-            movie_id: movieId,
-            category_id: categoryId
-          });
-        
-        if (result.error) throw result.error;
-        return result;
-      });
+      const outcome = await serializeWrite(() => sendOrQueue({ kind: 'watchlist_add', userId, movieId, categoryId, position }));
 
-      if (error) throw error;
+      if (outcome === 'queued') {
+        addError(createErrorMessage(QUEUED_MESSAGE, 'info'));
+        return true;
+      }
 
-      // Update local state
-      setWatchlistIds(prev => new Set([...prev, movieId]));
-      
-      // Refresh the watchlist
-      await fetchWatchlist();
+      reconcile();
       
       addError(createErrorMessage(
         'Movie added to your watchlist!',
@@ -131,15 +269,20 @@ export const useWatchlist = (userId: string | null) => {
       ));
       
       return true;
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error adding to watchlist:', err);
-      const errorMessage = getErrorMessage(err);
-      setError(errorMessage);
+
+      setWatchlistData(current => ({
+        movies: previousMovie
+          ? current.movies.map(saved => (saved.id === movieId ? previousMovie : saved))
+          : current.movies.filter(saved => saved.id !== movieId),
+        movieIds: wasSaved ? current.movieIds : withoutId(current.movieIds, movieId)
+      }));
       
       addError(createErrorMessage(
         'Failed to add movie to watchlist. Please try again.',
         'error',
-        () => addToWatchlist(movieId),
+        () => addToWatchlistWithCategory(movieId, categoryId, movie),
         'Retry'
       ));
       
@@ -150,22 +293,21 @@ export const useWatchlist = (userId: string | null) => {
   const moveToCategory = async (movieId: number, categoryId: string | null) => {
     if (!userId) return false;
 
+    const previousMovie = readWatchlist().movies.find(saved => saved.id === movieId);
+
+    setWatchlist(current => current.map(saved =>
+      saved.id === movieId ? { ...saved, category_id: categoryId, category: findCategory(categoryId) } : saved
+    ));
+
     try {
-      const { error } = await withRetry(async () => {
-        const result = await supabase
-          .from('user_watchlist')
-          .update({ category_id: categoryId })
-          .eq('user_id', userId)
-          .eq('movie_id', movieId);
-        
-        if (result.error) throw result.error;
-        return result;
-      });
+      const outcome = await serializeWrite(() => sendOrQueue({ kind: 'watchlist_move', userId, movieId, categoryId }));
 
-      if (error) throw error;
+      if (outcome === 'queued') {
+        addError(createErrorMessage(QUEUED_MESSAGE, 'info'));
+        return true;
+      }
 
-      // Refresh the watchlist
-      await fetchWatchlist();
+      reconcile();
       
       const categoryName = categoryId ? 'category' : 'uncategorized';
       addError(createErrorMessage(
@@ -174,8 +316,12 @@ export const useWatchlist = (userId: string | null) => {
       ));
       
       return true;
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error moving to category:', err);
+
+      if (previousMovie) {
+        setWatchlist(current => current.map(saved => (saved.id === movieId ? previousMovie : saved)));
+      }
       
       addError(createErrorMessage(
         'Failed to move movie to category. Please try again.',
@@ -188,32 +334,68 @@ export const useWatchlist = (userId: string | null) => {
     }
   };
 
-  const removeFromWatchlist = async (movieId: number) => {
+  // Puts a title between two others in the manual order; null for either
+  // end. The neighbours are whatever the viewer sees either side of it, so a
+  // filtered list can be reordered too.
+  const reorderWatchlistItem = async (movieId: number, previousMovieId: number | null, nextMovieId: number | null) => {
     if (!userId) return false;
 
+    const { movies } = readWatchlist();
+    const movie = movies.find(saved => saved.id === movieId);
+    if (!movie) return false;
+
+    const positionOf = (id: number | null) => (id === null ? null : movies.find(saved => saved.id === id)?.position);
+    const position = keyBetween(positionOf(previousMovieId), positionOf(nextMovieId));
+    const categoryId = movie.category_id ?? null;
+
+    setWatchlist(current => sortByPosition(current.map(saved => (saved.id === movieId ? { ...saved, position } : saved))));
+
     try {
-      const { error } = await withRetry(async () => {
-        const result = await supabase
-          .from('user_watchlist')
-          .delete()
-          .eq('user_id', userId)
-          .eq('movie_id', movieId);
-        
-        if (result.error) throw result.error;
-        return result;
-      });
+      // Queued reorders show in the pending count; a toast for each drag would be noise
+      const outcome = await serializeWrite(() => sendOrQueue({ kind: 'watchlist_move', userId, movieId, categoryId, position }));
+      if (outcome === 'sent') reconcile();
 
-      if (error) throw error;
+      return true;
+    } catch (err) {
+      console.error('Error reordering watchlist:', err);
 
-      // Update local state
-      setWatchlistIds(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(movieId);
-        return newSet;
-      });
+      setWatchlist(current => sortByPosition(current.map(saved =>
+        saved.id === movieId ? { ...saved, position: movie.position } : saved
+      )));
+
+      addError(createErrorMessage(
+        'Failed to reorder your watchlist. Please try again.',
+        'error',
+        () => reorderWatchlistItem(movieId, previousMovieId, nextMovieId),
+        'Retry'
+      ));
+
+      return false;
+    }
+  };
+
+  const removeFromWatchlist = async (movieId: number) => {
+    if (!userId) return false;
+
+    const previous = readWatchlist();
+    const previousIndex = previous.movies.findIndex(saved => saved.id === movieId);
+    const previousMovie = previous.movies[previousIndex];
+    const wasSaved = previous.movieIds.has(movieId);
+
+    setWatchlistData(current => ({
+      movies: current.movies.filter(saved => saved.id !== movieId),
+      movieIds: withoutId(current.movieIds, movieId)
+    }));
 
-      // Refresh the watchlist
-      await fetchWatchlist();
+    try {
+      const outcome = await serializeWrite(() => sendOrQueue({ kind: 'watchlist_remove', userId, movieId }));
+
+      if (outcome === 'queued') {
+        addError(createErrorMessage(QUEUED_MESSAGE, 'info'));
+        return true;
+      }
+
+      reconcile();
       
       addError(createErrorMessage(
         'Movie removed from your watchlist.',
@@ -221,10 +403,20 @@ export const useWatchlist = (userId: string | null) => {
       ));
       
       return true;
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error removing from watchlist:', err);
-      const errorMessage = getErrorMessage(err);
-      setError(errorMessage);
+
+      // Put it back where it was
+      setWatchlistData(current => {
+        const movies = [...current.movies];
+        if (previousMovie && !movies.some(saved => saved.id === movieId)) {
+          movies.splice(Math.min(previousIndex, movies.length), 0, previousMovie);
+        }
+        return {
+          movies,
+          movieIds: wasSaved ? new Set([...current.movieIds, movieId]) : current.movieIds
+        };
+      });
       
       addError(createErrorMessage(
         'Failed to remove movie from watchlist. Please try again.',
@@ -241,10 +433,6 @@ export const useWatchlist = (userId: string | null) => {
     return watchlistIds.has(movieId);
   };
 
-  useEffect(() => {
-    fetchWatchlist();
-  }, [userId]);
-
   return {
     watchlist,
     loading,
@@ -252,8 +440,10 @@ export const useWatchlist = (userId: string | null) => {
     addToWatchlist,
     addToWatchlistWithCategory,
     moveToCategory,
+    reorderWatchlistItem,
     removeFromWatchlist,
     isInWatchlist,
+    pendingSyncCount: pendingSync.length,
     refreshWatchlist: fetchWatchlist
   };
 };
\ No newline at end of file
@@ -1,103 +1,127 @@
-import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { UserWatchlistCategory } from '../types/database';
 import { useError } from '../contexts/ErrorContext';
 import { withRetry, getErrorMessage, createErrorMessage } from '../utils/errorHandling';
+import { keyBetween, comparePositions } from '../utils/fractionalIndex';
+import { queryKeys, setQueryData, invalidateQuery } from '../lib/queryCache';
+import { useCachedQuery } from './useCachedQuery';
 
-export const useWatchlistCategories = (userId: string | null) => {
-  const [categories, setCategories] = useState<UserWatchlistCategory[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const { addError } = useError();
+const NO_CATEGORIES: UserWatchlistCategory[] = [];
 
-  const fetchCategories = async () => {
-    if (!userId) {
-      setCategories([]);
-      return;
-    }
+// Same order as the query, so optimistic changes land where the refetch would put them
+const sortCategories = (categories: UserWatchlistCategory[]) =>
+  [...categories].sort((a, b) => comparePositions(a.position, b.position) || a.name.localeCompare(b.name));
 
-    setLoading(true);
-    setError(null);
+export const useWatchlistCategories = (userId: string | null) => {
+  const { addError } = useError();
+  const cacheKey = userId ? queryKeys.watchlistCategories(userId) : null;
 
+  const loadCategories = async () => {
     try {
       const { data, error } = await withRetry(async () => {
         const result = await supabase
           .from('user_watchlist_categories')
           .select('*')
           .eq('user_id', userId)
+          .order('position', { ascending: true, nullsFirst: false })
           .order('name', { ascending: true });
-        
+
         if (result.error) throw result.error;
         return result;
       });
 
       if (error) throw error;
 
-      setCategories(data || []);
-    } catch (err: any) {
+      return (data as UserWatchlistCategory[]) || [];
+    } catch (err) {
       console.error('Error fetching categories:', err);
-      const errorMessage = getErrorMessage(err);
-      setError(errorMessage);
-      
+
       addError(createErrorMessage(
         'Failed to load watchlist categories. Please try again.',
         'error',
         () => fetchCategories(),
         'Retry'
       ));
-      
-      setCategories([]);
-    } finally {
-      setLoading(false);
+
+      throw err;
+    }
+  };
+
+  // Shared between the watchlist page and the detail page's category picker
+  const { data, loading, error, refetch: fetchCategories } = useCachedQuery(cacheKey, loadCategories);
+  const categories = data || NO_CATEGORIES;
+
+  const setCategories = (update: (previous: UserWatchlistCategory[]) => UserWatchlistCategory[]) => {
+    if (cacheKey) {
+      setQueryData<UserWatchlistCategory[]>(cacheKey, previous => update(previous || []));
+    }
+  };
+
+  const showSaveError = (err: unknown, name: string, fallback: string, retry: () => void) => {
+    const errorMessage = getErrorMessage(err);
+
+    if (errorMessage.includes('duplicate') || errorMessage.includes('unique')) {
+      addError(createErrorMessage(
+        `A category named "${name}" already exists.`,
+        'warning'
+      ));
+    } else {
+      addError(createErrorMessage(fallback, 'error', retry, 'Retry'));
     }
   };
 
   const createCategory = async (name: string, color: string = '#3B82F6') => {
     if (!userId) return false;
 
+    // Stands in until the server's row, with its real id, comes back
+    const now = new Date().toISOString();
+    const position = keyBetween(categories[categories.length - 1]?.position, null);
+    const placeholder: UserWatchlistCategory = {
+      id: `pending-${crypto.randomUUID()}`,
+      user_id: userId,
+      name: name.trim(),
+      color,
+      position,
+      created_at: now,
+      updated_at: now
+    };
+    setCategories(previous => sortCategories([...previous, placeholder]));
+
     try {
-      const { error } = await withRetry(async () => {
+      const { data: created, error } = await withRetry(async () => {
         const result = await supabase
           .from('user_watchlist_categories')
           .insert({
             user_id: userId,
             name: name.trim(),
-            color
-          });
-        
+            color,
+            position
+          })
+          .select()
+          .single();
+
         if (result.error) throw result.error;
         return result;
       });
 
       if (error) throw error;
 
-      // Refresh categories
-      await fetchCategories();
-      
+      setCategories(previous => previous.map(category =>
+        category.id === placeholder.id ? (created as UserWatchlistCategory) : category
+      ));
+
       addError(createErrorMessage(
         `Category "${name}" created successfully!`,
         'success'
       ));
-      
+
       return true;
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error creating category:', err);
-      const errorMessage = getErrorMessage(err);
-      
-      if (errorMessage.includes('duplicate') || errorMessage.includes('unique')) {
-        addError(createErrorMessage(
-          `A category named "${name}" already exists.`,
-          'warning'
-        ));
-      } else {
-        addError(createErrorMessage(
-          'Failed to create category. Please try again.',
-          'error',
-          () => createCategory(name, color),
-          'Retry'
-        ));
-      }
-      
+
+      setCategories(previous => previous.filter(category => category.id !== placeholder.id));
+      showSaveError(err, name, 'Failed to create category. Please try again.', () => createCategory(name, color));
+
       return false;
     }
   };
@@ -105,8 +129,14 @@ export const useWatchlistCategories = (userId: string | null) => {
   const updateCategory = async (categoryId: string, name: string, color: string) => {
     if (!userId) return false;
 
+    const previousCategory = categories.find(category => category.id === categoryId);
+
+    setCategories(previous => sortCategories(previous.map(category =>
+      category.id === categoryId ? { ...category, name: name.trim(), color } : category
+    )));
+
     try {
-      const { error } = await withRetry(async () => {
+      const { data: updated, error } = await withRetry(async () => {
         const result = await supabase
           .from('user_watchlist_categories')
           .update({
@@ -114,41 +144,91 @@ export const useWatchlistCategories = (userId: string | null) => {
             color
           })
           .eq('id', categoryId)
-          .eq('user_id', userId);
-        
+          .eq('user_id', userId)
+          .select()
+          .single();
+
         if (result.error) throw result.error;
         return result;
       });
 
       if (error) throw error;
 
-      // Refresh categories
-      await fetchCategories();
-      
+      setCategories(previous => previous.map(category =>
+        category.id === categoryId ? (updated as UserWatchlistCategory) : category
+      ));
+      // Saved titles show the category's name and colour
+      invalidateQuery(queryKeys.watchlist(userId));
+
       addError(createErrorMessage(
         'Category updated successfully!',
         'success'
       ));
-      
+
       return true;
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error updating category:', err);
-      const errorMessage = getErrorMessage(err);
-      
-      if (errorMessage.includes('duplicate') || errorMessage.includes('unique')) {
-        addError(createErrorMessage(
-          `A category named "${name}" already exists.`,
-          'warning'
-        ));
-      } else {
-        addError(createErrorMessage(
-          'Failed to update category. Please try again.',
-          'error',
-          () => updateCategory(categoryId, name, color),
-          'Retry'
-        ));
+
+      if (previousCategory) {
+        setCategories(previous => sortCategories(previous.map(category =>
+          category.id === categoryId ? previousCategory : category
+        )));
       }
-      
+      showSaveError(err, name, 'Failed to update category. Please try again.', () => updateCategory(categoryId, name, color));
+
+      return false;
+    }
+  };
+
+  // Puts a category between two others; null for either end
+  const reorderCategory = async (categoryId: string, previousCategoryId: string | null, nextCategoryId: string | null) => {
+    if (!userId) return false;
+
+    const previousCategory = categories.find(category => category.id === categoryId);
+    if (!previousCategory) return false;
+
+    const positionOf = (id: string | null) => (id === null ? null : categories.find(category => category.id === id)?.position);
+    const position = keyBetween(positionOf(previousCategoryId), positionOf(nextCategoryId));
+
+    setCategories(previous => sortCategories(previous.map(category =>
+      category.id === categoryId ? { ...category, position } : category
+    )));
+
+    try {
+      const { data: updated, error } = await withRetry(async () => {
+        const result = await supabase
+          .from('user_watchlist_categories')
+          .update({ position })
+          .eq('id', categoryId)
+          .eq('user_id', userId)
+          .select()
+          .single();
+
+        if (result.error) throw result.error;
+        return result;
+      });
+
+      if (error) throw error;
+
+      setCategories(previous => sortCategories(previous.map(category =>
+        category.id === categoryId ? (updated as UserWatchlistCategory) : category
+      )));
+
+      return true;
+    } catch (err) {
+      console.error('Error reordering categories:', err);
+
+      setCategories(previous => sortCategories(previous.map(category =>
+        category.id === categoryId ? previousCategory : category
+      )));
+
+      addError(createErrorMessage(
+        'Failed to reorder categories. Please try again.',
+        'error',
+        () => reorderCategory(categoryId, previousCategoryId, nextCategoryId),
+        'Retry'
+      ));
+
       return false;
     }
   };
@@ -156,6 +236,10 @@ export const useWatchlistCategories = (userId: string | null) => {
   const deleteCategory = async (categoryId: string) => {
     if (!userId) return false;
 
+    const previousCategory = categories.find(category => category.id === categoryId);
+
+    setCategories(previous => previous.filter(category => category.id !== categoryId));
+
     try {
       const { error } = await withRetry(async () => {
         const result = await supabase
@@ -163,47 +247,48 @@ export const useWatchlistCategories = (userId: string | null) => {
           .delete()
           .eq('id', categoryId)
           .eq('user_id', userId);
-        
+
         if (result.error) throw result.error;
         return result;
       });
 
       if (error) throw error;
 
-      // Refresh categories
-      await fetchCategories();
-      
+      // Its titles become uncategorized on the server
+      invalidateQuery(queryKeys.watchlist(userId));
+
       addError(createErrorMessage(
         'Category deleted successfully.',
         'info'
       ));
-      
+
       return true;
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error deleting category:', err);
-      
+
+      if (previousCategory) {
+        setCategories(previous => sortCategories([...previous.filter(category => category.id !== categoryId), previousCategory]));
+      }
+
       addError(createErrorMessage(
         'Failed to delete category. Please try again.',
         'error',
         () => deleteCategory(categoryId),
         'Retry'
       ));
-      
+
       return false;
     }
   };
 
-  useEffect(() => {
-    fetchCategories();
-  }, [userId]);
-
   return {
     categories,
     loading,
     error,
     createCategory,
     updateCategory,
+    reorderCategory,
     deleteCategory,
     refreshCategories: fetchCategories
   };
-};
\ No newline at end of file
+};
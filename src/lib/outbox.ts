@@ -0,0 +1,351 @@
+import { supabase } from './supabase';
+import { withRetry, isNetworkError } from '../utils/errorHandling';
+
+// Writes that must not be lost when the network drops. They are kept in
+// IndexedDB and replayed in the order they were made once the browser is
+// back online, including after a reload.
+
+export type OutboxMutation =
+  | {
+      kind: 'watch_progress';
+      userId: string;
+      movieId: number;
+      progressSeconds: number;
+      totalDurationSeconds: number;
+      lastWatchedAt: string;
+    }
+  | { kind: 'watchlist_add'; userId: string; movieId: number; categoryId: string | null; position?: string }
+  // Without a position the title keeps its place in the manual order
+  | { kind: 'watchlist_move'; userId: string; movieId: number; categoryId: string | null; position?: string }
+  | { kind: 'watchlist_remove'; userId: string; movieId: number }
+  | { kind: 'comment_add'; userId: string; movieId: number; commentId: string; commentText: string; createdAt: string }
+  | { kind: 'comment_delete'; userId: string; movieId: number; commentId: string };
+
+export type OutboxEntry = OutboxMutation & { id: number };
+
+export type OutboxResult = 'sent' | 'queued';
+
+
+// Servers that are down without the browser noticing get retried on a timer
+const RETRY_DELAY_MS = 30000;
+
+const DB_NAME = 'onaireplay';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let entries: OutboxEntry[] = [];
+let loadPromise: Promise<void> | null = null;
+let flushPromise: Promise<void> | null = null;
+let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+// The entry being replayed. New writes never fold into it: its old data is
+// already on the way, so they queue behind it instead.
+let sendingId: number | null = null;
+// Queued writes the server turned down on replay, until they are shown
+let rejections: OutboxEntry[] = [];
+const listeners = new Set<(entries: OutboxEntry[]) => void>();
+const rejectionListeners = new Set<() => void>();
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+const notify = () => {
+  listeners.forEach(listener => listener(entries));
+};
+
+const loadEntries = () => {
+  if (!loadPromise) {
+    loadPromise = withStore('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>)
+      .then(stored => {
+        // Keys are auto-incremented, so key order is the order writes were made
+        entries = stored.sort((a, b) => a.id - b.id);
+        notify();
+      })
+      .catch(err => {
+        console.error('Error loading the sync queue:', err);
+      });
+  }
+  return loadPromise;
+};
+
+const removeEntry = async (entry: OutboxEntry) => {
+  await withStore('readwrite', store => store.delete(entry.id));
+  entries = entries.filter(existing => existing.id !== entry.id);
+};
+
+const replaceEntry = async (entry: OutboxEntry) => {
+  await withStore('readwrite', store => store.put(entry));
+  entries = entries.map(existing => (existing.id === entry.id ? entry : existing));
+};
+
+const isSameWatchlistTitle = (entry: OutboxEntry, mutation: OutboxMutation) =>
+  entry.id !== sendingId &&
+  (entry.kind === 'watchlist_add' || entry.kind === 'watchlist_move' || entry.kind === 'watchlist_remove') &&
+  'movieId' in mutation &&
+  entry.userId === mutation.userId &&
+  entry.movieId === mutation.movieId;
+
+// Folds a new write into the queue. Progress keeps the furthest position,
+// a title's watchlist state keeps only its latest change, and deleting a
+// comment that never left the queue drops both.
+const enqueue = async (mutation: OutboxMutation) => {
+  await loadEntries();
+
+  if (mutation.kind === 'watch_progress') {
+    const pending = entries.find(entry =>
+      entry.id !== sendingId &&
+      entry.kind === 'watch_progress' && entry.userId === mutation.userId && entry.movieId === mutation.movieId
+    );
+    if (pending && pending.kind === 'watch_progress') {
+      await replaceEntry({
+        ...pending,
+        progressSeconds: Math.max(pending.progressSeconds, mutation.progressSeconds),
+        totalDurationSeconds: Math.max(pending.totalDurationSeconds, mutation.totalDurationSeconds),
+        lastWatchedAt: pending.lastWatchedAt > mutation.lastWatchedAt ? pending.lastWatchedAt : mutation.lastWatchedAt
+      });
+      notify();
+      return;
+    }
+  }
+
+  let queued = mutation;
+  if (mutation.kind === 'watchlist_add' || mutation.kind === 'watchlist_move' || mutation.kind === 'watchlist_remove') {
+    const pending = entries.filter(entry => isSameWatchlistTitle(entry, mutation));
+    // Moving a title whose add is still queued just changes the category it is added to
+    const queuedAdd = pending.find(entry => entry.kind === 'watchlist_add');
+    // A category change must not lose a reorder queued before it
+    const queuedPosition = pending.reduce<string | undefined>(
+      (position, entry) => ((entry.kind === 'watchlist_add' || entry.kind === 'watchlist_move') && entry.position) || position,
+      undefined
+    );
+    for (const entry of pending) {
+      await removeEntry(entry);
+    }
+    if (mutation.kind === 'watchlist_move') {
+      queued = {
+        ...mutation,
+        kind: queuedAdd ? 'watchlist_add' : 'watchlist_move',
+        position: mutation.position ?? queuedPosition
+      };
+    }
+  }
+
+  if (mutation.kind === 'comment_delete') {
+    const commentId = mutation.commentId;
+    const queuedComment = entries.find(entry =>
+      entry.id !== sendingId && entry.kind === 'comment_add' && entry.commentId === commentId
+    );
+    if (queuedComment) {
+      await removeEntry(queuedComment);
+      notify();
+      return;
+    }
+  }
+
+  const id = await withStore('readwrite', store => store.add(queued));
+  entries = [...entries, { ...queued, id: id as number }];
+  notify();
+};
+
+// The write itself, shared by the first attempt and by replays. Every kind is
+// safe to repeat: a replay after a lost response must not duplicate anything.
+const sendMutation = async (mutation: OutboxMutation, replay: boolean) => {
+  let result;
+
+  switch (mutation.kind) {
+    case 'watch_progress':
+      result = replay
+        ? await supabase.rpc('merge_watch_progress', {
+            p_movie_id: mutation.movieId,
+            p_progress_seconds: Math.floor(mutation.progressSeconds),
+            p_total_duration_seconds: Math.floor(mutation.totalDurationSeconds),
+            p_last_watched_at: mutation.lastWatchedAt
+          })
+        : await supabase
+            .from('user_watch_history')
+            .upsert({
+              user_id: mutation.userId,
+              movie_id: mutation.movieId,
+              progress_seconds: Math.floor(mutation.progressSeconds),
+              total_duration_seconds: Math.floor(mutation.totalDurationSeconds),
+              last_watched_at: mutation.lastWatchedAt
+            }, {
+              onConflict: 'user_id,movie_id'
+            });
+      break;
+    case 'watchlist_add':
+      result = await supabase
+        .from('user_watchlist')
+        .upsert({
+          user_id: mutation.userId,
+          movie_id: mutation.movieId,
+          category_id: mutation.categoryId,
+          ...(mutation.position && { position: mutation.position })
+        }, {
+          onConflict: 'user_id,movie_id'
+        });
+      break;
+    case 'watchlist_move':
+      result = await supabase
+        .from('user_watchlist')
+        .update({
+          category_id: mutation.categoryId,
+          ...(mutation.position && { position: mutation.position })
+        })
+        .eq('user_id', mutation.userId)
+        .eq('movie_id', mutation.movieId);
+      break;
+    case 'watchlist_remove':
+      result = await supabase
+        .from('user_watchlist')
+        .delete()
+        .eq('user_id', mutation.userId)
+        .eq('movie_id', mutation.movieId);
+      break;
+    case 'comment_add':
+      result = await supabase
+        .from('movie_comments')
+        .upsert({
+          id: mutation.commentId,
+          movie_id: mutation.movieId,
+          user_id: mutation.userId,
+          comment_text: mutation.commentText,
+          created_at: mutation.createdAt
+        }, {
+          onConflict: 'id',
+          ignoreDuplicates: true
+        });
+      break;
+    case 'comment_delete':
+      result = await supabase
+        .from('movie_comments')
+        .delete()
+        .eq('id', mutation.commentId)
+        .eq('user_id', mutation.userId); // Ensure user can only delete their own comments
+      break;
+  }
+
+  if (result.error) throw result.error;
+};
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Replays queued writes oldest first. A network failure stops the run and
+// keeps the rest for next time; a write the server rejects is dropped so it
+// cannot hold up everything queued behind it, and reported to the viewer.
+export const flushOutbox = () => {
+  if (!flushPromise) {
+    flushPromise = (async () => {
+      await loadEntries();
+      if (isOffline() || entries.length === 0) return;
+
+      const { data: { session } } = await supabase.auth.getSession();
+      const userId = session?.user.id;
+
+      // Writes queued by someone who has since signed out wait for them.
+      // Read the queue afresh each time: writes can be queued mid-run.
+      let entry = entries.find(queued => queued.userId === userId);
+      while (entry) {
+        sendingId = entry.id;
+        try {
+          await sendMutation(entry, true);
+        } catch (err) {
+          if (isNetworkError(err) || isOffline()) {
+            clearTimeout(retryTimeout);
+            retryTimeout = setTimeout(flushOutbox, RETRY_DELAY_MS);
+            return;
+          }
+          console.error('Dropping a queued change the server rejected:', err);
+          rejections = [...rejections, entry];
+          rejectionListeners.forEach(listener => listener());
+        } finally {
+          sendingId = null;
+        }
+        await removeEntry(entry);
+        notify();
+        entry = entries.find(queued => queued.userId === userId);
+      }
+    })()
+      .catch(err => {
+        console.error('Error replaying the sync queue:', err);
+      })
+      .finally(() => {
+        flushPromise = null;
+      });
+  }
+  return flushPromise;
+};
+
+// Sends a write straight away when nothing of this user's is queued ahead of
+// it, otherwise (or when the network fails) queues it behind the others.
+// Another account's leftovers are not replayed for this one, so they do not
+// count. Errors other than network failures are thrown as before.
+export const sendOrQueue = async (mutation: OutboxMutation): Promise<OutboxResult> => {
+  await loadEntries();
+
+  if (!isOffline() && !entries.some(entry => entry.userId === mutation.userId)) {
+    try {
+      await withRetry(() => sendMutation(mutation, false));
+      return 'sent';
+    } catch (err) {
+      if (!isNetworkError(err) && !isOffline()) throw err;
+    }
+  }
+
+  await enqueue(mutation);
+  flushOutbox();
+  return 'queued';
+};
+
+export const getOutboxEntries = () => entries;
+
+// Rejections not yet shown to the viewer; taking them clears the list
+export const takeOutboxRejections = () => {
+  const taken = rejections;
+  rejections = [];
+  return taken;
+};
+
+export const subscribeToOutboxRejections = (listener: () => void) => {
+  rejectionListeners.add(listener);
+  return () => {
+    rejectionListeners.delete(listener);
+  };
+};
+
+export const subscribeToOutbox = (listener: (entries: OutboxEntry[]) => void) => {
+  listeners.add(listener);
+  loadEntries();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    flushOutbox();
+  });
+  flushOutbox();
+}
@@ -0,0 +1,119 @@
+import { getErrorMessage } from '../utils/errorHandling';
+
+// One client-side copy of each user's data, shared by every hook instance
+// that reads it, so two screens showing the coin balance can never disagree.
+// Entries are keyed by resource and user; a fetch already in flight is
+// reused, and data older than its stale time is shown while it refreshes.
+
+export interface CacheEntry<T> {
+  data: T | undefined;
+  error: string | null;
+  updatedAt: number;
+  promise: Promise<T> | null;
+  fetcher: (() => Promise<T>) | null;
+}
+
+export interface FetchQueryOptions {
+  // Refetch even when the cached data is still fresh
+  force?: boolean;
+  staleTime?: number;
+}
+
+export const DEFAULT_STALE_TIME_MS = 30000;
+
+export const queryKeys = {
+  balance: (userId: string) => `balance:${userId}`,
+  unlocks: (userId: string) => `unlocks:${userId}`,
+  watchHistory: (userId: string) => `watch-history:${userId}`,
+  watchlist: (userId: string) => `watchlist:${userId}`,
+  watchlistCategories: (userId: string) => `watchlist-categories:${userId}`
+};
+
+const cache = new Map<string, CacheEntry<unknown>>();
+const listeners = new Map<string, Set<() => void>>();
+
+const getOrCreateEntry = <T>(key: string) => {
+  let entry = cache.get(key) as CacheEntry<T> | undefined;
+  if (!entry) {
+    entry = { data: undefined, error: null, updatedAt: 0, promise: null, fetcher: null };
+    cache.set(key, entry as CacheEntry<unknown>);
+  }
+  return entry;
+};
+
+const notify = (key: string) => {
+  listeners.get(key)?.forEach(listener => listener());
+};
+
+export const getQueryEntry = <T>(key: string) => cache.get(key) as CacheEntry<T> | undefined;
+
+export const fetchQuery = <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  { force = false, staleTime = DEFAULT_STALE_TIME_MS }: FetchQueryOptions = {}
+): Promise<T> => {
+  const entry = getOrCreateEntry<T>(key);
+  entry.fetcher = fetcher;
+
+  if (entry.promise) return entry.promise;
+  if (!force && entry.data !== undefined && Date.now() - entry.updatedAt < staleTime) {
+    return Promise.resolve(entry.data);
+  }
+
+  entry.promise = fetcher()
+    .then(data => {
+      entry.data = data;
+      entry.error = null;
+      entry.updatedAt = Date.now();
+      return data;
+    })
+    .catch(err => {
+      entry.error = getErrorMessage(err);
+      throw err;
+    })
+    .finally(() => {
+      entry.promise = null;
+      notify(key);
+    });
+
+  notify(key);
+  return entry.promise;
+};
+
+// Writes data straight into the cache, after a mutation whose result is known
+export const setQueryData = <T>(key: string, update: T | ((previous: T | undefined) => T)) => {
+  const entry = getOrCreateEntry<T>(key);
+  entry.data = typeof update === 'function'
+    ? (update as (previous: T | undefined) => T)(entry.data)
+    : update;
+  entry.error = null;
+  entry.updatedAt = Date.now();
+  notify(key);
+};
+
+// Marks an entry stale and refetches it if anything is showing it
+export const invalidateQuery = (key: string) => {
+  const entry = cache.get(key);
+  if (!entry) return Promise.resolve();
+
+  entry.updatedAt = 0;
+  if (!entry.fetcher || !listeners.get(key)?.size) return Promise.resolve();
+
+  return fetchQuery(key, entry.fetcher, { force: true }).then(
+    () => undefined,
+    () => undefined
+  );
+};
+
+export const subscribeQuery = (key: string, listener: () => void) => {
+  let keyListeners = listeners.get(key);
+  if (!keyListeners) {
+    keyListeners = new Set();
+    listeners.set(key, keyListeners);
+  }
+  keyListeners.add(listener);
+
+  return () => {
+    keyListeners.delete(listener);
+  };
+};
@@ -0,0 +1,55 @@
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// Postgres change feeds shared by name: hooks asking for the same table and
+// filter share one channel, which is removed when the last of them leaves.
+
+// Row interfaces have no index signature, which the client's payload type asks for
+export type ChangePayload<T extends object> = RealtimePostgresChangesPayload<T & Record<string, unknown>>;
+
+export interface TableChanges {
+  table: string;
+  // PostgREST-style filter such as `user_id=eq.<id>`; deletes ignore it
+  filter?: string;
+}
+
+interface SharedChannel {
+  channel: RealtimeChannel;
+  listeners: Set<(payload: ChangePayload<Record<string, unknown>>) => void>;
+}
+
+const channels = new Map<string, SharedChannel>();
+
+export const subscribeToChanges = <T extends object>(
+  name: string,
+  { table, filter }: TableChanges,
+  listener: (payload: ChangePayload<T>) => void
+) => {
+  let shared = channels.get(name);
+  if (!shared) {
+    const listeners: SharedChannel['listeners'] = new Set();
+    const channel = supabase
+      .channel(name)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter },
+        (payload: ChangePayload<Record<string, unknown>>) => listeners.forEach(notify => notify(payload))
+      )
+      .subscribe();
+
+    shared = { channel, listeners };
+    channels.set(name, shared);
+  }
+
+  const sharedChannel = shared;
+  const typedListener = listener as (payload: ChangePayload<Record<string, unknown>>) => void;
+  sharedChannel.listeners.add(typedListener);
+
+  return () => {
+    sharedChannel.listeners.delete(typedListener);
+    if (sharedChannel.listeners.size === 0) {
+      channels.delete(name);
+      supabase.removeChannel(sharedChannel.channel);
+    }
+  };
+};
@@ -15,3 +15,8 @@ if (!supabaseUrl || !supabaseAnonKey || supabaseUrl === 'https://placeholder.sup
 }
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+
+// For requests that must outlive the page (keepalive fetches on tab close),
+// which cannot go through the client
+export const supabaseRestUrl = `${supabaseUrl}/rest/v1`
+export { supabaseAnonKey }
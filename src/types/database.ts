@@ -2,23 +2,34 @@ export interface Movie {
   id: number;
   title: string;
   genre: string;
-  view_count: string;
+  view_count: number;
   poster_url: string;
   landscape_poster_url: string;
   video_url?: string;
+  manifest_url?: string;
   video_url_720p?: string;
   video_url_1080p?: string;
   video_url_4k?: string;
-  subtitle_url_en?: string;
-  subtitle_url_es?: string;
   series_id?: string;
+  season_id?: string | null;
+  // Counts across seasons, so it identifies an episode within its series
   episode_number?: number;
   badge?: 'Hot' | 'New' | 'Exclusive' | 'Discount' | null;
   synopsis?: string;
+  // Computed: the series' total for episodes, 1 for standalone movies
   episodes?: number;
   duration_seconds?: number;
   is_locked?: boolean;
   unlock_cost?: number;
+  intro_start_seconds?: number | null;
+  intro_end_seconds?: number | null;
+  recap_start_seconds?: number | null;
+  recap_end_seconds?: number | null;
+  credits_start_seconds?: number | null;
+  // Kept up to date from playback_events by refresh_movie_stats
+  trending_score_24h?: number;
+  trending_score_7d?: number;
+  completion_rate?: number | null;
   created_at: string;
   updated_at?: string;
 }
@@ -43,21 +54,77 @@ export interface MovieWithProgress extends Movie {
   is_unlocked?: boolean;
 }
 
+// One continue_watching row: the episode to resume, with its whole title's progress
+export interface ContinueWatchingItem extends MovieWithProgress {
+  series_title: string | null;
+  season_number: number | null;
+  season_episode_number: number | null;
+  completed_episodes: number;
+  completion_percent: number;
+  is_completed: boolean;
+}
+
 export interface UserWatchlistItem {
   id: string;
   user_id: string;
   movie_id: number;
   category_id?: string;
+  // Fractional index key for the viewer's manual order
+  position?: string | null;
   created_at: string;
   movie?: Movie;
   category?: UserWatchlistCategory;
 }
 
+// A saved title as the watchlist shows it
+export interface WatchlistMovie extends MovieWithProgress {
+  // The user_watchlist row; missing while a save made offline is queued
+  watchlist_item_id?: string;
+  category_id?: string | null;
+  category?: Pick<UserWatchlistCategory, 'id' | 'name' | 'color'> | null;
+  position?: string | null;
+  // When it was saved, as opposed to the title's own created_at
+  added_at: string;
+}
+
 export interface UserWatchlistCategory {
   id: string;
   user_id: string;
   name: string;
   color: string;
+  position?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SubtitleKind = 'subtitles' | 'captions';
+
+export interface MovieSubtitle {
+  id: string;
+  movie_id: number;
+  language: string;
+  label: string;
+  kind: SubtitleKind;
+  url: string;
+  is_default: boolean;
+  forced: boolean;
+  created_at: string;
+}
+
+export type SubtitleFontSize = 'small' | 'medium' | 'large' | 'x-large';
+export type SubtitleEdgeStyle = 'none' | 'outline' | 'drop-shadow' | 'raised' | 'depressed';
+export type SubtitlePosition = 'bottom' | 'raised' | 'top';
+
+export interface SubtitleStyle {
+  subtitle_font_size: SubtitleFontSize;
+  subtitle_color: string;
+  subtitle_background_opacity: number;
+  subtitle_edge_style: SubtitleEdgeStyle;
+  subtitle_position: SubtitlePosition;
+}
+
+export interface UserPlayerPreferences extends SubtitleStyle {
+  user_id: string;
   created_at: string;
   updated_at: string;
 }
@@ -81,6 +148,7 @@ export interface UserBalance {
 export interface Transaction {
   id: string;
   user_id: string;
+  package_id?: string | null;
   package_name: string;
   coins_granted: number;
   bonus_granted: number;
@@ -89,6 +157,7 @@ export interface Transaction {
   payment_method: string;
   stripe_checkout_session_id?: string;
   status: 'pending' | 'completed' | 'failed' | 'cancelled';
+  completed_at?: string | null;
   created_at: string;
 }
 
@@ -100,6 +169,32 @@ export interface UserEpisodeUnlock {
   created_at: string;
 }
 
+export type CoinLedgerEntryType = 'purchase' | 'bonus_grant' | 'unlock_spend' | 'refund' | 'admin_adjust' | 'expiry';
+
+export interface CoinLedgerEntry {
+  id: string;
+  user_id: string;
+  entry_type: CoinLedgerEntryType;
+  coins_delta: number;
+  bonus_delta: number;
+  coins_after: number;
+  bonus_after: number;
+  transaction_id?: string | null;
+  unlock_id?: string | null;
+  note?: string | null;
+  created_at: string;
+}
+
+export interface EpisodeUnlockResult {
+  unlock_id: string;
+  movie_id: number;
+  already_unlocked: boolean;
+  coins_spent: number;
+  bonus_spent: number;
+  coins: number;
+  bonus_coins: number;
+}
+
 export interface CoinPackage {
   id: string;
   name: string;
@@ -110,4 +205,119 @@ export interface CoinPackage {
   bonusPercentage?: number;
   isNewUserOffer?: boolean;
   isPopular?: boolean;
-}
\ No newline at end of file
+  endsAt?: string | null;
+}
+
+// Row returned by the get_coin_packages RPC
+export interface CoinPackageRow {
+  id: string;
+  name: string;
+  coins: number;
+  bonus: number;
+  price: number | string;
+  currency: string;
+  is_popular: boolean;
+  first_purchase_only: boolean;
+  ends_at: string | null;
+  sort_order: number;
+}
+// Row returned by the search_movies RPC
+export interface MovieSearchResult extends Movie {
+  rank: number;
+  // Synopsis excerpt with matches wrapped in SEARCH_HIGHLIGHT_START/END
+  snippet: string | null;
+  total_count: number;
+}
+
+export interface MovieSearchFilters {
+  genre?: string;
+  badge?: string;
+  // Tag slugs; a result must carry all of them
+  tags?: string[];
+}
+
+export type TagType = 'theme' | 'mood' | 'trope' | 'audience';
+
+export interface Tag {
+  id: string;
+  slug: string;
+  name: string;
+  tag_type: TagType;
+  sort_order: number;
+  created_at: string;
+}
+
+// How several selected tags combine: any one of them, or all of them
+export type TagMatchMode = 'any' | 'all';
+
+export type BrowseSort = 'popularity' | 'newest' | 'oldest' | 'alphabetical' | 'episodes';
+
+// Filters understood by the browse_movies RPC
+export interface BrowseFilters {
+  genre?: string;
+  badge?: string;
+  tags?: string[];
+  tag_match?: TagMatchMode;
+}
+
+export type HomeRailSource = 'trending' | 'newest' | 'tag' | 'genre' | 'editorial' | 'personalised';
+
+export interface HomeRail {
+  id: string;
+  slug: string;
+  title: string;
+  source_type: HomeRailSource;
+  // Tag slug or genre for tag and genre rails
+  source_value: string | null;
+  sort_order: number;
+  // Locales the rail is shown in; null shows it everywhere
+  locales: string[] | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export type PlaybackEventType = 'start' | 'quartile_25' | 'quartile_50' | 'quartile_75' | 'quartile_100' | 'complete';
+
+export type RecommendationSeedSource = 'watched' | 'watchlist';
+
+// One row of recommended_rails: a recommended title and the seed it came from
+export interface RecommendationRow extends Movie {
+  seed_movie_id: number;
+  seed_title: string;
+  seed_source: RecommendationSeedSource;
+  score: number;
+}
+
+export interface RecommendationRail {
+  seedMovieId: number;
+  seedTitle: string;
+  seedSource: RecommendationSeedSource;
+  movies: Movie[];
+}
+
+export type SeriesStatus = 'ongoing' | 'completed' | 'upcoming';
+
+export interface Series {
+  id: string;
+  title: string;
+  synopsis: string | null;
+  genre: string | null;
+  poster_url: string | null;
+  landscape_poster_url: string | null;
+  status: SeriesStatus;
+  season_count: number;
+  total_episodes: number;
+  first_episode_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Season {
+  id: string;
+  series_id: string;
+  season_number: number;
+  title: string | null;
+  synopsis: string | null;
+  episode_count: number;
+  created_at: string;
+}
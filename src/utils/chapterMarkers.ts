@@ -0,0 +1,76 @@
+import { Movie } from '../types/database';
+
+export type SkippableChapter = 'intro' | 'recap';
+
+export interface SkipWindow {
+  chapter: SkippableChapter;
+  label: string;
+  start: number;
+  end: number;
+}
+
+export interface MarkerTick {
+  key: string;
+  label: string;
+  seconds: number;
+}
+
+const isMarker = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const buildWindow = (
+  chapter: SkippableChapter,
+  label: string,
+  start: number | null | undefined,
+  end: number | null | undefined
+): SkipWindow | null => {
+  if (!isMarker(start) || !isMarker(end) || end <= start) return null;
+  return { chapter, label, start, end };
+};
+
+export const getSkipWindows = (movie: Movie): SkipWindow[] =>
+  [
+    buildWindow('recap', 'Skip Recap', movie.recap_start_seconds, movie.recap_end_seconds),
+    buildWindow('intro', 'Skip Intro', movie.intro_start_seconds, movie.intro_end_seconds)
+  ].filter((skipWindow): skipWindow is SkipWindow => skipWindow !== null);
+
+// Window the playhead is currently inside, if any
+export const findActiveSkipWindow = (windows: SkipWindow[], time: number) =>
+  windows.find(skipWindow => time >= skipWindow.start && time < skipWindow.end) || null;
+
+// Credits only count when they start before the end, otherwise the natural end applies
+export const getCreditsStart = (movie: Movie, duration: number): number | null => {
+  const start = movie.credits_start_seconds;
+  if (!isMarker(start) || duration <= 0 || start >= duration) return null;
+  return start;
+};
+
+// Chapter boundaries drawn on the seek bar
+export const getMarkerTicks = (movie: Movie, duration: number): MarkerTick[] => {
+  if (duration <= 0) return [];
+
+  const ticks: MarkerTick[] = [];
+  getSkipWindows(movie).forEach(skipWindow => {
+    const name = skipWindow.chapter === 'intro' ? 'Intro' : 'Recap';
+    ticks.push({ key: `${skipWindow.chapter}-start`, label: name, seconds: skipWindow.start });
+    ticks.push({ key: `${skipWindow.chapter}-end`, label: `${name} ends`, seconds: skipWindow.end });
+  });
+
+  const creditsStart = getCreditsStart(movie, duration);
+  if (creditsStart !== null) {
+    ticks.push({ key: 'credits-start', label: 'Credits', seconds: creditsStart });
+  }
+
+  // A marker at 0 sits under the thumb's resting place and adds nothing
+  return ticks.filter(tick => tick.seconds > 0 && tick.seconds < duration);
+};
+
+// Share of the runtime after which a title counts as watched without credits markers
+export const FINISHED_FRACTION = 0.95;
+
+// Mirrors is_finished_position in the database: inside the last 5% or the credits
+export const isFinishedPosition = (movie: Movie, position: number, duration: number) => {
+  if (duration <= 0) return false;
+  const creditsStart = getCreditsStart(movie, duration);
+  return position >= duration * FINISHED_FRACTION || (creditsStart !== null && position >= creditsStart);
+};
@@ -58,13 +58,19 @@ export const getErrorMessage = (error: unknown): string => {
   return 'An unexpected error occurred';
 };
 
+// Supabase reports failed requests as plain objects rather than Errors, so
+// anything carrying a message is checked
 export const isNetworkError = (error: unknown): boolean => {
-  if (error instanceof Error) {
+  if (error instanceof Error && error.name === 'NetworkError') {
+    return true;
+  }
+
+  if (error instanceof Error || (error && typeof error === 'object' && 'message' in error)) {
+    const message = getErrorMessage(error).toLowerCase();
     return (
-      error.message.toLowerCase().includes('network') ||
-      error.message.toLowerCase().includes('fetch') ||
-      error.message.toLowerCase().includes('connection') ||
-      error.name === 'NetworkError'
+      message.includes('network') ||
+      message.includes('fetch') ||
+      message.includes('connection')
     );
   }
   return false;
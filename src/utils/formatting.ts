@@ -0,0 +1,50 @@
+import { ContinueWatchingItem } from '../types/database';
+
+const VIEW_COUNT_UNITS = [
+  { value: 1000000000, suffix: 'B' },
+  { value: 1000000, suffix: 'M' },
+  { value: 1000, suffix: 'K' }
+];
+
+// 2800000 -> "2.8M", 890000 -> "890K", 950 -> "950"
+export const formatViewCount = (count: number | null | undefined): string => {
+  const value = Number(count) || 0;
+
+  for (const unit of VIEW_COUNT_UNITS) {
+    if (value >= unit.value) {
+      const scaled = value / unit.value;
+      // One decimal below 100 ("1.2M"), none above ("250M")
+      const rounded = scaled < 100 ? Math.floor(scaled * 10) / 10 : Math.floor(scaled);
+      return `${rounded}${unit.suffix}`;
+    }
+  }
+
+  return value.toLocaleString();
+};
+
+// 1 -> "1 episode", 12 -> "12 episodes"
+export const formatEpisodeCount = (count: number | null | undefined): string => {
+  const value = Number(count) || 0;
+  return `${value} ${value === 1 ? 'episode' : 'episodes'}`;
+};
+
+// 725 -> "13 min left"; anything under a minute still reads "1 min left"
+export const formatTimeLeft = (seconds: number): string =>
+  `${Math.max(Math.ceil(seconds / 60), 1)} min left`;
+
+// "S1:E7 · 12 min left" for series, "12 min left" for movies
+export const formatResumePosition = (item: ContinueWatchingItem): string => {
+  if (item.is_completed) return 'Watched';
+
+  const remainingSeconds = Math.max((item.total_duration_seconds || 0) - (item.progress_seconds || 0), 0);
+  const timeLeft = formatTimeLeft(remainingSeconds);
+
+  if (item.series_id && item.season_number && item.season_episode_number) {
+    return `S${item.season_number}:E${item.season_episode_number} · ${timeLeft}`;
+  }
+  return timeLeft;
+};
+
+// "2 changes waiting to sync" while writes made offline are queued
+export const formatPendingSync = (count: number): string =>
+  `${count} ${count === 1 ? 'change' : 'changes'} waiting to sync`;
@@ -0,0 +1,52 @@
+// Fractional index keys for lists the viewer orders by hand. A key is a
+// string of base-62 digits read as a fraction, so a new key always fits
+// between two others and moving one item only changes that item's key.
+// Keys compare as plain strings, the same as the "C" collation they are
+// stored with. None ends in '0', which keeps every gap open.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// `a` (empty for the start) must sort before `b` (null for the end)
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    let shared = 0;
+    while ((a[shared] || '0') === b[shared]) shared++;
+    if (shared > 0) return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // Adjacent digits: keep the lower one and split what follows it
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+// A key between `before` and `after`; null means the start or end of the
+// list. Keys that arrive out of order, say after two devices picked the
+// same key, are treated as if `after` were the end.
+export const keyBetween = (before: string | null | undefined, after: string | null | undefined) => {
+  const lower = before || '';
+  const upper = after && after > lower ? after : null;
+  return midpoint(lower, upper);
+};
+
+// Ascending by key, with items that have none after the rest
+export const comparePositions = (a: string | null | undefined, b: string | null | undefined) => {
+  if (a === b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  return a < b ? -1 : 1;
+};
+
+// The items either side of `fromIndex` once it has moved to `toIndex`
+export const neighboursAfterMove = <T>(items: T[], fromIndex: number, toIndex: number) => {
+  const rest = items.filter((_, index) => index !== fromIndex);
+  return {
+    previous: rest[toIndex - 1] ?? null,
+    next: rest[toIndex] ?? null
+  };
+};
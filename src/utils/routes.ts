@@ -0,0 +1,130 @@
+import { TagMatchMode } from '../types/database';
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'browse'; tags: string[]; match: TagMatchMode }
+  | { name: 'title'; movieId: number }
+  | { name: 'watch'; movieId: number; startTime?: number }
+  | { name: 'episode'; seriesId: string; episodeNumber: number; startTime?: number }
+  | { name: 'signIn' }
+  | { name: 'watchHistory' }
+  | { name: 'watchlist'; categoryId?: string }
+  | { name: 'profile' }
+  | { name: 'transactionHistory' };
+
+export type RouteName = Route['name'];
+
+// Routes that point at a single movie or episode
+export type MovieRoute = Extract<Route, { name: 'title' | 'watch' | 'episode' }>;
+
+// Routes that open over the page the user came from instead of replacing it
+const MODAL_ROUTES: RouteName[] = ['title', 'watch', 'episode', 'signIn'];
+
+// Pages that are only available to signed-in users
+const PROTECTED_ROUTES: RouteName[] = ['watchHistory', 'watchlist', 'profile', 'transactionHistory'];
+
+export const isModalRoute = (route: Route) => MODAL_ROUTES.includes(route.name);
+
+export const requiresAuth = (route: Route) => PROTECTED_ROUTES.includes(route.name);
+
+export const isMovieRoute = (route: Route): route is MovieRoute =>
+  route.name === 'title' || route.name === 'watch' || route.name === 'episode';
+
+const parseStartTime = (search: string): number | undefined => {
+  const t = Number(new URLSearchParams(search).get('t'));
+  return Number.isFinite(t) && t > 0 ? t : undefined;
+};
+
+const withStartTime = (path: string, startTime?: number) =>
+  startTime ? `${path}?t=${Math.floor(startTime)}` : path;
+
+// ?tags=ceo,revenge&match=all; any-of is the default and stays out of the URL
+const parseBrowse = (search: string): Route => {
+  const params = new URLSearchParams(search);
+  const tags = (params.get('tags') || '').split(',').map(tag => tag.trim()).filter(Boolean);
+  return { name: 'browse', tags, match: params.get('match') === 'all' ? 'all' : 'any' };
+};
+
+const buildBrowsePath = (tags: string[], match: TagMatchMode) => {
+  const params = new URLSearchParams();
+  if (tags.length > 0) params.set('tags', tags.join(','));
+  if (match === 'all' && tags.length > 1) params.set('match', 'all');
+  const search = params.toString().replace(/%2C/g, ',');
+  return search ? `/browse?${search}` : '/browse';
+};
+
+export const parseRoute = (pathname: string, search: string = ''): Route => {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed escapes such as /watchlist/%E0%A4%A would otherwise throw while rendering
+    return { name: 'home' };
+  }
+
+  switch (segments[0]) {
+    case 'browse':
+      return parseBrowse(search);
+    case 'title': {
+      const movieId = Number(segments[1]);
+      if (segments.length === 2 && Number.isInteger(movieId)) {
+        return { name: 'title', movieId };
+      }
+      break;
+    }
+    case 'watch': {
+      const movieId = Number(segments[1]);
+      if (segments.length === 2 && Number.isInteger(movieId)) {
+        return { name: 'watch', movieId, startTime: parseStartTime(search) };
+      }
+      break;
+    }
+    case 'series': {
+      const episodeNumber = Number(segments[3]);
+      if (segments.length === 4 && segments[2] === 'ep' && Number.isInteger(episodeNumber) && episodeNumber > 0) {
+        return { name: 'episode', seriesId: segments[1], episodeNumber, startTime: parseStartTime(search) };
+      }
+      break;
+    }
+    case 'signin':
+      return { name: 'signIn' };
+    case 'history':
+      return { name: 'watchHistory' };
+    case 'watchlist':
+      return segments[1] ? { name: 'watchlist', categoryId: segments[1] } : { name: 'watchlist' };
+    case 'profile':
+      return { name: 'profile' };
+    case 'wallet':
+      if (segments[1] === 'transactions') {
+        return { name: 'transactionHistory' };
+      }
+      break;
+  }
+
+  return { name: 'home' };
+};
+
+export const buildPath = (route: Route): string => {
+  switch (route.name) {
+    case 'browse':
+      return buildBrowsePath(route.tags, route.match);
+    case 'title':
+      return `/title/${route.movieId}`;
+    case 'watch':
+      return withStartTime(`/watch/${route.movieId}`, route.startTime);
+    case 'episode':
+      return withStartTime(`/series/${encodeURIComponent(route.seriesId)}/ep/${route.episodeNumber}`, route.startTime);
+    case 'signIn':
+      return '/signin';
+    case 'watchHistory':
+      return '/history';
+    case 'watchlist':
+      return route.categoryId ? `/watchlist/${encodeURIComponent(route.categoryId)}` : '/watchlist';
+    case 'profile':
+      return '/profile';
+    case 'transactionHistory':
+      return '/wallet/transactions';
+    default:
+      return '/';
+  }
+};
@@ -0,0 +1,28 @@
+// search_movies marks matches with control characters rather than HTML, so
+// snippets can be rendered as text without trusting markup from the database
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_END = '\u0003';
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export const splitHighlights = (text: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let highlighted = false;
+  let current = '';
+
+  for (const char of text) {
+    if (char === SEARCH_HIGHLIGHT_START || char === SEARCH_HIGHLIGHT_END) {
+      if (current) segments.push({ text: current, highlighted });
+      current = '';
+      highlighted = char === SEARCH_HIGHLIGHT_START;
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) segments.push({ text: current, highlighted });
+  return segments;
+};
@@ -0,0 +1,143 @@
+import { MovieSubtitle, SubtitleStyle, SubtitleFontSize, SubtitleEdgeStyle, SubtitlePosition } from '../types/database';
+
+const PREFERRED_LANGUAGE_KEY = 'onaireplay:subtitle-language';
+
+// 'off' is remembered too, so turning subtitles off sticks across titles
+export const SUBTITLES_OFF = 'off';
+
+export const isSrtUrl = (url: string) => url.split(/[?#]/)[0].toLowerCase().endsWith('.srt');
+
+// SubRip differs from WebVTT in the header, the comma before milliseconds and
+// the numeric cue counters, which VTT treats as optional cue identifiers.
+export const srtToVtt = (srt: string): string => {
+  const body = srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2')
+    .trim();
+
+  return `WEBVTT\n\n${body}\n`;
+};
+
+export const getPreferredSubtitleLanguage = (): string | null => {
+  try {
+    return localStorage.getItem(PREFERRED_LANGUAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setPreferredSubtitleLanguage = (language: string) => {
+  try {
+    localStorage.setItem(PREFERRED_LANGUAGE_KEY, language);
+  } catch {
+    // Storage can be disabled; the choice then only lasts for this title
+  }
+};
+
+const primarySubtag = (language: string) => language.toLowerCase().split('-')[0];
+
+const findByLanguage = (tracks: MovieSubtitle[], language: string) =>
+  tracks.find(track => track.language.toLowerCase() === language.toLowerCase()) ||
+  tracks.find(track => primarySubtag(track.language) === primarySubtag(language));
+
+// Track to show when a title starts: the remembered language, else the
+// title's default track, else none
+export const pickInitialSubtitle = (tracks: MovieSubtitle[], preferredLanguage: string | null): MovieSubtitle | null => {
+  const selectable = tracks.filter(track => !track.forced);
+
+  if (preferredLanguage === SUBTITLES_OFF) return null;
+  if (preferredLanguage) {
+    const preferred = findByLanguage(selectable, preferredLanguage);
+    if (preferred) return preferred;
+  }
+
+  return selectable.find(track => track.is_default) || null;
+};
+
+// Forced narrative track that stays on while regular subtitles are off
+export const pickForcedSubtitle = (tracks: MovieSubtitle[], preferredLanguage: string | null): MovieSubtitle | null => {
+  const forced = tracks.filter(track => track.forced);
+  if (forced.length === 0) return null;
+
+  const language = preferredLanguage && preferredLanguage !== SUBTITLES_OFF
+    ? preferredLanguage
+    : navigator.language;
+
+  return findByLanguage(forced, language) || forced.find(track => track.is_default) || null;
+};
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  subtitle_font_size: 'medium',
+  subtitle_color: '#FFFFFF',
+  subtitle_background_opacity: 0.75,
+  subtitle_edge_style: 'none',
+  subtitle_position: 'bottom'
+};
+
+// The player fills the viewport, so vh tracks the video height
+const FONT_SIZES: Record<SubtitleFontSize, string> = {
+  small: '3vh',
+  medium: '4.5vh',
+  large: '6vh',
+  'x-large': '8vh'
+};
+
+const EDGE_SHADOWS: Record<SubtitleEdgeStyle, string> = {
+  none: 'none',
+  outline: '-1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000',
+  'drop-shadow': '2px 2px 3px rgba(0, 0, 0, 0.9)',
+  raised: '-1px -1px 0 rgba(255, 255, 255, 0.4), 1px 1px 0 #000',
+  depressed: '1px 1px 0 rgba(255, 255, 255, 0.4), -1px -1px 0 #000'
+};
+
+// Line position as a percentage from the top; bottom keeps the file's own layout
+const CUE_LINES: Record<SubtitlePosition, number | null> = {
+  bottom: null,
+  raised: 75,
+  top: 10
+};
+
+// ::cue only accepts a handful of properties, and position is not one of them
+export const buildCueCss = (selector: string, style: SubtitleStyle) => `
+  ${selector}::cue {
+    font-size: ${FONT_SIZES[style.subtitle_font_size]};
+    color: ${style.subtitle_color};
+    background-color: rgba(0, 0, 0, ${style.subtitle_background_opacity});
+    text-shadow: ${EDGE_SHADOWS[style.subtitle_edge_style]};
+  }
+`;
+
+interface CueTiming {
+  startTime: number;
+  endTime: number;
+  line: VTTCue['line'];
+  snapToLines: boolean;
+}
+
+// Authored timing and layout, so adjustments are always applied from the original
+const originalCues = new WeakMap<VTTCue, CueTiming>();
+
+// Re-time and re-position the cues of a loaded track in place
+export const adjustTrackCues = (track: TextTrack, offsetSeconds: number, position: SubtitlePosition) => {
+  if (!track.cues) return;
+
+  const line = CUE_LINES[position];
+
+  Array.from(track.cues).forEach(textTrackCue => {
+    const cue = textTrackCue as VTTCue;
+    let original = originalCues.get(cue);
+    if (!original) {
+      original = { startTime: cue.startTime, endTime: cue.endTime, line: cue.line, snapToLines: cue.snapToLines };
+      originalCues.set(cue, original);
+    }
+
+    cue.startTime = Math.max(0, original.startTime + offsetSeconds);
+    cue.endTime = Math.max(0, original.endTime + offsetSeconds);
+
+    if ('line' in cue) {
+      cue.snapToLines = line === null ? original.snapToLines : false;
+      cue.line = line === null ? original.line : line;
+    }
+  });
+};
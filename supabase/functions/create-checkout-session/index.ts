@@ -0,0 +1,131 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createStripeClient } from '../_shared/stripe.ts';
+
+const PAYMENT_METHOD_TYPES: Record<string, ('card' | 'paypal')[]> = {
+  credit_card: ['card'],
+  paypal: ['paypal'],
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return jsonResponse({ error: 'Missing authorization header' }, 401);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const adminClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401);
+  }
+
+  let transactionId: string | undefined;
+  try {
+    ({ transaction_id: transactionId } = await req.json());
+  } catch {
+    return jsonResponse({ error: 'Invalid request body' }, 400);
+  }
+
+  // Read through the caller's client so RLS guarantees they own the transaction
+  const { data: transaction, error: transactionError } = await userClient
+    .from('transactions')
+    .select('*')
+    .eq('id', transactionId)
+    .maybeSingle();
+
+  if (transactionError || !transaction) {
+    return jsonResponse({ error: 'Transaction not found' }, 404);
+  }
+
+  if (transaction.status !== 'pending' || transaction.stripe_checkout_session_id) {
+    return jsonResponse({ error: 'Transaction has already been submitted' }, 409);
+  }
+
+  // The client picks the package; the price, grant and eligibility always come
+  // from the catalog. Claiming marks the checkout as started under a per-user
+  // lock, so a second checkout opened at the same time sees it in the limits.
+  const { data: coinPackage, error: packageError } = await adminClient
+    .rpc('claim_coin_package', {
+      p_user_id: user.id,
+      p_package_id: transaction.package_id,
+      p_currency: transaction.currency,
+      p_transaction_id: transaction.id,
+    })
+    .maybeSingle();
+
+  // Another request claimed this transaction first
+  if (packageError?.code === '22023') {
+    return jsonResponse({ error: 'Transaction has already been submitted' }, 409);
+  }
+
+  if (packageError) {
+    console.error('Error resolving coin package:', packageError);
+    return jsonResponse({ error: 'Failed to load coin package' }, 500);
+  }
+
+  const matchesCatalog = coinPackage
+    && coinPackage.coins === transaction.coins_granted
+    && coinPackage.bonus === transaction.bonus_granted
+    && Number(coinPackage.price) === Number(transaction.amount_paid);
+
+  const paymentMethodTypes = PAYMENT_METHOD_TYPES[transaction.payment_method];
+
+  if (!coinPackage || !matchesCatalog || !paymentMethodTypes) {
+    await adminClient.rpc('fail_coin_purchase', { p_transaction_id: transaction.id, p_status: 'failed' });
+    return jsonResponse({ error: 'Transaction does not match an available coin package' }, 422);
+  }
+
+  const siteUrl = Deno.env.get('SITE_URL') || req.headers.get('origin') || '';
+
+  try {
+    const stripe = createStripeClient();
+    const session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      payment_method_types: paymentMethodTypes,
+      customer_email: user.email,
+      client_reference_id: transaction.id,
+      metadata: {
+        transaction_id: transaction.id,
+        user_id: user.id,
+      },
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: coinPackage.currency.toLowerCase(),
+            unit_amount: Math.round(Number(coinPackage.price) * 100),
+            product_data: { name: coinPackage.name },
+          },
+        },
+      ],
+      success_url: `${siteUrl}/wallet/transactions?checkout=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${siteUrl}/profile?checkout=cancelled`,
+    });
+
+    const { error: updateError } = await adminClient
+      .from('transactions')
+      .update({ stripe_checkout_session_id: session.id })
+      .eq('id', transaction.id);
+
+    if (updateError) throw updateError;
+
+    return jsonResponse({ url: session.url, session_id: session.id });
+  } catch (err) {
+    console.error('Error creating checkout session:', err);
+    await adminClient.rpc('fail_coin_purchase', { p_transaction_id: transaction.id, p_status: 'failed' });
+    return jsonResponse({ error: 'Failed to create checkout session' }, 500);
+  }
+});
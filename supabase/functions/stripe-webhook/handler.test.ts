@@ -0,0 +1,155 @@
+/*
+  Drives the webhook handler with signed fixture payloads, a Stripe client
+  that checks signatures without the SDK, and an in-memory purchase store
+  that settles the way complete_coin_purchase does.
+
+    deno test --allow-read supabase/functions/stripe-webhook/
+*/
+import { assertEquals } from 'jsr:@std/assert@1';
+import { signStripePayload } from '../_shared/stripeSignature.ts';
+import { createWebhookHandler, PurchaseStore, StripeWebhookClient } from './handler.ts';
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+const TRANSACTION_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const SESSION_ID = 'cs_test_fixture';
+
+interface StoredTransaction {
+  status: 'pending' | 'completed' | 'failed' | 'cancelled';
+  sessionId: string;
+  credits: number;
+}
+
+// Verifies `t=...,v1=...` against the payload like the SDK, then parses it
+const stripe: StripeWebhookClient = {
+  webhooks: {
+    constructEventAsync: async (payload, signature, secret) => {
+      const timestamp = Number(/(?:^|,)t=(\d+)/.exec(signature)?.[1]);
+      if (!timestamp || signature !== await signStripePayload(payload, secret, timestamp)) {
+        throw new Error('No signatures found matching the expected signature for payload');
+      }
+      return JSON.parse(payload);
+    },
+  },
+};
+
+// Same rules as the SQL: only pending transactions settle, and only once
+const createPurchaseStore = (transactions: Map<string, StoredTransaction>): PurchaseStore => ({
+  completePurchase: async (transactionId, sessionId) => {
+    const transaction = transactions.get(transactionId);
+    if (!transaction) throw new Error('Transaction not found');
+    if (transaction.sessionId !== sessionId) throw new Error('Checkout session does not match transaction');
+    if (transaction.status !== 'pending') return false;
+
+    transaction.status = 'completed';
+    transaction.credits += 1;
+    return true;
+  },
+  failPurchase: async (transactionId, status) => {
+    const transaction = transactions.get(transactionId);
+    if (!transaction || transaction.status !== 'pending') return false;
+
+    transaction.status = status;
+    return true;
+  },
+});
+
+const setup = () => {
+  const transactions = new Map<string, StoredTransaction>([
+    [TRANSACTION_ID, { status: 'pending', sessionId: SESSION_ID, credits: 0 }],
+  ]);
+  const handler = createWebhookHandler({
+    stripe,
+    purchases: createPurchaseStore(transactions),
+    webhookSecret: WEBHOOK_SECRET,
+  });
+  return { handler, transaction: transactions.get(TRANSACTION_ID)! };
+};
+
+const loadFixture = async (name: string) => {
+  const template = await Deno.readTextFile(new URL(`./fixtures/${name}.json`, import.meta.url));
+  return template
+    .replaceAll('{{TRANSACTION_ID}}', TRANSACTION_ID)
+    .replaceAll('{{SESSION_ID}}', SESSION_ID);
+};
+
+const signedRequest = async (payload: string, secret: string = WEBHOOK_SECRET) =>
+  new Request('http://localhost/functions/v1/stripe-webhook', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': await signStripePayload(payload, secret),
+    },
+    body: payload,
+  });
+
+Deno.test('a paid checkout.session.completed credits the purchase', async () => {
+  const { handler, transaction } = setup();
+
+  const response = await handler(await signedRequest(await loadFixture('checkout.session.completed')));
+
+  assertEquals(response.status, 200);
+  assertEquals(await response.json(), { received: true });
+  assertEquals(transaction.status, 'completed');
+  assertEquals(transaction.credits, 1);
+});
+
+Deno.test('a redelivered event is acknowledged without crediting twice', async () => {
+  const { handler, transaction } = setup();
+  const payload = await loadFixture('checkout.session.completed');
+
+  const first = await handler(await signedRequest(payload));
+  const second = await handler(await signedRequest(payload));
+
+  assertEquals(first.status, 200);
+  assertEquals(second.status, 200);
+  assertEquals(transaction.credits, 1);
+});
+
+Deno.test('a completion after the session expired credits nothing', async () => {
+  const { handler, transaction } = setup();
+
+  await handler(await signedRequest(await loadFixture('checkout.session.expired')));
+  const response = await handler(await signedRequest(await loadFixture('checkout.session.completed')));
+
+  assertEquals(response.status, 200);
+  assertEquals(transaction.status, 'cancelled');
+  assertEquals(transaction.credits, 0);
+});
+
+Deno.test('a payload signed with another secret is rejected', async () => {
+  const { handler, transaction } = setup();
+
+  const response = await handler(await signedRequest(await loadFixture('checkout.session.completed'), 'whsec_wrong'));
+
+  assertEquals(response.status, 400);
+  assertEquals(await response.json(), { error: 'Invalid signature' });
+  assertEquals(transaction.status, 'pending');
+  assertEquals(transaction.credits, 0);
+});
+
+Deno.test('a payload changed after signing is rejected', async () => {
+  const { handler, transaction } = setup();
+  const payload = await loadFixture('checkout.session.completed');
+  const request = await signedRequest(payload);
+
+  const response = await handler(new Request(request.url, {
+    method: 'POST',
+    headers: request.headers,
+    body: payload.replace('"paid"', '"unpaid"'),
+  }));
+
+  assertEquals(response.status, 400);
+  assertEquals(transaction.credits, 0);
+});
+
+Deno.test('a request without a signature is rejected', async () => {
+  const { handler, transaction } = setup();
+
+  const response = await handler(new Request('http://localhost/functions/v1/stripe-webhook', {
+    method: 'POST',
+    body: await loadFixture('checkout.session.completed'),
+  }));
+
+  assertEquals(response.status, 400);
+  assertEquals(transaction.credits, 0);
+});
@@ -0,0 +1,97 @@
+export interface CheckoutSessionObject {
+  id: string;
+  client_reference_id?: string | null;
+  metadata?: Record<string, string> | null;
+  payment_status?: string;
+}
+
+export interface StripeWebhookEvent {
+  id: string;
+  type: string;
+  data: { object: CheckoutSessionObject };
+}
+
+// The slice of the Stripe SDK the webhook needs, so it can be replaced by a mock
+export interface StripeWebhookClient {
+  webhooks: {
+    constructEventAsync(payload: string, signature: string, secret: string): Promise<unknown>;
+  };
+}
+
+export interface PurchaseStore {
+  completePurchase(transactionId: string, sessionId: string): Promise<boolean>;
+  failPurchase(transactionId: string, status: 'failed' | 'cancelled'): Promise<boolean>;
+}
+
+interface WebhookHandlerOptions {
+  stripe: StripeWebhookClient;
+  purchases: PurchaseStore;
+  webhookSecret: string;
+}
+
+const respond = (body: unknown, status: number = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const getTransactionId = (session: CheckoutSessionObject) =>
+  session.metadata?.transaction_id || session.client_reference_id || null;
+
+export const createWebhookHandler = ({ stripe, purchases, webhookSecret }: WebhookHandlerOptions) =>
+  async (req: Request): Promise<Response> => {
+    if (req.method !== 'POST') {
+      return respond({ error: 'Method not allowed' }, 405);
+    }
+
+    const signature = req.headers.get('Stripe-Signature');
+    if (!signature) {
+      return respond({ error: 'Missing Stripe-Signature header' }, 400);
+    }
+
+    // Signature checks need the exact bytes Stripe sent
+    const payload = await req.text();
+
+    let event: StripeWebhookEvent;
+    try {
+      event = await stripe.webhooks.constructEventAsync(payload, signature, webhookSecret) as StripeWebhookEvent;
+    } catch (err) {
+      console.error('Stripe signature verification failed:', err);
+      return respond({ error: 'Invalid signature' }, 400);
+    }
+
+    const session = event.data.object;
+    const transactionId = getTransactionId(session);
+
+    try {
+      switch (event.type) {
+        case 'checkout.session.completed':
+          // Delayed payment methods complete the session before the money arrives
+          if (session.payment_status !== 'paid') break;
+          if (!transactionId) throw new Error(`Session ${session.id} has no transaction id`);
+          await purchases.completePurchase(transactionId, session.id);
+          break;
+        case 'checkout.session.async_payment_succeeded':
+          if (!transactionId) throw new Error(`Session ${session.id} has no transaction id`);
+          await purchases.completePurchase(transactionId, session.id);
+          break;
+        case 'checkout.session.async_payment_failed':
+          if (!transactionId) throw new Error(`Session ${session.id} has no transaction id`);
+          await purchases.failPurchase(transactionId, 'failed');
+          break;
+        case 'checkout.session.expired':
+          if (!transactionId) throw new Error(`Session ${session.id} has no transaction id`);
+          await purchases.failPurchase(transactionId, 'cancelled');
+          break;
+        default:
+          // Acknowledge events we don't handle so Stripe stops retrying them
+          break;
+      }
+    } catch (err) {
+      console.error(`Error handling ${event.type} (${event.id}):`, err);
+      // A non-2xx response makes Stripe redeliver the event later
+      return respond({ error: 'Webhook handling failed' }, 500);
+    }
+
+    return respond({ received: true });
+  };
@@ -0,0 +1,33 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createStripeClient } from '../_shared/stripe.ts';
+import { createWebhookHandler } from './handler.ts';
+
+const adminClient = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const handler = createWebhookHandler({
+  stripe: createStripeClient(),
+  webhookSecret: Deno.env.get('STRIPE_WEBHOOK_SECRET')!,
+  purchases: {
+    completePurchase: async (transactionId, sessionId) => {
+      const { data, error } = await adminClient.rpc('complete_coin_purchase', {
+        p_transaction_id: transactionId,
+        p_session_id: sessionId,
+      });
+      if (error) throw error;
+      return data as boolean;
+    },
+    failPurchase: async (transactionId, status) => {
+      const { data, error } = await adminClient.rpc('fail_coin_purchase', {
+        p_transaction_id: transactionId,
+        p_status: status,
+      });
+      if (error) throw error;
+      return data as boolean;
+    },
+  },
+});
+
+Deno.serve(handler);
@@ -0,0 +1,44 @@
+/*
+  Local stand-in for Stripe's webhook delivery.
+
+  Signs a fixture payload with STRIPE_WEBHOOK_SECRET and posts it to the
+  webhook, e.g. after `supabase functions serve stripe-webhook --no-verify-jwt`:
+
+    deno run --allow-read --allow-net --allow-env \
+      supabase/functions/stripe-webhook/send-fixture.ts \
+      checkout.session.completed <transaction_id> <checkout_session_id>
+
+  Set WEBHOOK_URL to target somewhere other than the local functions server.
+*/
+import { signStripePayload } from '../_shared/stripeSignature.ts';
+
+const [fixtureName, transactionId, sessionId] = Deno.args;
+
+if (!fixtureName || !transactionId || !sessionId) {
+  console.error('Usage: send-fixture.ts <fixture> <transaction_id> <checkout_session_id>');
+  Deno.exit(1);
+}
+
+const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+if (!secret) {
+  console.error('STRIPE_WEBHOOK_SECRET must be set to the secret the webhook verifies with');
+  Deno.exit(1);
+}
+
+const template = await Deno.readTextFile(new URL(`./fixtures/${fixtureName}.json`, import.meta.url));
+const payload = template
+  .replaceAll('{{TRANSACTION_ID}}', transactionId)
+  .replaceAll('{{SESSION_ID}}', sessionId);
+
+const webhookUrl = Deno.env.get('WEBHOOK_URL') || 'http://localhost:54321/functions/v1/stripe-webhook';
+
+const response = await fetch(webhookUrl, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'Stripe-Signature': await signStripePayload(payload, secret),
+  },
+  body: payload,
+});
+
+console.log(response.status, await response.text());
@@ -0,0 +1,152 @@
+/*
+  # Atomic episode unlock RPC
+
+  1. New Tables
+    - `coin_ledger`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `entry_type` (text) - reason for the balance movement
+      - `coins_delta` (integer) - signed change to paid coins
+      - `bonus_delta` (integer) - signed change to bonus coins
+      - `unlock_id` (uuid, optional foreign key to user_episode_unlocks)
+      - `created_at` (timestamp)
+
+  2. New Functions
+    - `unlock_episode(p_movie_id integer)`
+      - Checks `movies.is_locked` / `unlock_cost`
+      - Spends bonus coins before paid coins
+      - Inserts into `user_episode_unlocks` and writes a `coin_ledger` row
+      - Runs as a single transaction, so a failed unlock never costs coins
+      - Returns the unlock id, what was spent and the resulting balance
+
+  3. Security
+    - Drop the client INSERT/UPDATE policies on `user_balances`; balances only
+      change through server-side functions now
+    - Drop the client INSERT/UPDATE/DELETE policies on `user_episode_unlocks`
+    - Enable RLS on `coin_ledger` with read-only access to the owner
+*/
+
+-- Create coin_ledger table
+CREATE TABLE IF NOT EXISTS coin_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entry_type text NOT NULL CHECK (entry_type IN ('unlock_spend')),
+  coins_delta integer NOT NULL DEFAULT 0,
+  bonus_delta integer NOT NULL DEFAULT 0,
+  unlock_id uuid REFERENCES user_episode_unlocks(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE coin_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ledger entries"
+  ON coin_ledger
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_coin_ledger_user_created
+  ON coin_ledger(user_id, created_at DESC);
+
+-- Balances and unlocks are no longer writable from the client
+DROP POLICY IF EXISTS "Users can insert their own balance" ON user_balances;
+DROP POLICY IF EXISTS "Users can update their own balance" ON user_balances;
+
+DROP POLICY IF EXISTS "Users can insert their own episode unlocks" ON user_episode_unlocks;
+DROP POLICY IF EXISTS "Users can update their own episode unlocks" ON user_episode_unlocks;
+DROP POLICY IF EXISTS "Users can delete their own episode unlocks" ON user_episode_unlocks;
+
+-- Debit coins and record the unlock in one transaction
+CREATE OR REPLACE FUNCTION unlock_episode(p_movie_id integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_is_locked boolean;
+  v_unlock_cost integer;
+  v_balance user_balances%ROWTYPE;
+  v_unlock_id uuid;
+  v_bonus_spent integer;
+  v_coins_spent integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT COALESCE(m.is_locked, false), COALESCE(m.unlock_cost, 0)
+    INTO v_is_locked, v_unlock_cost
+    FROM movies m
+   WHERE m.id = p_movie_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Episode not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_is_locked THEN
+    RAISE EXCEPTION 'Episode is not locked' USING ERRCODE = '22023';
+  END IF;
+
+  -- Make sure a balance row exists, then lock it so concurrent unlocks serialise
+  INSERT INTO user_balances (user_id) VALUES (v_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_balance
+    FROM user_balances
+   WHERE user_id = v_user_id
+     FOR UPDATE;
+
+  -- Unlocking twice is a no-op rather than a second charge
+  SELECT u.id INTO v_unlock_id
+    FROM user_episode_unlocks u
+   WHERE u.user_id = v_user_id AND u.movie_id = p_movie_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'unlock_id', v_unlock_id,
+      'movie_id', p_movie_id,
+      'already_unlocked', true,
+      'coins_spent', 0,
+      'bonus_spent', 0,
+      'coins', v_balance.coins,
+      'bonus_coins', v_balance.bonus_coins
+    );
+  END IF;
+
+  IF v_balance.coins + v_balance.bonus_coins < v_unlock_cost THEN
+    RAISE EXCEPTION 'Insufficient coins' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Spend bonus coins first, then regular coins
+  v_bonus_spent := LEAST(v_unlock_cost, v_balance.bonus_coins);
+  v_coins_spent := v_unlock_cost - v_bonus_spent;
+
+  UPDATE user_balances
+     SET coins = v_balance.coins - v_coins_spent,
+         bonus_coins = v_balance.bonus_coins - v_bonus_spent
+   WHERE user_id = v_user_id
+  RETURNING * INTO v_balance;
+
+  INSERT INTO user_episode_unlocks (user_id, movie_id)
+  VALUES (v_user_id, p_movie_id)
+  RETURNING id INTO v_unlock_id;
+
+  INSERT INTO coin_ledger (user_id, entry_type, coins_delta, bonus_delta, unlock_id)
+  VALUES (v_user_id, 'unlock_spend', -v_coins_spent, -v_bonus_spent, v_unlock_id);
+
+  RETURN jsonb_build_object(
+    'unlock_id', v_unlock_id,
+    'movie_id', p_movie_id,
+    'already_unlocked', false,
+    'coins_spent', v_coins_spent,
+    'bonus_spent', v_bonus_spent,
+    'coins', v_balance.coins,
+    'bonus_coins', v_balance.bonus_coins
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION unlock_episode(integer) FROM public;
+GRANT EXECUTE ON FUNCTION unlock_episode(integer) TO authenticated;
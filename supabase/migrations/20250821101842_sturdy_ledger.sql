@@ -0,0 +1,259 @@
+/*
+  # Coin ledger as the source of truth for balances
+
+  1. Modified Tables
+    - `coin_ledger`
+      - `entry_type` now accepts purchase, bonus_grant, unlock_spend, refund,
+        admin_adjust and expiry
+      - Add `transaction_id` (uuid, optional foreign key to transactions)
+      - Add `coins_after` / `bonus_after` (integer) - wallet balance once the
+        entry was applied, so history can be shown without replaying it
+      - Add `note` (text, optional)
+      - Purchases and refunds must reference a transaction, unlock spends must
+        reference an unlock
+    - `user_balances`
+      - Balances may no longer go negative
+
+  2. Projection
+    - Every ledger entry is applied to `user_balances` by a BEFORE INSERT
+      trigger, in the same transaction as the insert. Nothing else writes
+      balances, so concurrent sessions can no longer overwrite each other.
+    - Ledger entries are append-only; corrections are new entries. A trigger
+      refuses updates and deletes, except the cascade from deleting an account.
+    - Existing balances are carried over as one opening `admin_adjust` entry
+      per user.
+
+  3. Functions
+    - `unlock_episode` is rewritten to write only the ledger entry and let the
+      projection debit the balance
+*/
+
+-- Widen the entry types
+ALTER TABLE coin_ledger DROP CONSTRAINT IF EXISTS coin_ledger_entry_type_check;
+ALTER TABLE coin_ledger ADD CONSTRAINT coin_ledger_entry_type_check
+  CHECK (entry_type IN ('purchase', 'bonus_grant', 'unlock_spend', 'refund', 'admin_adjust', 'expiry'));
+
+-- Add source document and running balance columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'coin_ledger' AND column_name = 'transaction_id'
+  ) THEN
+    ALTER TABLE coin_ledger ADD COLUMN transaction_id uuid REFERENCES transactions(id);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'coin_ledger' AND column_name = 'coins_after'
+  ) THEN
+    ALTER TABLE coin_ledger ADD COLUMN coins_after integer;
+    ALTER TABLE coin_ledger ADD COLUMN bonus_after integer;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'coin_ledger' AND column_name = 'note'
+  ) THEN
+    ALTER TABLE coin_ledger ADD COLUMN note text;
+  END IF;
+END $$;
+
+-- Ledger entries must keep pointing at their unlock
+ALTER TABLE coin_ledger DROP CONSTRAINT IF EXISTS coin_ledger_unlock_id_fkey;
+ALTER TABLE coin_ledger ADD CONSTRAINT coin_ledger_unlock_id_fkey
+  FOREIGN KEY (unlock_id) REFERENCES user_episode_unlocks(id);
+
+ALTER TABLE coin_ledger DROP CONSTRAINT IF EXISTS coin_ledger_source_check;
+ALTER TABLE coin_ledger ADD CONSTRAINT coin_ledger_source_check
+  CHECK (
+    (entry_type IN ('purchase', 'refund') AND transaction_id IS NOT NULL)
+    OR (entry_type = 'unlock_spend' AND unlock_id IS NOT NULL)
+    OR entry_type IN ('bonus_grant', 'admin_adjust', 'expiry')
+  );
+
+CREATE INDEX IF NOT EXISTS idx_coin_ledger_transaction_id
+  ON coin_ledger(transaction_id) WHERE transaction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_coin_ledger_unlock_id
+  ON coin_ledger(unlock_id) WHERE unlock_id IS NOT NULL;
+
+-- Carry existing balances over as opening entries
+INSERT INTO coin_ledger (user_id, entry_type, coins_delta, bonus_delta, note)
+SELECT b.user_id,
+       'admin_adjust',
+       b.coins - COALESCE(l.coins_total, 0),
+       b.bonus_coins - COALESCE(l.bonus_total, 0),
+       'Opening balance'
+  FROM user_balances b
+  LEFT JOIN (
+    SELECT user_id, SUM(coins_delta) AS coins_total, SUM(bonus_delta) AS bonus_total
+      FROM coin_ledger
+     GROUP BY user_id
+  ) l ON l.user_id = b.user_id
+ WHERE b.coins <> COALESCE(l.coins_total, 0)
+    OR b.bonus_coins <> COALESCE(l.bonus_total, 0);
+
+-- Backfill running balances for entries written before this migration
+UPDATE coin_ledger c
+   SET coins_after = r.coins_after,
+       bonus_after = r.bonus_after
+  FROM (
+    SELECT id,
+           SUM(coins_delta) OVER (PARTITION BY user_id ORDER BY created_at, id) AS coins_after,
+           SUM(bonus_delta) OVER (PARTITION BY user_id ORDER BY created_at, id) AS bonus_after
+      FROM coin_ledger
+  ) r
+ WHERE c.id = r.id
+   AND c.coins_after IS NULL;
+
+-- Balances can never be overdrawn
+ALTER TABLE user_balances DROP CONSTRAINT IF EXISTS user_balances_non_negative;
+ALTER TABLE user_balances ADD CONSTRAINT user_balances_non_negative
+  CHECK (coins >= 0 AND bonus_coins >= 0);
+
+-- Apply each ledger entry to the balance projection
+CREATE OR REPLACE FUNCTION apply_coin_ledger_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO user_balances (user_id, coins, bonus_coins)
+  VALUES (NEW.user_id, NEW.coins_delta, NEW.bonus_delta)
+  ON CONFLICT (user_id) DO UPDATE
+    SET coins = user_balances.coins + EXCLUDED.coins,
+        bonus_coins = user_balances.bonus_coins + EXCLUDED.bonus_coins
+  RETURNING coins, bonus_coins INTO NEW.coins_after, NEW.bonus_after;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_coin_ledger_entry ON coin_ledger;
+CREATE TRIGGER apply_coin_ledger_entry
+  BEFORE INSERT ON coin_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_coin_ledger_entry();
+
+-- Ledger entries are immutable. Deleting an account still cascades here;
+-- its balance goes with it, so nothing is left out of step.
+CREATE OR REPLACE FUNCTION prevent_coin_ledger_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'coin_ledger is append-only; record a correcting entry instead';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_coin_ledger_mutation ON coin_ledger;
+CREATE TRIGGER prevent_coin_ledger_mutation
+  BEFORE UPDATE OR DELETE ON coin_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_coin_ledger_mutation();
+
+-- Unlocks now only write the ledger; the projection debits the balance
+CREATE OR REPLACE FUNCTION unlock_episode(p_movie_id integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_is_locked boolean;
+  v_unlock_cost integer;
+  v_balance user_balances%ROWTYPE;
+  v_unlock_id uuid;
+  v_bonus_spent integer;
+  v_coins_spent integer;
+  v_coins_after integer;
+  v_bonus_after integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT COALESCE(m.is_locked, false), COALESCE(m.unlock_cost, 0)
+    INTO v_is_locked, v_unlock_cost
+    FROM movies m
+   WHERE m.id = p_movie_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Episode not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_is_locked THEN
+    RAISE EXCEPTION 'Episode is not locked' USING ERRCODE = '22023';
+  END IF;
+
+  -- Make sure a balance row exists, then lock it so concurrent unlocks serialise
+  INSERT INTO user_balances (user_id) VALUES (v_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_balance
+    FROM user_balances
+   WHERE user_id = v_user_id
+     FOR UPDATE;
+
+  -- Unlocking twice is a no-op rather than a second charge
+  SELECT u.id INTO v_unlock_id
+    FROM user_episode_unlocks u
+   WHERE u.user_id = v_user_id AND u.movie_id = p_movie_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'unlock_id', v_unlock_id,
+      'movie_id', p_movie_id,
+      'already_unlocked', true,
+      'coins_spent', 0,
+      'bonus_spent', 0,
+      'coins', v_balance.coins,
+      'bonus_coins', v_balance.bonus_coins
+    );
+  END IF;
+
+  IF v_balance.coins + v_balance.bonus_coins < v_unlock_cost THEN
+    RAISE EXCEPTION 'Insufficient coins' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Spend bonus coins first, then regular coins
+  v_bonus_spent := LEAST(v_unlock_cost, v_balance.bonus_coins);
+  v_coins_spent := v_unlock_cost - v_bonus_spent;
+
+  INSERT INTO user_episode_unlocks (user_id, movie_id)
+  VALUES (v_user_id, p_movie_id)
+  RETURNING id INTO v_unlock_id;
+
+  INSERT INTO coin_ledger (user_id, entry_type, coins_delta, bonus_delta, unlock_id)
+  VALUES (v_user_id, 'unlock_spend', -v_coins_spent, -v_bonus_spent, v_unlock_id)
+  RETURNING coins_after, bonus_after INTO v_coins_after, v_bonus_after;
+
+  RETURN jsonb_build_object(
+    'unlock_id', v_unlock_id,
+    'movie_id', p_movie_id,
+    'already_unlocked', false,
+    'coins_spent', v_coins_spent,
+    'bonus_spent', v_bonus_spent,
+    'coins', v_coins_after,
+    'bonus_coins', v_bonus_after
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION unlock_episode(integer) FROM public;
+GRANT EXECUTE ON FUNCTION unlock_episode(integer) TO authenticated;
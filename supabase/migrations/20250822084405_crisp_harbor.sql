@@ -0,0 +1,145 @@
+/*
+  # Stripe Checkout settlement
+
+  1. Modified Tables
+    - `transactions`
+      - Add `package_id` (text) - catalog package the purchase was made for
+      - Add `completed_at` (timestamp, optional)
+      - `stripe_checkout_session_id` is now unique
+    - `coin_ledger`
+      - At most one entry of each type per transaction, so a replayed
+        webhook can never credit twice
+
+  2. New Functions
+    - `complete_coin_purchase(p_transaction_id uuid, p_session_id text)`
+      - Marks a pending transaction `completed` and credits `coins_granted`
+        as a `purchase` entry and `bonus_granted` as a `bonus_grant` entry
+      - Only settles `pending` transactions: returns false, crediting nothing,
+        when the transaction was already completed (a replayed webhook) or
+        has been marked `failed` or `cancelled`
+    - `fail_coin_purchase(p_transaction_id uuid, p_status text)`
+      - Marks a pending transaction `failed` or `cancelled`
+    - Both are only executable by the service role (the Stripe webhook)
+
+  3. Security
+    - Clients may only insert `pending` transactions without a session id;
+      everything after that is done by the Edge Functions
+*/
+
+-- Add package and completion columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'package_id'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN package_id text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'completed_at'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN completed_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_status_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_status_check
+  CHECK (status IN ('pending', 'completed', 'failed', 'cancelled'));
+
+DROP INDEX IF EXISTS idx_transactions_stripe_session;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_stripe_session
+  ON transactions(stripe_checkout_session_id) WHERE stripe_checkout_session_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coin_ledger_transaction_entry
+  ON coin_ledger(transaction_id, entry_type) WHERE transaction_id IS NOT NULL;
+
+-- Clients can only open a purchase, never settle one
+DROP POLICY IF EXISTS "Users can insert their own transactions" ON transactions;
+
+CREATE POLICY "Users can insert their own pending transactions"
+  ON transactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND stripe_checkout_session_id IS NULL
+    AND completed_at IS NULL
+  );
+
+-- Settle a paid Checkout Session
+CREATE OR REPLACE FUNCTION complete_coin_purchase(p_transaction_id uuid, p_session_id text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transaction
+    FROM transactions
+   WHERE id = p_transaction_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_transaction.stripe_checkout_session_id IS DISTINCT FROM p_session_id THEN
+    RAISE EXCEPTION 'Checkout session does not match transaction' USING ERRCODE = '22023';
+  END IF;
+
+  -- Stripe retries webhooks, so a second delivery must not credit again, and
+  -- a purchase that was already failed or cancelled is never revived
+  IF v_transaction.status <> 'pending' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE transactions
+     SET status = 'completed',
+         completed_at = now()
+   WHERE id = p_transaction_id;
+
+  INSERT INTO coin_ledger (user_id, entry_type, coins_delta, bonus_delta, transaction_id, note)
+  VALUES (v_transaction.user_id, 'purchase', v_transaction.coins_granted, 0, p_transaction_id, v_transaction.package_name);
+
+  IF v_transaction.bonus_granted > 0 THEN
+    INSERT INTO coin_ledger (user_id, entry_type, coins_delta, bonus_delta, transaction_id, note)
+    VALUES (v_transaction.user_id, 'bonus_grant', 0, v_transaction.bonus_granted, p_transaction_id, v_transaction.package_name);
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Close a Checkout Session that will never be paid
+CREATE OR REPLACE FUNCTION fail_coin_purchase(p_transaction_id uuid, p_status text DEFAULT 'failed')
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_status NOT IN ('failed', 'cancelled') THEN
+    RAISE EXCEPTION 'Invalid status %', p_status USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE transactions
+     SET status = p_status
+   WHERE id = p_transaction_id
+     AND status = 'pending';
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION complete_coin_purchase(uuid, text) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION fail_coin_purchase(uuid, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_coin_purchase(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_coin_purchase(uuid, text) TO service_role;
@@ -0,0 +1,282 @@
+/*
+  # Server-driven coin package catalog
+
+  1. New Tables
+    - `coin_packages`
+      - `id` (text, primary key) - stable package key, stored on transactions
+      - `name` (text)
+      - `coins` / `bonus` (integer) - coins granted on purchase
+      - `is_popular` (boolean) - highlight in the store
+      - `first_purchase_only` (boolean) - only offered before a user's first purchase
+      - `max_uses_per_user` (integer, optional) - purchase limit per user
+      - `starts_at` / `ends_at` (timestamp, optional) - active window
+      - `is_active` (boolean) - kill switch
+      - `sort_order` (integer)
+    - `coin_package_prices`
+      - `package_id` (text, foreign key to coin_packages)
+      - `currency` (text)
+      - `amount` (numeric)
+
+  2. Modified Tables
+    - `transactions`
+      - Add `checkout_started_at` (timestamp, optional) - set when a checkout
+        claims its package; started checkouts count towards the limits
+
+  3. New Functions
+    - `coin_package_is_eligible(p_package_id, p_user_id, p_exclude_transaction_id)`
+      - Active window, kill switch, first-purchase and per-user limits
+    - `get_coin_packages(p_currency text)` - packages the caller may buy, in order
+    - `claim_coin_package(p_user_id, p_package_id, p_currency, p_transaction_id)`
+      - Authoritative price and grant for checkout; returns no row when the
+        user is not eligible
+      - Checks and claims under a per-user lock, so two checkouts started at
+        once cannot both pass a first-purchase or per-user limit
+
+  4. Security
+    - Catalog tables are readable by everyone and writable only by the service role
+    - Clients cannot open a transaction that is already marked as started
+*/
+
+CREATE TABLE IF NOT EXISTS coin_packages (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  coins integer NOT NULL CHECK (coins > 0),
+  bonus integer NOT NULL DEFAULT 0 CHECK (bonus >= 0),
+  is_popular boolean NOT NULL DEFAULT false,
+  first_purchase_only boolean NOT NULL DEFAULT false,
+  max_uses_per_user integer CHECK (max_uses_per_user IS NULL OR max_uses_per_user > 0),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE TABLE IF NOT EXISTS coin_package_prices (
+  package_id text NOT NULL REFERENCES coin_packages(id) ON DELETE CASCADE,
+  currency text NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  PRIMARY KEY (package_id, currency)
+);
+
+ALTER TABLE coin_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coin_package_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON coin_packages
+  FOR SELECT USING (true);
+
+CREATE POLICY "Enable read access for all users" ON coin_package_prices
+  FOR SELECT USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_coin_packages_sort
+  ON coin_packages(sort_order) WHERE is_active = true;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_package
+  ON transactions(user_id, package_id, status);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'checkout_started_at'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN checkout_started_at timestamptz;
+  END IF;
+END $$;
+
+-- Checkouts opened before the column existed already have a session
+UPDATE transactions
+   SET checkout_started_at = created_at
+ WHERE stripe_checkout_session_id IS NOT NULL
+   AND checkout_started_at IS NULL;
+
+DROP POLICY IF EXISTS "Users can insert their own pending transactions" ON transactions;
+
+CREATE POLICY "Users can insert their own pending transactions"
+  ON transactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND stripe_checkout_session_id IS NULL
+    AND checkout_started_at IS NULL
+    AND completed_at IS NULL
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_coin_packages_updated_at'
+  ) THEN
+    CREATE TRIGGER update_coin_packages_updated_at
+      BEFORE UPDATE ON coin_packages
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Seed the packages that used to be hard-coded in the client
+INSERT INTO coin_packages (id, name, coins, bonus, is_popular, first_purchase_only, max_uses_per_user, sort_order) VALUES
+('new-user-special', '500 Coins', 500, 0, false, true, 1, 10),
+('package-1000', '1000 Coins + 150 Bonus', 1000, 150, false, false, NULL, 20),
+('package-1500', '1500 Coins + 300 Bonus', 1500, 300, false, false, NULL, 30),
+('package-2500', '2500 Coins + 875 Bonus', 2500, 875, true, false, NULL, 40),
+('package-5000', '5000 Coins + 2500 Bonus', 5000, 2500, false, false, NULL, 50),
+('package-10000', '10000 Coins + 10000 Bonus', 10000, 10000, false, false, NULL, 60)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO coin_package_prices (package_id, currency, amount) VALUES
+('new-user-special', 'USD', 4.99),
+('package-1000', 'USD', 9.99),
+('package-1500', 'USD', 14.99),
+('package-2500', 'USD', 24.99),
+('package-5000', 'USD', 49.99),
+('package-10000', 'USD', 99.99)
+ON CONFLICT (package_id, currency) DO NOTHING;
+
+-- Whether a user may buy a package right now. Started checkouts that are
+-- still pending count towards the limits, alongside completed purchases.
+CREATE OR REPLACE FUNCTION coin_package_is_eligible(
+  p_package_id text,
+  p_user_id uuid,
+  p_exclude_transaction_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_package coin_packages%ROWTYPE;
+  v_uses integer;
+BEGIN
+  SELECT * INTO v_package FROM coin_packages WHERE id = p_package_id;
+
+  IF NOT FOUND OR NOT v_package.is_active THEN
+    RETURN false;
+  END IF;
+
+  IF (v_package.starts_at IS NOT NULL AND v_package.starts_at > now())
+     OR (v_package.ends_at IS NOT NULL AND v_package.ends_at <= now()) THEN
+    RETURN false;
+  END IF;
+
+  -- Anonymous visitors see the full catalog; limits apply once signed in
+  IF p_user_id IS NULL THEN
+    RETURN true;
+  END IF;
+
+  IF v_package.first_purchase_only AND EXISTS (
+    SELECT 1 FROM transactions t
+     WHERE t.user_id = p_user_id
+       AND t.status IN ('pending', 'completed')
+       AND t.checkout_started_at IS NOT NULL
+       AND t.id IS DISTINCT FROM p_exclude_transaction_id
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF v_package.max_uses_per_user IS NOT NULL THEN
+    SELECT count(*) INTO v_uses
+      FROM transactions t
+     WHERE t.user_id = p_user_id
+       AND t.package_id = p_package_id
+       AND t.status IN ('pending', 'completed')
+       AND t.checkout_started_at IS NOT NULL
+       AND t.id IS DISTINCT FROM p_exclude_transaction_id;
+
+    IF v_uses >= v_package.max_uses_per_user THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Store listing for the current user
+CREATE OR REPLACE FUNCTION get_coin_packages(p_currency text DEFAULT 'USD')
+RETURNS TABLE (
+  id text,
+  name text,
+  coins integer,
+  bonus integer,
+  price numeric,
+  currency text,
+  is_popular boolean,
+  first_purchase_only boolean,
+  ends_at timestamptz,
+  sort_order integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.name, p.coins, p.bonus, pr.amount, pr.currency,
+         p.is_popular, p.first_purchase_only, p.ends_at, p.sort_order
+    FROM coin_packages p
+    JOIN coin_package_prices pr ON pr.package_id = p.id AND pr.currency = p_currency
+   WHERE coin_package_is_eligible(p.id, auth.uid())
+   ORDER BY p.sort_order, p.id;
+$$;
+
+-- Authoritative terms for a checkout, claimed for this transaction. The
+-- lock makes concurrent checkouts for one user take turns, so the second
+-- sees the first one's claim when it checks the limits.
+CREATE OR REPLACE FUNCTION claim_coin_package(
+  p_user_id uuid,
+  p_package_id text,
+  p_currency text,
+  p_transaction_id uuid
+)
+RETURNS TABLE (
+  id text,
+  name text,
+  coins integer,
+  bonus integer,
+  price numeric,
+  currency text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('coin_purchase:' || p_user_id::text));
+
+  RETURN QUERY
+  SELECT p.id, p.name, p.coins, p.bonus, pr.amount, pr.currency
+    FROM coin_packages p
+    JOIN coin_package_prices pr ON pr.package_id = p.id AND pr.currency = p_currency
+   WHERE p.id = p_package_id
+     AND coin_package_is_eligible(p.id, p_user_id, p_transaction_id);
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE transactions t
+     SET checkout_started_at = now()
+   WHERE t.id = p_transaction_id
+     AND t.user_id = p_user_id
+     AND t.status = 'pending'
+     AND t.checkout_started_at IS NULL;
+
+  -- Already started or no longer pending: nothing to claim
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction cannot be claimed' USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION coin_package_is_eligible(text, uuid, uuid) FROM public, anon, authenticated;
+REVOKE ALL ON FUNCTION claim_coin_package(uuid, text, text, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION coin_package_is_eligible(text, uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_coin_package(uuid, text, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION get_coin_packages(text) TO anon, authenticated;
@@ -0,0 +1,21 @@
+/*
+  # Adaptive streaming manifests
+
+  1. New Columns
+    - `manifest_url` (text) - HLS (.m3u8) or DASH (.mpd) manifest for adaptive playback
+
+  2. Changes
+    - The player prefers the manifest when present; `video_url` and the
+      per-quality URLs remain the progressive fallback
+*/
+
+-- Add manifest column
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'manifest_url'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN manifest_url text;
+  END IF;
+END $$;
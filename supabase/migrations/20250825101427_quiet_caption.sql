@@ -0,0 +1,70 @@
+/*
+  # Generic subtitle tracks
+
+  1. New Tables
+    - `movie_subtitles`
+      - `id` (uuid, primary key)
+      - `movie_id` (integer, foreign key to movies)
+      - `language` (text) - BCP 47 language tag, e.g. `en`, `es`, `pt-BR`
+      - `label` (text) - name shown in the player menu
+      - `kind` (text) - `subtitles` or `captions`
+      - `url` (text) - WebVTT (.vtt) or SubRip (.srt) file
+      - `is_default` (boolean) - track to show when the viewer has no preference
+      - `forced` (boolean) - forced narrative track, shown while subtitles are off
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Existing `subtitle_url_en` / `subtitle_url_es` values are copied into
+      `movie_subtitles` and the columns are dropped
+
+  3. Security
+    - Enable RLS on `movie_subtitles` with public read access, like `movies`
+*/
+
+CREATE TABLE IF NOT EXISTS movie_subtitles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  movie_id integer NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  language text NOT NULL,
+  label text NOT NULL,
+  kind text NOT NULL DEFAULT 'subtitles' CHECK (kind IN ('subtitles', 'captions')),
+  url text NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  forced boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (movie_id, language, kind, forced)
+);
+
+ALTER TABLE movie_subtitles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON movie_subtitles
+  FOR SELECT USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_movie_subtitles_movie_id ON movie_subtitles(movie_id);
+
+-- At most one default track per movie
+CREATE UNIQUE INDEX IF NOT EXISTS idx_movie_subtitles_default
+  ON movie_subtitles(movie_id) WHERE is_default;
+
+-- Carry over the fixed-language columns
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'subtitle_url_en'
+  ) THEN
+    INSERT INTO movie_subtitles (movie_id, language, label, url)
+    SELECT id, 'en', 'English', subtitle_url_en
+      FROM movies
+     WHERE subtitle_url_en IS NOT NULL AND subtitle_url_en <> ''
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO movie_subtitles (movie_id, language, label, url)
+    SELECT id, 'es', 'Español', subtitle_url_es
+      FROM movies
+     WHERE subtitle_url_es IS NOT NULL AND subtitle_url_es <> ''
+    ON CONFLICT DO NOTHING;
+
+    ALTER TABLE movies DROP COLUMN subtitle_url_en;
+    ALTER TABLE movies DROP COLUMN subtitle_url_es;
+  END IF;
+END $$;
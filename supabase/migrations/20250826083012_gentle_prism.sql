@@ -0,0 +1,66 @@
+/*
+  # Player preferences
+
+  1. New Tables
+    - `user_player_preferences`
+      - `user_id` (uuid, primary key, foreign key to auth.users)
+      - `subtitle_font_size` (text) - small, medium, large or x-large
+      - `subtitle_color` (text) - hex colour of the caption text
+      - `subtitle_background_opacity` (numeric) - 0 to 1, black box behind captions
+      - `subtitle_edge_style` (text) - none, outline, drop-shadow, raised or depressed
+      - `subtitle_position` (text) - bottom (as authored), raised or top
+      - `created_at` / `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS with owner-only read and write access
+*/
+
+CREATE TABLE IF NOT EXISTS user_player_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  subtitle_font_size text NOT NULL DEFAULT 'medium'
+    CHECK (subtitle_font_size IN ('small', 'medium', 'large', 'x-large')),
+  subtitle_color text NOT NULL DEFAULT '#FFFFFF'
+    CHECK (subtitle_color ~ '^#[0-9A-Fa-f]{6}$'),
+  subtitle_background_opacity numeric(3,2) NOT NULL DEFAULT 0.75
+    CHECK (subtitle_background_opacity BETWEEN 0 AND 1),
+  subtitle_edge_style text NOT NULL DEFAULT 'none'
+    CHECK (subtitle_edge_style IN ('none', 'outline', 'drop-shadow', 'raised', 'depressed')),
+  subtitle_position text NOT NULL DEFAULT 'bottom'
+    CHECK (subtitle_position IN ('bottom', 'raised', 'top')),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE user_player_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own player preferences"
+  ON user_player_preferences
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own player preferences"
+  ON user_player_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own player preferences"
+  ON user_player_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_user_player_preferences_updated_at'
+  ) THEN
+    CREATE TRIGGER update_user_player_preferences_updated_at
+      BEFORE UPDATE ON user_player_preferences
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
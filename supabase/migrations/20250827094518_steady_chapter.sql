@@ -0,0 +1,81 @@
+/*
+  # Episode chapter markers
+
+  1. New Columns
+    - `intro_start_seconds` (numeric) - where the opening titles begin
+    - `intro_end_seconds` (numeric) - where the opening titles end
+    - `recap_start_seconds` (numeric) - where the "previously on" recap begins
+    - `recap_end_seconds` (numeric) - where the recap ends
+    - `credits_start_seconds` (numeric) - where the end credits begin
+
+  2. Constraints
+    - Each window must end after it starts, and markers can't be negative
+
+  3. Changes
+    - The player offers Skip Intro / Skip Recap inside those windows and
+      starts the next-episode countdown at `credits_start_seconds`
+*/
+
+-- Add marker columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'intro_start_seconds'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN intro_start_seconds numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'intro_end_seconds'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN intro_end_seconds numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'recap_start_seconds'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN recap_start_seconds numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'recap_end_seconds'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN recap_end_seconds numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'credits_start_seconds'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN credits_start_seconds numeric;
+  END IF;
+END $$;
+
+-- Keep marker windows well formed
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'movies_intro_window_check'
+  ) THEN
+    ALTER TABLE movies ADD CONSTRAINT movies_intro_window_check
+      CHECK (intro_start_seconds >= 0 AND intro_end_seconds > intro_start_seconds);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'movies_recap_window_check'
+  ) THEN
+    ALTER TABLE movies ADD CONSTRAINT movies_recap_window_check
+      CHECK (recap_start_seconds >= 0 AND recap_end_seconds > recap_start_seconds);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'movies_credits_start_check'
+  ) THEN
+    ALTER TABLE movies ADD CONSTRAINT movies_credits_start_check
+      CHECK (credits_start_seconds >= 0);
+  END IF;
+END $$;
@@ -0,0 +1,150 @@
+/*
+  # Full-text movie search
+
+  1. New Columns
+    - `search_vector` (tsvector, generated) - title weighted A, genre B and
+      synopsis C, so title hits outrank synopsis hits
+
+  2. Indexes
+    - GIN index on `search_vector` for full-text matching
+    - Trigram GIN index on `title` for typo-tolerant matching
+
+  3. Functions
+    - `search_movies(p_query, p_filters, p_page, p_page_size)` - ranked
+      results with a highlighted synopsis snippet and the total match count.
+      `p_filters` accepts `genre` and `badge`.
+    - `search_suggestions(p_query, p_limit)` - titles that look like the
+      query, for "did you mean" when a search finds nothing
+
+  4. Notes
+    - Highlights are wrapped in the control characters U+0002 / U+0003
+      instead of HTML, so the client never renders markup from the database
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Add search column
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(genre, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(synopsis, '')), 'C')
+      ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_movies_search_vector
+  ON movies USING gin(search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_movies_title_trgm
+  ON movies USING gin(title gin_trgm_ops);
+
+-- Every word of the query must match, the last one as a prefix so results
+-- keep up while the user is still typing
+CREATE OR REPLACE FUNCTION movie_search_query(p_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+    FROM regexp_split_to_table(lower(trim(p_query)), '[^[:alnum:]]+') AS word
+   WHERE word <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION search_movies(
+  p_query text,
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 24
+)
+RETURNS TABLE (
+  id integer,
+  title text,
+  genre text,
+  view_count text,
+  poster_url text,
+  landscape_poster_url text,
+  badge text,
+  synopsis text,
+  episodes integer,
+  duration_seconds integer,
+  created_at timestamptz,
+  series_id text,
+  episode_number integer,
+  rank real,
+  snippet text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query text := trim(coalesce(p_query, ''));
+  v_tsquery tsquery;
+  v_page integer := greatest(coalesce(p_page, 1), 1);
+  v_page_size integer := least(greatest(coalesce(p_page_size, 24), 1), 100);
+BEGIN
+  IF v_query = '' THEN
+    RETURN;
+  END IF;
+
+  v_tsquery := movie_search_query(v_query);
+
+  RETURN QUERY
+  SELECT m.id, m.title, m.genre, m.view_count, m.poster_url, m.landscape_poster_url,
+         m.badge, m.synopsis, m.episodes, m.duration_seconds, m.created_at,
+         m.series_id, m.episode_number,
+         (coalesce(ts_rank(m.search_vector, v_tsquery), 0) + word_similarity(v_query, m.title))::real AS rank,
+         CASE
+           WHEN m.synopsis IS NULL THEN NULL
+           ELSE ts_headline(
+             'english', m.synopsis, v_tsquery,
+             format('StartSel=%s, StopSel=%s, MaxWords=24, MinWords=10, ShortWord=2', chr(2), chr(3))
+           )
+         END AS snippet,
+         count(*) OVER () AS total_count
+    FROM movies m
+   WHERE (
+           (v_tsquery IS NOT NULL AND m.search_vector @@ v_tsquery)
+           OR m.title % v_query
+           OR v_query <% m.title
+         )
+     AND (p_filters->>'genre' IS NULL OR m.genre = p_filters->>'genre')
+     AND (p_filters->>'badge' IS NULL OR m.badge = p_filters->>'badge')
+   ORDER BY rank DESC, m.created_at DESC, m.id
+   LIMIT v_page_size
+  OFFSET (v_page - 1) * v_page_size;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_suggestions(
+  p_query text,
+  p_limit integer DEFAULT 3
+)
+RETURNS TABLE (
+  suggestion text,
+  score real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.title, max(greatest(similarity(m.title, p_query), word_similarity(p_query, m.title)))
+    FROM movies m
+   WHERE trim(coalesce(p_query, '')) <> ''
+     AND greatest(similarity(m.title, p_query), word_similarity(p_query, m.title)) > 0.2
+   GROUP BY m.title
+   ORDER BY 2 DESC, m.title
+   LIMIT least(greatest(coalesce(p_limit, 3), 1), 10);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_movies(text, jsonb, integer, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_suggestions(text, integer) TO anon, authenticated;
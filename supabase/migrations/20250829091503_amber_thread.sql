@@ -0,0 +1,206 @@
+/*
+  # Tag taxonomy
+
+  1. New Tables
+    - `tags`
+      - `id` (uuid, primary key)
+      - `slug` (text, unique) - stable identifier used in URLs
+      - `name` (text) - display name
+      - `tag_type` (text) - theme, mood, trope or audience
+      - `sort_order` (integer) - order within a tag type
+      - `created_at` (timestamp)
+    - `movie_tags`
+      - `movie_id` (integer, references movies)
+      - `tag_id` (uuid, references tags)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables with public read access
+
+  3. Seed Data
+    - The themes that used to be hard-coded in the client, each given a type
+    - Movies are tagged where a tag name appears as whole words in the title,
+      genre or synopsis; from here on tags are curated, not inferred
+
+  4. Functions
+    - `movies_with_tags(p_tag_slugs, p_match)` - movies carrying any or all of
+      the given tags. Returns `SETOF movies` so callers can still filter, order
+      and page the result through PostgREST.
+    - `search_movies` now also matches tag names and accepts a `tags` filter
+*/
+
+CREATE TABLE IF NOT EXISTS tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text NOT NULL UNIQUE,
+  name text NOT NULL,
+  tag_type text NOT NULL CHECK (tag_type IN ('theme', 'mood', 'trope', 'audience')),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS movie_tags (
+  movie_id integer NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (movie_id, tag_id)
+);
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE movie_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON tags
+  FOR SELECT USING (true);
+
+CREATE POLICY "Enable read access for all users" ON movie_tags
+  FOR SELECT USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_movie_tags_tag_id ON movie_tags(tag_id);
+CREATE INDEX IF NOT EXISTS idx_tags_type_sort ON tags(tag_type, sort_order);
+
+-- Seed the themes that used to be hard-coded in the client
+INSERT INTO tags (slug, name, tag_type, sort_order) VALUES
+('werewolf', 'Werewolf', 'theme', 10),
+('revenge', 'Revenge', 'theme', 20),
+('mafia', 'Mafia', 'theme', 30),
+('paranormal', 'Paranormal', 'theme', 40),
+('betrayal', 'Betrayal', 'theme', 50),
+('urban', 'Urban', 'theme', 60),
+('romance', 'Romance', 'theme', 70),
+('fantasy', 'Fantasy', 'theme', 80),
+('mystery', 'Mystery', 'theme', 90),
+('drama', 'Drama', 'theme', 100),
+('action', 'Action', 'theme', 110),
+('comedy', 'Comedy', 'mood', 10),
+('suspense', 'Suspense', 'mood', 20),
+('thriller', 'Thriller', 'mood', 30),
+('ceo', 'CEO', 'trope', 10),
+('billionaire', 'Billionaire', 'trope', 20),
+('contract-marriage', 'Contract Marriage', 'trope', 30),
+('second-chance', 'Second Chance', 'trope', 40),
+('love-triangle', 'Love Triangle', 'trope', 50),
+('concealed-identity', 'Concealed Identity', 'trope', 60),
+('forbidden-love', 'Forbidden Love', 'trope', 70),
+('rags-to-riches', 'Rags-To-Riches', 'trope', 80),
+('love-at-first-sight', 'Love at First Sight', 'trope', 90),
+('bl', 'BL', 'audience', 10)
+ON CONFLICT (slug) DO NOTHING;
+
+-- One-off tagging of the existing catalog on whole-word matches, so "CEO"
+-- no longer matches inside other words
+INSERT INTO movie_tags (movie_id, tag_id)
+SELECT m.id, t.id
+  FROM movies m
+  JOIN tags t
+    ON concat_ws(' ', m.title, m.genre, m.synopsis)
+       ~* ('\m' || regexp_replace(t.name, '([^[:alnum:][:space:]])', '\\\1', 'g') || '\M')
+ON CONFLICT (movie_id, tag_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION movies_with_tags(
+  p_tag_slugs text[] DEFAULT '{}',
+  p_match text DEFAULT 'any'
+)
+RETURNS SETOF movies
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.*
+    FROM movies m
+   WHERE coalesce(cardinality(p_tag_slugs), 0) = 0
+      OR m.id IN (
+        SELECT mt.movie_id
+          FROM movie_tags mt
+          JOIN tags t ON t.id = mt.tag_id
+         WHERE t.slug = ANY(p_tag_slugs)
+         GROUP BY mt.movie_id
+        HAVING p_match <> 'all'
+            OR count(DISTINCT t.slug) = (SELECT count(DISTINCT s) FROM unnest(p_tag_slugs) AS s)
+      );
+$$;
+
+GRANT EXECUTE ON FUNCTION movies_with_tags(text[], text) TO anon, authenticated;
+
+-- Search: tag names count as matches, and `p_filters.tags` (slugs, all required) narrows results
+CREATE OR REPLACE FUNCTION search_movies(
+  p_query text,
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 24
+)
+RETURNS TABLE (
+  id integer,
+  title text,
+  genre text,
+  view_count text,
+  poster_url text,
+  landscape_poster_url text,
+  badge text,
+  synopsis text,
+  episodes integer,
+  duration_seconds integer,
+  created_at timestamptz,
+  series_id text,
+  episode_number integer,
+  rank real,
+  snippet text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query text := trim(coalesce(p_query, ''));
+  v_tsquery tsquery;
+  v_tag_slugs text[];
+  v_page integer := greatest(coalesce(p_page, 1), 1);
+  v_page_size integer := least(greatest(coalesce(p_page_size, 24), 1), 100);
+BEGIN
+  IF v_query = '' THEN
+    RETURN;
+  END IF;
+
+  v_tsquery := movie_search_query(v_query);
+  v_tag_slugs := ARRAY(SELECT jsonb_array_elements_text(coalesce(p_filters->'tags', '[]'::jsonb)));
+
+  RETURN QUERY
+  WITH tag_hits AS (
+    SELECT mt.movie_id
+      FROM movie_tags mt
+      JOIN tags t ON t.id = mt.tag_id
+     WHERE (v_tsquery IS NOT NULL AND to_tsvector('english', t.name) @@ v_tsquery)
+        OR t.name % v_query
+     GROUP BY mt.movie_id
+  )
+  SELECT m.id, m.title, m.genre, m.view_count, m.poster_url, m.landscape_poster_url,
+         m.badge, m.synopsis, m.episodes, m.duration_seconds, m.created_at,
+         m.series_id, m.episode_number,
+         (coalesce(ts_rank(m.search_vector, v_tsquery), 0)
+           + word_similarity(v_query, m.title)
+           -- A tag hit ranks like a genre hit
+           + CASE WHEN th.movie_id IS NOT NULL THEN 0.4 ELSE 0 END)::real AS rank,
+         CASE
+           WHEN m.synopsis IS NULL THEN NULL
+           ELSE ts_headline(
+             'english', m.synopsis, v_tsquery,
+             format('StartSel=%s, StopSel=%s, MaxWords=24, MinWords=10, ShortWord=2', chr(2), chr(3))
+           )
+         END AS snippet,
+         count(*) OVER () AS total_count
+    FROM movies m
+    LEFT JOIN tag_hits th ON th.movie_id = m.id
+   WHERE (
+           (v_tsquery IS NOT NULL AND m.search_vector @@ v_tsquery)
+           OR m.title % v_query
+           OR v_query <% m.title
+           OR th.movie_id IS NOT NULL
+         )
+     AND (p_filters->>'genre' IS NULL OR m.genre = p_filters->>'genre')
+     AND (p_filters->>'badge' IS NULL OR m.badge = p_filters->>'badge')
+     AND (cardinality(v_tag_slugs) = 0 OR m.id IN (SELECT id FROM movies_with_tags(v_tag_slugs, 'all')))
+   ORDER BY rank DESC, m.created_at DESC, m.id
+   LIMIT v_page_size
+  OFFSET (v_page - 1) * v_page_size;
+END;
+$$;
@@ -0,0 +1,203 @@
+/*
+  # Server-side browsing
+
+  1. Changes
+    - `movies.view_count` becomes a bigint. Display strings such as "1.2M" or
+      "890K" are converted to the numbers they stand for; the client formats
+      them for display again.
+    - `search_movies` is recreated to return the new column type
+
+  2. Indexes
+    - One index per browse sort, each ending in `id` so keyset pagination has
+      a unique, index-ordered position to continue from
+
+  3. Functions
+    - `browse_movies(p_filters, p_sort, p_after, p_limit)` - standalone titles
+      and series openers filtered by `genre`, `badge` and `tags` (with
+      `tag_match` any/all), in one of the sorts popularity, newest, oldest,
+      alphabetical or episodes. `p_after` is `{"value", "id"}` taken from the
+      last row of the previous page.
+*/
+
+-- Parse the old display strings: "2.8M", "890K", "1,234"
+CREATE OR REPLACE FUNCTION parse_view_count(p_value text)
+RETURNS bigint
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_clean text := upper(replace(trim(coalesce(p_value, '')), ',', ''));
+  v_number numeric;
+BEGIN
+  v_number := nullif(regexp_replace(v_clean, '[^0-9.]', '', 'g'), '')::numeric;
+  IF v_number IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  RETURN round(v_number * CASE
+    WHEN v_clean LIKE '%B' THEN 1000000000
+    WHEN v_clean LIKE '%M' THEN 1000000
+    WHEN v_clean LIKE '%K' THEN 1000
+    ELSE 1
+  END)::bigint;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN 0;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'view_count' AND data_type = 'text'
+  ) THEN
+    ALTER TABLE movies ALTER COLUMN view_count TYPE bigint USING parse_view_count(view_count);
+    ALTER TABLE movies ALTER COLUMN view_count SET DEFAULT 0;
+  END IF;
+END $$;
+
+DROP FUNCTION parse_view_count(text);
+
+CREATE INDEX IF NOT EXISTS idx_movies_popularity ON movies(view_count DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_movies_created_at_id ON movies(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_movies_title_id ON movies(title, id);
+CREATE INDEX IF NOT EXISTS idx_movies_episodes_id ON movies((coalesce(episodes, 0)), id);
+
+CREATE OR REPLACE FUNCTION browse_movies(
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_sort text DEFAULT 'popularity',
+  p_after jsonb DEFAULT NULL,
+  p_limit integer DEFAULT 24
+)
+RETURNS SETOF movies
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_filters jsonb := coalesce(p_filters, '{}'::jsonb);
+  v_tags text[] := ARRAY(SELECT jsonb_array_elements_text(coalesce(v_filters->'tags', '[]'::jsonb)));
+  v_tag_match text := CASE WHEN v_filters->>'tag_match' = 'all' THEN 'all' ELSE 'any' END;
+  v_limit integer := least(greatest(coalesce(p_limit, 24), 1), 100);
+  v_key text;
+  v_type text;
+  v_direction text;
+BEGIN
+  -- Sort key, its type for reading the cursor back, and direction
+  CASE p_sort
+    WHEN 'newest' THEN v_key := 'm.created_at'; v_type := 'timestamptz'; v_direction := 'DESC';
+    WHEN 'oldest' THEN v_key := 'm.created_at'; v_type := 'timestamptz'; v_direction := 'ASC';
+    WHEN 'alphabetical' THEN v_key := 'm.title'; v_type := 'text'; v_direction := 'ASC';
+    WHEN 'episodes' THEN v_key := 'coalesce(m.episodes, 0)'; v_type := 'integer'; v_direction := 'DESC';
+    ELSE v_key := 'm.view_count'; v_type := 'bigint'; v_direction := 'DESC';
+  END CASE;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT m.*
+       FROM movies m
+      WHERE (m.series_id IS NULL OR m.episode_number = 1)
+        AND ($1->>''genre'' IS NULL OR m.genre = $1->>''genre'')
+        AND ($1->>''badge'' IS NULL OR m.badge = $1->>''badge'')
+        AND (cardinality($2) = 0 OR m.id IN (SELECT t.id FROM movies_with_tags($2, $3) t))
+        AND ($4 IS NULL OR (%1$s, m.id) %2$s (($4->>''value'')::%3$s, ($4->>''id'')::integer))
+      ORDER BY %1$s %4$s, m.id %4$s
+      LIMIT $5',
+    v_key,
+    CASE WHEN v_direction = 'DESC' THEN '<' ELSE '>' END,
+    v_type,
+    v_direction
+  )
+  USING v_filters, v_tags, v_tag_match, p_after, v_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION browse_movies(jsonb, text, jsonb, integer) TO anon, authenticated;
+
+-- The return type changed, so search_movies has to be dropped and recreated
+DROP FUNCTION IF EXISTS search_movies(text, jsonb, integer, integer);
+
+CREATE FUNCTION search_movies(
+  p_query text,
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 24
+)
+RETURNS TABLE (
+  id integer,
+  title text,
+  genre text,
+  view_count bigint,
+  poster_url text,
+  landscape_poster_url text,
+  badge text,
+  synopsis text,
+  episodes integer,
+  duration_seconds integer,
+  created_at timestamptz,
+  series_id text,
+  episode_number integer,
+  rank real,
+  snippet text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query text := trim(coalesce(p_query, ''));
+  v_tsquery tsquery;
+  v_tag_slugs text[];
+  v_page integer := greatest(coalesce(p_page, 1), 1);
+  v_page_size integer := least(greatest(coalesce(p_page_size, 24), 1), 100);
+BEGIN
+  IF v_query = '' THEN
+    RETURN;
+  END IF;
+
+  v_tsquery := movie_search_query(v_query);
+  v_tag_slugs := ARRAY(SELECT jsonb_array_elements_text(coalesce(p_filters->'tags', '[]'::jsonb)));
+
+  RETURN QUERY
+  WITH tag_hits AS (
+    SELECT mt.movie_id
+      FROM movie_tags mt
+      JOIN tags t ON t.id = mt.tag_id
+     WHERE (v_tsquery IS NOT NULL AND to_tsvector('english', t.name) @@ v_tsquery)
+        OR t.name % v_query
+     GROUP BY mt.movie_id
+  )
+  SELECT m.id, m.title, m.genre, m.view_count, m.poster_url, m.landscape_poster_url,
+         m.badge, m.synopsis, m.episodes, m.duration_seconds, m.created_at,
+         m.series_id, m.episode_number,
+         (coalesce(ts_rank(m.search_vector, v_tsquery), 0)
+           + word_similarity(v_query, m.title)
+           -- A tag hit ranks like a genre hit
+           + CASE WHEN th.movie_id IS NOT NULL THEN 0.4 ELSE 0 END)::real AS rank,
+         CASE
+           WHEN m.synopsis IS NULL THEN NULL
+           ELSE ts_headline(
+             'english', m.synopsis, v_tsquery,
+             format('StartSel=%s, StopSel=%s, MaxWords=24, MinWords=10, ShortWord=2', chr(2), chr(3))
+           )
+         END AS snippet,
+         count(*) OVER () AS total_count
+    FROM movies m
+    LEFT JOIN tag_hits th ON th.movie_id = m.id
+   WHERE (
+           (v_tsquery IS NOT NULL AND m.search_vector @@ v_tsquery)
+           OR m.title % v_query
+           OR v_query <% m.title
+           OR th.movie_id IS NOT NULL
+         )
+     AND (p_filters->>'genre' IS NULL OR m.genre = p_filters->>'genre')
+     AND (p_filters->>'badge' IS NULL OR m.badge = p_filters->>'badge')
+     AND (cardinality(v_tag_slugs) = 0 OR m.id IN (SELECT id FROM movies_with_tags(v_tag_slugs, 'all')))
+   ORDER BY rank DESC, m.created_at DESC, m.id
+   LIMIT v_page_size
+  OFFSET (v_page - 1) * v_page_size;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_movies(text, jsonb, integer, integer) TO anon, authenticated;
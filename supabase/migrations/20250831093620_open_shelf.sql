@@ -0,0 +1,198 @@
+/*
+  # Home rails
+
+  1. New Tables
+    - `home_rails`
+      - `id` (uuid, primary key)
+      - `slug` (text, unique) - stable identifier for seeding and analytics
+      - `title` (text) - heading shown above the rail
+      - `source_type` (text) - trending, newest, tag, genre, editorial or
+        personalised
+      - `source_value` (text, nullable) - the tag slug or genre for tag and
+        genre rails
+      - `sort_order` (integer) - position on the home page
+      - `locales` (text[], nullable) - locales the rail is shown in; null
+        shows it everywhere
+      - `is_active` (boolean)
+      - `created_at` (timestamp)
+    - `home_rail_items` - hand-picked titles for editorial rails
+      - `rail_id` (uuid, references home_rails)
+      - `movie_id` (integer, references movies)
+      - `position` (integer)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables with public read access
+
+  3. Seed Data
+    - The rails the home page used to build from fixed slices of the catalog,
+      now backed by real queries
+
+  4. Functions
+    - `home_rail_movies(p_rail_id, p_offset, p_limit)` - one page of a rail's
+      titles. Trending counts plays over the last 7 days, personalised
+      follows the genres of the signed-in viewer's watch history and is
+      empty for guests.
+*/
+
+CREATE TABLE IF NOT EXISTS home_rails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text NOT NULL UNIQUE,
+  title text NOT NULL,
+  source_type text NOT NULL CHECK (source_type IN ('trending', 'newest', 'tag', 'genre', 'editorial', 'personalised')),
+  source_value text,
+  sort_order integer NOT NULL DEFAULT 0,
+  locales text[],
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  CHECK (source_type NOT IN ('tag', 'genre') OR source_value IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS home_rail_items (
+  rail_id uuid NOT NULL REFERENCES home_rails(id) ON DELETE CASCADE,
+  movie_id integer NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (rail_id, movie_id)
+);
+
+ALTER TABLE home_rails ENABLE ROW LEVEL SECURITY;
+ALTER TABLE home_rail_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON home_rails
+  FOR SELECT USING (true);
+
+CREATE POLICY "Enable read access for all users" ON home_rail_items
+  FOR SELECT USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_home_rails_active_sort ON home_rails(is_active, sort_order);
+CREATE INDEX IF NOT EXISTS idx_home_rail_items_position ON home_rail_items(rail_id, position);
+CREATE INDEX IF NOT EXISTS idx_user_watch_history_last_watched ON user_watch_history(last_watched_at);
+
+INSERT INTO home_rails (slug, title, source_type, source_value, sort_order) VALUES
+('trending', 'Trending', 'trending', NULL, 10),
+('new-releases', 'New', 'newest', NULL, 20),
+('for-you', 'Picked for You', 'personalised', NULL, 30),
+('romance', 'Romance', 'tag', 'romance', 40),
+('editors-picks', 'Editor''s Picks', 'editorial', NULL, 50),
+('revenge', 'Revenge', 'tag', 'revenge', 60),
+('ceo', 'CEO Stories', 'tag', 'ceo', 70),
+('bl', 'BL', 'tag', 'bl', 80)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Start the editorial rail off with the exclusives; editors curate it from here
+INSERT INTO home_rail_items (rail_id, movie_id, position)
+SELECT r.id, m.id, row_number() OVER (ORDER BY m.view_count DESC, m.id)
+FROM home_rails r
+CROSS JOIN movies m
+WHERE r.slug = 'editors-picks'
+  AND m.badge = 'Exclusive'
+  AND (m.series_id IS NULL OR m.episode_number = 1)
+ON CONFLICT (rail_id, movie_id) DO NOTHING;
+
+-- Security definer so trending can count every viewer's plays; only movie
+-- rows are returned, never watch history
+CREATE OR REPLACE FUNCTION home_rail_movies(
+  p_rail_id uuid,
+  p_offset integer DEFAULT 0,
+  p_limit integer DEFAULT 12
+)
+RETURNS SETOF movies
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rail home_rails%ROWTYPE;
+  v_offset integer := greatest(coalesce(p_offset, 0), 0);
+  v_limit integer := least(greatest(coalesce(p_limit, 12), 1), 50);
+  v_user_id uuid := auth.uid();
+BEGIN
+  SELECT * INTO v_rail FROM home_rails WHERE id = p_rail_id AND is_active;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  CASE v_rail.source_type
+    WHEN 'trending' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      LEFT JOIN (
+        SELECT wh.movie_id, count(*) AS plays
+        FROM user_watch_history wh
+        WHERE wh.last_watched_at > now() - interval '7 days'
+        GROUP BY wh.movie_id
+      ) recent ON recent.movie_id = m.id
+      WHERE (m.series_id IS NULL OR m.episode_number = 1)
+      ORDER BY coalesce(recent.plays, 0) DESC, m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'newest' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      WHERE (m.series_id IS NULL OR m.episode_number = 1)
+      ORDER BY m.created_at DESC, m.id DESC
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'tag' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      JOIN movie_tags mt ON mt.movie_id = m.id
+      JOIN tags t ON t.id = mt.tag_id
+      WHERE t.slug = v_rail.source_value
+        AND (m.series_id IS NULL OR m.episode_number = 1)
+      ORDER BY m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'genre' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      WHERE m.genre = v_rail.source_value
+        AND (m.series_id IS NULL OR m.episode_number = 1)
+      ORDER BY m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'editorial' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM home_rail_items ri
+      JOIN movies m ON m.id = ri.movie_id
+      WHERE ri.rail_id = v_rail.id
+      ORDER BY ri.position, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'personalised' THEN
+      IF v_user_id IS NULL THEN
+        RETURN;
+      END IF;
+
+      -- Unwatched titles in the genres this viewer watches most
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      JOIN (
+        SELECT wm.genre, count(*) AS plays
+        FROM user_watch_history wh
+        JOIN movies wm ON wm.id = wh.movie_id
+        WHERE wh.user_id = v_user_id
+        GROUP BY wm.genre
+      ) liked ON liked.genre = m.genre
+      WHERE (m.series_id IS NULL OR m.episode_number = 1)
+        AND NOT EXISTS (
+          SELECT 1 FROM user_watch_history wh
+          JOIN movies wm ON wm.id = wh.movie_id
+          WHERE wh.user_id = v_user_id
+            AND (wm.id = m.id OR (m.series_id IS NOT NULL AND wm.series_id = m.series_id))
+        )
+      ORDER BY liked.plays DESC, m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+  END CASE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION home_rail_movies(uuid, integer, integer) TO anon, authenticated;
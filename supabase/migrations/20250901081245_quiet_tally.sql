@@ -0,0 +1,369 @@
+/*
+  # Playback events and movie stats
+
+  1. New Tables
+    - `playback_events`
+      - `id` (uuid, primary key)
+      - `movie_id` (integer, references movies)
+      - `user_id` (uuid, nullable) - null for guests
+      - `session_id` (text) - one per browser session for guests; for
+        signed-in viewers it is derived from the user and the day, so a
+        client cannot mint new sessions to count itself again
+      - `event_type` (text) - start, quartile_25, quartile_50, quartile_75,
+        quartile_100 or complete
+      - `position_seconds` (numeric)
+      - `client_ip` (inet, nullable) - the caller's address as the API gateway
+        saw it, for rate limiting
+      - `created_at` (timestamp)
+      Each event is kept once per session and movie, so replays and seeking
+      back and forth do not inflate the numbers.
+    - `movie_stats_rollup` - single row holding how far events have been
+      counted into `view_count`
+
+  2. New Columns on `movies`
+    - `trending_score_24h` (numeric) - starts plus completions in the last day
+    - `trending_score_7d` (numeric) - the same over a week, each day counting
+      half as much as the one after it
+    - `completion_rate` (numeric, nullable) - completions per start
+    - `stats_updated_at` (timestamp)
+
+  3. Security
+    - RLS is enabled on `playback_events` with no policies; events are only
+      written through `record_playback_event`, which takes the user from the
+      session rather than trusting the client
+    - `record_playback_event` drops events past a per-session limit, and
+      guest starts past a per-address limit, so rotating session ids cannot
+      inflate `view_count` or the Hot ranking
+
+  4. Functions
+    - `record_playback_event(p_movie_id, p_session_id, p_event_type, p_position_seconds)`
+    - `refresh_movie_stats()` - adds new starts to `view_count` up to a
+      watermark a minute behind the clock, so events still being committed
+      when it runs are counted next time rather than skipped; recomputes
+      the trending scores and completion rate, and moves the 'Hot' badge to
+      the titles trending hardest over the last day. Hand-set badges are left
+      alone.
+    - `home_rail_movies` - trending rails order by the trending scores
+
+  5. Scheduling
+    - `refresh_movie_stats` runs every 15 minutes through pg_cron
+*/
+
+CREATE TABLE IF NOT EXISTS playback_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  movie_id integer NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  session_id text NOT NULL,
+  event_type text NOT NULL CHECK (event_type IN ('start', 'quartile_25', 'quartile_50', 'quartile_75', 'quartile_100', 'complete')),
+  position_seconds numeric NOT NULL DEFAULT 0,
+  client_ip inet,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (session_id, movie_id, event_type)
+);
+
+ALTER TABLE playback_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_playback_events_created_at ON playback_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_playback_events_movie_type ON playback_events(movie_id, event_type);
+CREATE INDEX IF NOT EXISTS idx_playback_events_session_created ON playback_events(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_playback_events_ip_created ON playback_events(client_ip, created_at) WHERE client_ip IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS movie_stats_rollup (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  last_rolled_up_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE movie_stats_rollup ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO movie_stats_rollup (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'trending_score_24h'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN trending_score_24h numeric NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'trending_score_7d'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN trending_score_7d numeric NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'completion_rate'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN completion_rate numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'stats_updated_at'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN stats_updated_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_movies_trending ON movies(trending_score_7d DESC, trending_score_24h DESC, view_count DESC, id);
+
+CREATE OR REPLACE FUNCTION record_playback_event(
+  p_movie_id integer,
+  p_session_id text,
+  p_event_type text,
+  p_position_seconds numeric DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- A session sends six events per title; this leaves room for a binge
+  c_session_event_limit CONSTANT integer := 60;
+  c_session_window CONSTANT interval := interval '10 minutes';
+  -- Guest starts from one address, across however many sessions it claims
+  c_ip_start_limit CONSTANT integer := 30;
+  c_ip_window CONSTANT interval := interval '1 hour';
+  v_user_id uuid := auth.uid();
+  v_session_id text := p_session_id;
+  v_forwarded text[];
+  v_ip inet;
+BEGIN
+  IF p_session_id IS NULL OR length(p_session_id) = 0 OR length(p_session_id) > 64 THEN
+    RAISE EXCEPTION 'Invalid session id';
+  END IF;
+
+  -- Signed-in viewers count once per title a day, whatever session id they send
+  IF v_user_id IS NOT NULL THEN
+    v_session_id := 'user:' || v_user_id || ':' || to_char(now() AT TIME ZONE 'utc', 'YYYY-MM-DD');
+  END IF;
+
+  -- Proxies append to x-forwarded-for, so only the last hop, added by the
+  -- API gateway itself, is an address the client did not choose
+  BEGIN
+    v_forwarded := string_to_array(current_setting('request.headers', true)::json->>'x-forwarded-for', ',');
+    v_ip := nullif(trim(v_forwarded[cardinality(v_forwarded)]), '')::inet;
+  EXCEPTION WHEN others THEN
+    v_ip := NULL;
+  END;
+
+  -- Over the limit, events are dropped quietly: playback must not fail over analytics
+  IF (
+    SELECT count(*)
+    FROM playback_events
+    WHERE session_id = v_session_id
+      AND created_at > now() - c_session_window
+  ) >= c_session_event_limit THEN
+    RETURN;
+  END IF;
+
+  IF v_user_id IS NULL AND v_ip IS NOT NULL AND p_event_type = 'start' AND (
+    SELECT count(*)
+    FROM playback_events
+    WHERE client_ip = v_ip
+      AND user_id IS NULL
+      AND event_type = 'start'
+      AND created_at > now() - c_ip_window
+  ) >= c_ip_start_limit THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO playback_events (movie_id, user_id, session_id, event_type, position_seconds, client_ip)
+  VALUES (p_movie_id, v_user_id, v_session_id, p_event_type, greatest(coalesce(p_position_seconds, 0), 0), v_ip)
+  ON CONFLICT (session_id, movie_id, event_type) DO NOTHING;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_playback_event(integer, text, text, numeric) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_movie_stats()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- The top c_hot_limit titles by 24h score are Hot, given at least c_hot_min_score
+  c_hot_limit CONSTANT integer := 10;
+  c_hot_min_score CONSTANT numeric := 5;
+  -- now() is when this transaction started, and events carry the start time
+  -- of theirs, so one committed after this run can still be stamped before
+  -- it. Counting only up to a minute ago leaves those for the next run.
+  c_commit_lag CONSTANT interval := interval '1 minute';
+  v_now timestamptz := now();
+  v_watermark timestamptz := now() - c_commit_lag;
+  v_last_rolled_up_at timestamptz;
+BEGIN
+  -- Locking the watermark row keeps overlapping runs from counting twice
+  SELECT last_rolled_up_at INTO v_last_rolled_up_at
+  FROM movie_stats_rollup
+  WHERE id
+  FOR UPDATE;
+
+  UPDATE movies m
+  SET view_count = m.view_count + s.starts
+  FROM (
+    SELECT movie_id, count(*) AS starts
+    FROM playback_events
+    WHERE event_type = 'start'
+      AND created_at > v_last_rolled_up_at
+      AND created_at <= v_watermark
+    GROUP BY movie_id
+  ) s
+  WHERE s.movie_id = m.id;
+
+  UPDATE movie_stats_rollup SET last_rolled_up_at = greatest(v_last_rolled_up_at, v_watermark) WHERE id;
+
+  WITH scores AS (
+    SELECT
+      m.id,
+      coalesce(sum(1) FILTER (
+        WHERE e.created_at > v_now - interval '24 hours'
+      ), 0) AS score_24h,
+      coalesce(sum(power(0.5, extract(epoch FROM v_now - e.created_at) / 86400)) FILTER (
+        WHERE e.created_at > v_now - interval '7 days'
+      ), 0) AS score_7d,
+      count(*) FILTER (WHERE e.event_type = 'start') AS starts,
+      count(*) FILTER (WHERE e.event_type = 'complete') AS completions
+    FROM movies m
+    LEFT JOIN playback_events e
+      ON e.movie_id = m.id
+      AND e.event_type IN ('start', 'complete')
+    GROUP BY m.id
+  )
+  UPDATE movies m
+  SET trending_score_24h = s.score_24h,
+      trending_score_7d = round(s.score_7d::numeric, 3),
+      completion_rate = CASE WHEN s.starts > 0 THEN round(least(s.completions::numeric / s.starts, 1), 4) END,
+      stats_updated_at = v_now
+  FROM scores s
+  WHERE s.id = m.id;
+
+  -- Hot follows the numbers; other badges are hand-set and never replaced
+  WITH hot AS (
+    SELECT id
+    FROM movies
+    WHERE trending_score_24h >= c_hot_min_score
+      AND (badge IS NULL OR badge = 'Hot')
+      AND (series_id IS NULL OR episode_number = 1)
+    ORDER BY trending_score_24h DESC, view_count DESC, id
+    LIMIT c_hot_limit
+  )
+  UPDATE movies m
+  SET badge = CASE WHEN m.id IN (SELECT id FROM hot) THEN 'Hot' ELSE NULL END
+  WHERE m.badge = 'Hot' OR m.id IN (SELECT id FROM hot);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION refresh_movie_stats() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_movie_stats() TO service_role;
+
+-- Trending now reads the scores kept by refresh_movie_stats
+CREATE OR REPLACE FUNCTION home_rail_movies(
+  p_rail_id uuid,
+  p_offset integer DEFAULT 0,
+  p_limit integer DEFAULT 12
+)
+RETURNS SETOF movies
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rail home_rails%ROWTYPE;
+  v_offset integer := greatest(coalesce(p_offset, 0), 0);
+  v_limit integer := least(greatest(coalesce(p_limit, 12), 1), 50);
+  v_user_id uuid := auth.uid();
+BEGIN
+  SELECT * INTO v_rail FROM home_rails WHERE id = p_rail_id AND is_active;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  CASE v_rail.source_type
+    WHEN 'trending' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      WHERE (m.series_id IS NULL OR m.episode_number = 1)
+      ORDER BY m.trending_score_7d DESC, m.trending_score_24h DESC, m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'newest' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      WHERE (m.series_id IS NULL OR m.episode_number = 1)
+      ORDER BY m.created_at DESC, m.id DESC
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'tag' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      JOIN movie_tags mt ON mt.movie_id = m.id
+      JOIN tags t ON t.id = mt.tag_id
+      WHERE t.slug = v_rail.source_value
+        AND (m.series_id IS NULL OR m.episode_number = 1)
+      ORDER BY m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'genre' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      WHERE m.genre = v_rail.source_value
+        AND (m.series_id IS NULL OR m.episode_number = 1)
+      ORDER BY m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'editorial' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM home_rail_items ri
+      JOIN movies m ON m.id = ri.movie_id
+      WHERE ri.rail_id = v_rail.id
+      ORDER BY ri.position, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'personalised' THEN
+      IF v_user_id IS NULL THEN
+        RETURN;
+      END IF;
+
+      -- Unwatched titles in the genres this viewer watches most
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      JOIN (
+        SELECT wm.genre, count(*) AS plays
+        FROM user_watch_history wh
+        JOIN movies wm ON wm.id = wh.movie_id
+        WHERE wh.user_id = v_user_id
+        GROUP BY wm.genre
+      ) liked ON liked.genre = m.genre
+      WHERE (m.series_id IS NULL OR m.episode_number = 1)
+        AND NOT EXISTS (
+          SELECT 1 FROM user_watch_history wh
+          JOIN movies wm ON wm.id = wh.movie_id
+          WHERE wh.user_id = v_user_id
+            AND (wm.id = m.id OR (m.series_id IS NOT NULL AND wm.series_id = m.series_id))
+        )
+      ORDER BY liked.plays DESC, m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+  END CASE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION home_rail_movies(uuid, integer, integer) TO anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('refresh-movie-stats', '*/15 * * * *', 'SELECT refresh_movie_stats()');
+
+SELECT refresh_movie_stats();
@@ -0,0 +1,181 @@
+/*
+  # Recommendations
+
+  1. Functions
+    - `recommendation_score(p_co_watchers, p_seed_watchers, p_same_genre, p_shared_tags, p_view_count)`
+      - Pure and deterministic, so rankings can be checked against fixed
+        inputs. Co-watching is damped by how many people watched the seed,
+        then genre, shared tags and a little popularity break ties.
+    - `recommended_rails(p_rail_count, p_limit)` - "Because you watched X"
+      rails for the signed-in viewer
+      - Seeds are the titles most recently watched or added to the watchlist;
+        every row carries its seed's id, title and source
+      - Candidates are standalone movies and series openers that other viewers
+        of the seed also watched, or that share its genre or tags
+      - Finished titles, the seeds themselves and titles already on the
+        watchlist are left out
+      - Empty for guests; the client shows popular titles instead
+*/
+
+CREATE OR REPLACE FUNCTION recommendation_score(
+  p_co_watchers integer,
+  p_seed_watchers integer,
+  p_same_genre boolean,
+  p_shared_tags integer,
+  p_view_count bigint
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT round(
+    3 * greatest(coalesce(p_co_watchers, 0), 0)::numeric / (greatest(coalesce(p_seed_watchers, 0), 0) + 5)
+    + CASE WHEN p_same_genre THEN 1 ELSE 0 END
+    + 0.5 * least(greatest(coalesce(p_shared_tags, 0), 0), 4)
+    + 0.1 * log((1 + greatest(coalesce(p_view_count, 0), 0))::numeric),
+    6
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION recommendation_score(integer, integer, boolean, integer, bigint) TO anon, authenticated;
+
+-- Security definer so co-watching can look across viewers; only catalog rows
+-- and scores are returned
+CREATE OR REPLACE FUNCTION recommended_rails(
+  p_rail_count integer DEFAULT 3,
+  p_limit integer DEFAULT 12
+)
+RETURNS TABLE (
+  seed_movie_id integer,
+  seed_title text,
+  seed_source text,
+  id integer,
+  title text,
+  genre text,
+  view_count bigint,
+  poster_url text,
+  landscape_poster_url text,
+  badge text,
+  synopsis text,
+  episodes integer,
+  duration_seconds integer,
+  created_at timestamptz,
+  series_id text,
+  episode_number integer,
+  score numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_rail_count integer := least(greatest(coalesce(p_rail_count, 3), 1), 10);
+  v_limit integer := least(greatest(coalesce(p_limit, 12), 1), 50);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH titles AS (
+    -- A standalone movie or a whole series, keyed the same way
+    SELECT m.id AS movie_id, coalesce(m.series_id, m.id::text) AS title_key
+    FROM movies m
+  ),
+  openers AS (
+    SELECT m.id, m.title, m.genre, m.view_count, coalesce(m.series_id, m.id::text) AS title_key
+    FROM movies m
+    WHERE m.series_id IS NULL OR m.episode_number = 1
+  ),
+  viewings AS (
+    SELECT DISTINCT wh.user_id, t.title_key
+    FROM user_watch_history wh
+    JOIN titles t ON t.movie_id = wh.movie_id
+  ),
+  -- Movies watched to 90%, and series whose last episode was
+  finished AS (
+    SELECT DISTINCT coalesce(m.series_id, m.id::text) AS title_key
+    FROM user_watch_history wh
+    JOIN movies m ON m.id = wh.movie_id
+    WHERE wh.user_id = v_user_id
+      AND wh.total_duration_seconds > 0
+      AND wh.progress_seconds >= wh.total_duration_seconds * 0.9
+      AND (
+        m.series_id IS NULL
+        OR m.episode_number = (SELECT max(e.episode_number) FROM movies e WHERE e.series_id = m.series_id)
+      )
+  ),
+  saved AS (
+    SELECT DISTINCT t.title_key
+    FROM user_watchlist wl
+    JOIN titles t ON t.movie_id = wl.movie_id
+    WHERE wl.user_id = v_user_id
+  ),
+  activity AS (
+    SELECT DISTINCT ON (a.title_key) a.title_key, a.seed_source, a.seen_at
+    FROM (
+      SELECT t.title_key, 'watched' AS seed_source, wh.last_watched_at AS seen_at
+      FROM user_watch_history wh
+      JOIN titles t ON t.movie_id = wh.movie_id
+      WHERE wh.user_id = v_user_id
+      UNION ALL
+      SELECT t.title_key, 'watchlist' AS seed_source, wl.created_at AS seen_at
+      FROM user_watchlist wl
+      JOIN titles t ON t.movie_id = wl.movie_id
+      WHERE wl.user_id = v_user_id
+    ) a
+    ORDER BY a.title_key, a.seen_at DESC
+  ),
+  seeds AS (
+    SELECT o.id AS seed_movie_id, o.title AS seed_title, o.genre AS seed_genre, a.seed_source, a.seen_at, a.title_key,
+      (SELECT count(*) FROM viewings v WHERE v.title_key = a.title_key AND v.user_id <> v_user_id)::integer AS seed_watchers
+    FROM activity a
+    JOIN openers o ON o.title_key = a.title_key
+    ORDER BY a.seen_at DESC, o.id
+    LIMIT v_rail_count
+  ),
+  co_watch AS (
+    SELECT s.title_key AS seed_key, other.title_key AS candidate_key, count(*)::integer AS co_watchers
+    FROM seeds s
+    JOIN viewings seed_viewer ON seed_viewer.title_key = s.title_key AND seed_viewer.user_id <> v_user_id
+    JOIN viewings other ON other.user_id = seed_viewer.user_id AND other.title_key <> s.title_key
+    GROUP BY s.title_key, other.title_key
+  ),
+  shared_tags AS (
+    SELECT s.title_key AS seed_key, candidate_tag.movie_id AS candidate_id, count(*)::integer AS shared
+    FROM seeds s
+    JOIN movie_tags seed_tag ON seed_tag.movie_id = s.seed_movie_id
+    JOIN movie_tags candidate_tag ON candidate_tag.tag_id = seed_tag.tag_id AND candidate_tag.movie_id <> s.seed_movie_id
+    GROUP BY s.title_key, candidate_tag.movie_id
+  ),
+  scored AS (
+    SELECT s.seed_movie_id, s.seed_title, s.seed_source, s.seen_at, o.id AS movie_id,
+      recommendation_score(cw.co_watchers, s.seed_watchers, o.genre = s.seed_genre, st.shared, o.view_count) AS score
+    FROM seeds s
+    JOIN openers o ON o.title_key <> s.title_key
+    LEFT JOIN co_watch cw ON cw.seed_key = s.title_key AND cw.candidate_key = o.title_key
+    LEFT JOIN shared_tags st ON st.seed_key = s.title_key AND st.candidate_id = o.id
+    WHERE (cw.co_watchers IS NOT NULL OR o.genre = s.seed_genre OR st.shared IS NOT NULL)
+      AND o.title_key NOT IN (SELECT f.title_key FROM finished f)
+      AND o.title_key NOT IN (SELECT sd.title_key FROM seeds sd)
+      AND o.title_key NOT IN (SELECT sv.title_key FROM saved sv)
+  ),
+  ranked AS (
+    SELECT sc.*, row_number() OVER (PARTITION BY sc.seed_movie_id ORDER BY sc.score DESC, sc.movie_id) AS position
+    FROM scored sc
+  )
+  SELECT r.seed_movie_id, r.seed_title, r.seed_source,
+         m.id, m.title, m.genre, m.view_count, m.poster_url, m.landscape_poster_url, m.badge,
+         m.synopsis, m.episodes, m.duration_seconds, m.created_at, m.series_id, m.episode_number,
+         r.score
+  FROM ranked r
+  JOIN movies m ON m.id = r.movie_id
+  WHERE r.position <= v_limit
+  ORDER BY r.seen_at DESC, r.seed_movie_id, r.position;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION recommended_rails(integer, integer) TO authenticated;
@@ -0,0 +1,638 @@
+/*
+  # Series and seasons
+
+  1. New Tables
+    - `series`
+      - `id` (text, primary key) - the former free-text `movies.series_id`,
+        kept as the key so existing /series/<id>/ep/<n> links still work
+      - `title`, `synopsis`, `genre` (text)
+      - `poster_url`, `landscape_poster_url` (text)
+      - `status` (text) - ongoing, completed or upcoming
+      - `season_count` (integer) - maintained by trigger
+      - `total_episodes` (integer) - maintained by trigger
+      - `first_episode_id` (integer, references movies) - where "play from the
+        start" goes; maintained by trigger
+      - `created_at`, `updated_at` (timestamp)
+    - `seasons`
+      - `id` (uuid, primary key)
+      - `series_id` (text, references series)
+      - `season_number` (integer, unique per series)
+      - `title`, `synopsis` (text, nullable)
+      - `episode_count` (integer) - maintained by trigger
+      - `created_at` (timestamp)
+
+  2. Changes to `movies`
+    - `series_id` now references `series`
+    - New `season_id` (uuid, references seasons); episodes added or moved
+      without one join their series' latest season
+    - `episode_number` keeps counting across seasons, so links stay unique
+    - `episodes` is computed: the series' total for episodes, 1 for
+      standalone movies. Values typed in by hand are overwritten.
+
+  3. Security
+    - Enable RLS on both tables with public read access
+
+  4. Functions
+    - `browse_movies`, `home_rail_movies`, `recommended_rails` and the Hot
+      badge in `refresh_movie_stats` list a series through its
+      `first_episode_id`
+
+  5. Data
+    - One series per distinct `movies.series_id`, taking its title, synopsis,
+      genre and posters from the earliest episode, with every existing
+      episode placed in season 1
+*/
+
+CREATE TABLE IF NOT EXISTS series (
+  id text PRIMARY KEY,
+  title text NOT NULL,
+  synopsis text,
+  genre text,
+  poster_url text,
+  landscape_poster_url text,
+  status text NOT NULL DEFAULT 'ongoing' CHECK (status IN ('ongoing', 'completed', 'upcoming')),
+  season_count integer NOT NULL DEFAULT 0,
+  total_episodes integer NOT NULL DEFAULT 0,
+  first_episode_id integer REFERENCES movies(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS seasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id text NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+  season_number integer NOT NULL CHECK (season_number > 0),
+  title text,
+  synopsis text,
+  episode_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (series_id, season_number)
+);
+
+ALTER TABLE series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON series
+  FOR SELECT USING (true);
+
+CREATE POLICY "Enable read access for all users" ON seasons
+  FOR SELECT USING (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'movies' AND column_name = 'season_id'
+  ) THEN
+    ALTER TABLE movies ADD COLUMN season_id uuid REFERENCES seasons(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_movies_season_episode ON movies(season_id, episode_number) WHERE season_id IS NOT NULL;
+
+-- Backfill from the episodes themselves
+INSERT INTO series (id, title, synopsis, genre, poster_url, landscape_poster_url, created_at)
+SELECT DISTINCT ON (m.series_id)
+  m.series_id, m.title, m.synopsis, m.genre, m.poster_url, m.landscape_poster_url, m.created_at
+FROM movies m
+WHERE m.series_id IS NOT NULL
+ORDER BY m.series_id, m.episode_number NULLS LAST, m.id
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO seasons (series_id, season_number)
+SELECT s.id, 1
+FROM series s
+ON CONFLICT (series_id, season_number) DO NOTHING;
+
+UPDATE movies m
+SET season_id = se.id
+FROM seasons se
+WHERE se.series_id = m.series_id
+  AND se.season_number = 1
+  AND m.season_id IS NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'movies_series_id_fkey'
+  ) THEN
+    ALTER TABLE movies
+      ADD CONSTRAINT movies_series_id_fkey
+      FOREIGN KEY (series_id) REFERENCES series(id) ON UPDATE CASCADE ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Recount a series, its seasons and the episode counts its episodes carry
+CREATE OR REPLACE FUNCTION refresh_series_counts(p_series_id text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total integer;
+BEGIN
+  IF p_series_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE seasons se
+  SET episode_count = (SELECT count(*) FROM movies m WHERE m.season_id = se.id)
+  WHERE se.series_id = p_series_id;
+
+  SELECT count(*) INTO v_total FROM movies WHERE series_id = p_series_id;
+
+  UPDATE series s
+  SET total_episodes = v_total,
+      season_count = (SELECT count(*) FROM seasons se WHERE se.series_id = s.id),
+      first_episode_id = (
+        SELECT m.id
+        FROM movies m
+        LEFT JOIN seasons se ON se.id = m.season_id
+        WHERE m.series_id = s.id
+        ORDER BY se.season_number NULLS LAST, m.episode_number NULLS LAST, m.id
+        LIMIT 1
+      ),
+      updated_at = now()
+  WHERE s.id = p_series_id;
+
+  UPDATE movies
+  SET episodes = v_total
+  WHERE series_id = p_series_id
+    AND episodes IS DISTINCT FROM v_total;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION refresh_series_counts(text) FROM public, anon, authenticated;
+
+-- Standalone movies are a single episode; series episodes take their
+-- series' total, which refresh_series_counts keeps current
+CREATE OR REPLACE FUNCTION set_movie_episode_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.series_id IS NULL THEN
+    NEW.episodes := 1;
+  ELSE
+    NEW.episodes := coalesce((SELECT total_episodes FROM series WHERE id = NEW.series_id), NEW.episodes);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Episodes added without a season join their series' latest one, which is
+-- created as season 1 if the series has none yet. Episodes moved to
+-- another series are placed the same way.
+CREATE OR REPLACE FUNCTION set_movie_season()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.series_id IS NULL THEN
+    NEW.season_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.season_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM seasons WHERE id = NEW.season_id AND series_id = NEW.series_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO seasons (series_id, season_number)
+  SELECT NEW.series_id, 1
+  WHERE NOT EXISTS (SELECT 1 FROM seasons WHERE series_id = NEW.series_id)
+  ON CONFLICT (series_id, season_number) DO NOTHING;
+
+  SELECT id INTO NEW.season_id
+  FROM seasons
+  WHERE series_id = NEW.series_id
+  ORDER BY season_number DESC
+  LIMIT 1;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION movies_refresh_series_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_series_counts(OLD.series_id);
+  END IF;
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.series_id IS DISTINCT FROM OLD.series_id) THEN
+    PERFORM refresh_series_counts(NEW.series_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION seasons_refresh_series_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_series_counts(OLD.series_id);
+  END IF;
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.series_id IS DISTINCT FROM OLD.series_id) THEN
+    PERFORM refresh_series_counts(NEW.series_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_movie_episode_count ON movies;
+CREATE TRIGGER set_movie_episode_count
+  BEFORE INSERT OR UPDATE OF series_id, episodes ON movies
+  FOR EACH ROW EXECUTE FUNCTION set_movie_episode_count();
+
+DROP TRIGGER IF EXISTS set_movie_season ON movies;
+CREATE TRIGGER set_movie_season
+  BEFORE INSERT OR UPDATE OF series_id ON movies
+  FOR EACH ROW EXECUTE FUNCTION set_movie_season();
+
+DROP TRIGGER IF EXISTS movies_refresh_series_counts ON movies;
+CREATE TRIGGER movies_refresh_series_counts
+  AFTER INSERT OR DELETE OR UPDATE OF series_id, season_id, episode_number ON movies
+  FOR EACH ROW EXECUTE FUNCTION movies_refresh_series_counts();
+
+DROP TRIGGER IF EXISTS seasons_refresh_series_counts ON seasons;
+CREATE TRIGGER seasons_refresh_series_counts
+  AFTER INSERT OR DELETE OR UPDATE OF series_id, season_number ON seasons
+  FOR EACH ROW EXECUTE FUNCTION seasons_refresh_series_counts();
+
+-- Compute every count once now that the triggers are in place
+UPDATE movies SET episodes = 1 WHERE series_id IS NULL;
+
+SELECT refresh_series_counts(id) FROM series;
+
+-- Catalog titles are standalone movies and each series' first episode,
+-- rather than whichever row happens to be numbered 1
+CREATE OR REPLACE FUNCTION browse_movies(
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_sort text DEFAULT 'popularity',
+  p_after jsonb DEFAULT NULL,
+  p_limit integer DEFAULT 24
+)
+RETURNS SETOF movies
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_filters jsonb := coalesce(p_filters, '{}'::jsonb);
+  v_tags text[] := ARRAY(SELECT jsonb_array_elements_text(coalesce(v_filters->'tags', '[]'::jsonb)));
+  v_tag_match text := CASE WHEN v_filters->>'tag_match' = 'all' THEN 'all' ELSE 'any' END;
+  v_limit integer := least(greatest(coalesce(p_limit, 24), 1), 100);
+  v_key text;
+  v_type text;
+  v_direction text;
+BEGIN
+  -- Sort key, its type for reading the cursor back, and direction
+  CASE p_sort
+    WHEN 'newest' THEN v_key := 'm.created_at'; v_type := 'timestamptz'; v_direction := 'DESC';
+    WHEN 'oldest' THEN v_key := 'm.created_at'; v_type := 'timestamptz'; v_direction := 'ASC';
+    WHEN 'alphabetical' THEN v_key := 'm.title'; v_type := 'text'; v_direction := 'ASC';
+    WHEN 'episodes' THEN v_key := 'coalesce(m.episodes, 0)'; v_type := 'integer'; v_direction := 'DESC';
+    ELSE v_key := 'm.view_count'; v_type := 'bigint'; v_direction := 'DESC';
+  END CASE;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT m.*
+       FROM movies m
+      WHERE (m.series_id IS NULL OR m.id IN (SELECT s.first_episode_id FROM series s))
+        AND ($1->>''genre'' IS NULL OR m.genre = $1->>''genre'')
+        AND ($1->>''badge'' IS NULL OR m.badge = $1->>''badge'')
+        AND (cardinality($2) = 0 OR m.id IN (SELECT t.id FROM movies_with_tags($2, $3) t))
+        AND ($4 IS NULL OR (%1$s, m.id) %2$s (($4->>''value'')::%3$s, ($4->>''id'')::integer))
+      ORDER BY %1$s %4$s, m.id %4$s
+      LIMIT $5',
+    v_key,
+    CASE WHEN v_direction = 'DESC' THEN '<' ELSE '>' END,
+    v_type,
+    v_direction
+  )
+  USING v_filters, v_tags, v_tag_match, p_after, v_limit;
+END;
+$$;
+
+
+-- Home rails pick titles the same way
+CREATE OR REPLACE FUNCTION home_rail_movies(
+  p_rail_id uuid,
+  p_offset integer DEFAULT 0,
+  p_limit integer DEFAULT 12
+)
+RETURNS SETOF movies
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rail home_rails%ROWTYPE;
+  v_offset integer := greatest(coalesce(p_offset, 0), 0);
+  v_limit integer := least(greatest(coalesce(p_limit, 12), 1), 50);
+  v_user_id uuid := auth.uid();
+BEGIN
+  SELECT * INTO v_rail FROM home_rails WHERE id = p_rail_id AND is_active;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  CASE v_rail.source_type
+    WHEN 'trending' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      WHERE (m.series_id IS NULL OR m.id IN (SELECT s.first_episode_id FROM series s))
+      ORDER BY m.trending_score_7d DESC, m.trending_score_24h DESC, m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'newest' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      WHERE (m.series_id IS NULL OR m.id IN (SELECT s.first_episode_id FROM series s))
+      ORDER BY m.created_at DESC, m.id DESC
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'tag' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      JOIN movie_tags mt ON mt.movie_id = m.id
+      JOIN tags t ON t.id = mt.tag_id
+      WHERE t.slug = v_rail.source_value
+        AND (m.series_id IS NULL OR m.id IN (SELECT s.first_episode_id FROM series s))
+      ORDER BY m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'genre' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      WHERE m.genre = v_rail.source_value
+        AND (m.series_id IS NULL OR m.id IN (SELECT s.first_episode_id FROM series s))
+      ORDER BY m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'editorial' THEN
+      RETURN QUERY
+      SELECT m.*
+      FROM home_rail_items ri
+      JOIN movies m ON m.id = ri.movie_id
+      WHERE ri.rail_id = v_rail.id
+      ORDER BY ri.position, m.id
+      OFFSET v_offset LIMIT v_limit;
+
+    WHEN 'personalised' THEN
+      IF v_user_id IS NULL THEN
+        RETURN;
+      END IF;
+
+      -- Unwatched titles in the genres this viewer watches most
+      RETURN QUERY
+      SELECT m.*
+      FROM movies m
+      JOIN (
+        SELECT wm.genre, count(*) AS plays
+        FROM user_watch_history wh
+        JOIN movies wm ON wm.id = wh.movie_id
+        WHERE wh.user_id = v_user_id
+        GROUP BY wm.genre
+      ) liked ON liked.genre = m.genre
+      WHERE (m.series_id IS NULL OR m.id IN (SELECT s.first_episode_id FROM series s))
+        AND NOT EXISTS (
+          SELECT 1 FROM user_watch_history wh
+          JOIN movies wm ON wm.id = wh.movie_id
+          WHERE wh.user_id = v_user_id
+            AND (wm.id = m.id OR (m.series_id IS NOT NULL AND wm.series_id = m.series_id))
+        )
+      ORDER BY liked.plays DESC, m.view_count DESC, m.id
+      OFFSET v_offset LIMIT v_limit;
+  END CASE;
+END;
+$$;
+
+-- So do recommendations
+CREATE OR REPLACE FUNCTION recommended_rails(
+  p_rail_count integer DEFAULT 3,
+  p_limit integer DEFAULT 12
+)
+RETURNS TABLE (
+  seed_movie_id integer,
+  seed_title text,
+  seed_source text,
+  id integer,
+  title text,
+  genre text,
+  view_count bigint,
+  poster_url text,
+  landscape_poster_url text,
+  badge text,
+  synopsis text,
+  episodes integer,
+  duration_seconds integer,
+  created_at timestamptz,
+  series_id text,
+  episode_number integer,
+  score numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_rail_count integer := least(greatest(coalesce(p_rail_count, 3), 1), 10);
+  v_limit integer := least(greatest(coalesce(p_limit, 12), 1), 50);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH titles AS (
+    -- A standalone movie or a whole series, keyed the same way
+    SELECT m.id AS movie_id, coalesce(m.series_id, m.id::text) AS title_key
+    FROM movies m
+  ),
+  openers AS (
+    SELECT m.id, m.title, m.genre, m.view_count, coalesce(m.series_id, m.id::text) AS title_key
+    FROM movies m
+    WHERE m.series_id IS NULL OR m.id IN (SELECT s.first_episode_id FROM series s)
+  ),
+  viewings AS (
+    SELECT DISTINCT wh.user_id, t.title_key
+    FROM user_watch_history wh
+    JOIN titles t ON t.movie_id = wh.movie_id
+  ),
+  -- Movies watched to 90%, and series whose last episode was
+  finished AS (
+    SELECT DISTINCT coalesce(m.series_id, m.id::text) AS title_key
+    FROM user_watch_history wh
+    JOIN movies m ON m.id = wh.movie_id
+    WHERE wh.user_id = v_user_id
+      AND wh.total_duration_seconds > 0
+      AND wh.progress_seconds >= wh.total_duration_seconds * 0.9
+      AND (
+        m.series_id IS NULL
+        OR m.episode_number = (SELECT max(e.episode_number) FROM movies e WHERE e.series_id = m.series_id)
+      )
+  ),
+  saved AS (
+    SELECT DISTINCT t.title_key
+    FROM user_watchlist wl
+    JOIN titles t ON t.movie_id = wl.movie_id
+    WHERE wl.user_id = v_user_id
+  ),
+  activity AS (
+    SELECT DISTINCT ON (a.title_key) a.title_key, a.seed_source, a.seen_at
+    FROM (
+      SELECT t.title_key, 'watched' AS seed_source, wh.last_watched_at AS seen_at
+      FROM user_watch_history wh
+      JOIN titles t ON t.movie_id = wh.movie_id
+      WHERE wh.user_id = v_user_id
+      UNION ALL
+      SELECT t.title_key, 'watchlist' AS seed_source, wl.created_at AS seen_at
+      FROM user_watchlist wl
+      JOIN titles t ON t.movie_id = wl.movie_id
+      WHERE wl.user_id = v_user_id
+    ) a
+    ORDER BY a.title_key, a.seen_at DESC
+  ),
+  seeds AS (
+    SELECT o.id AS seed_movie_id, o.title AS seed_title, o.genre AS seed_genre, a.seed_source, a.seen_at, a.title_key,
+      (SELECT count(*) FROM viewings v WHERE v.title_key = a.title_key AND v.user_id <> v_user_id)::integer AS seed_watchers
+    FROM activity a
+    JOIN openers o ON o.title_key = a.title_key
+    ORDER BY a.seen_at DESC, o.id
+    LIMIT v_rail_count
+  ),
+  co_watch AS (
+    SELECT s.title_key AS seed_key, other.title_key AS candidate_key, count(*)::integer AS co_watchers
+    FROM seeds s
+    JOIN viewings seed_viewer ON seed_viewer.title_key = s.title_key AND seed_viewer.user_id <> v_user_id
+    JOIN viewings other ON other.user_id = seed_viewer.user_id AND other.title_key <> s.title_key
+    GROUP BY s.title_key, other.title_key
+  ),
+  shared_tags AS (
+    SELECT s.title_key AS seed_key, candidate_tag.movie_id AS candidate_id, count(*)::integer AS shared
+    FROM seeds s
+    JOIN movie_tags seed_tag ON seed_tag.movie_id = s.seed_movie_id
+    JOIN movie_tags candidate_tag ON candidate_tag.tag_id = seed_tag.tag_id AND candidate_tag.movie_id <> s.seed_movie_id
+    GROUP BY s.title_key, candidate_tag.movie_id
+  ),
+  scored AS (
+    SELECT s.seed_movie_id, s.seed_title, s.seed_source, s.seen_at, o.id AS movie_id,
+      recommendation_score(cw.co_watchers, s.seed_watchers, o.genre = s.seed_genre, st.shared, o.view_count) AS score
+    FROM seeds s
+    JOIN openers o ON o.title_key <> s.title_key
+    LEFT JOIN co_watch cw ON cw.seed_key = s.title_key AND cw.candidate_key = o.title_key
+    LEFT JOIN shared_tags st ON st.seed_key = s.title_key AND st.candidate_id = o.id
+    WHERE (cw.co_watchers IS NOT NULL OR o.genre = s.seed_genre OR st.shared IS NOT NULL)
+      AND o.title_key NOT IN (SELECT f.title_key FROM finished f)
+      AND o.title_key NOT IN (SELECT sd.title_key FROM seeds sd)
+      AND o.title_key NOT IN (SELECT sv.title_key FROM saved sv)
+  ),
+  ranked AS (
+    SELECT sc.*, row_number() OVER (PARTITION BY sc.seed_movie_id ORDER BY sc.score DESC, sc.movie_id) AS position
+    FROM scored sc
+  )
+  SELECT r.seed_movie_id, r.seed_title, r.seed_source,
+         m.id, m.title, m.genre, m.view_count, m.poster_url, m.landscape_poster_url, m.badge,
+         m.synopsis, m.episodes, m.duration_seconds, m.created_at, m.series_id, m.episode_number,
+         r.score
+  FROM ranked r
+  JOIN movies m ON m.id = r.movie_id
+  WHERE r.position <= v_limit
+  ORDER BY r.seen_at DESC, r.seed_movie_id, r.position;
+END;
+$$;
+
+-- And the Hot badge, which goes on the title a viewer sees in the catalog
+CREATE OR REPLACE FUNCTION refresh_movie_stats()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- The top c_hot_limit titles by 24h score are Hot, given at least c_hot_min_score
+  c_hot_limit CONSTANT integer := 10;
+  c_hot_min_score CONSTANT numeric := 5;
+  -- now() is when this transaction started, and events carry the start time
+  -- of theirs, so one committed after this run can still be stamped before
+  -- it. Counting only up to a minute ago leaves those for the next run.
+  c_commit_lag CONSTANT interval := interval '1 minute';
+  v_now timestamptz := now();
+  v_watermark timestamptz := now() - c_commit_lag;
+  v_last_rolled_up_at timestamptz;
+BEGIN
+  -- Locking the watermark row keeps overlapping runs from counting twice
+  SELECT last_rolled_up_at INTO v_last_rolled_up_at
+  FROM movie_stats_rollup
+  WHERE id
+  FOR UPDATE;
+
+  UPDATE movies m
+  SET view_count = m.view_count + s.starts
+  FROM (
+    SELECT movie_id, count(*) AS starts
+    FROM playback_events
+    WHERE event_type = 'start'
+      AND created_at > v_last_rolled_up_at
+      AND created_at <= v_watermark
+    GROUP BY movie_id
+  ) s
+  WHERE s.movie_id = m.id;
+
+  UPDATE movie_stats_rollup SET last_rolled_up_at = greatest(v_last_rolled_up_at, v_watermark) WHERE id;
+
+  WITH scores AS (
+    SELECT
+      m.id,
+      coalesce(sum(1) FILTER (
+        WHERE e.created_at > v_now - interval '24 hours'
+      ), 0) AS score_24h,
+      coalesce(sum(power(0.5, extract(epoch FROM v_now - e.created_at) / 86400)) FILTER (
+        WHERE e.created_at > v_now - interval '7 days'
+      ), 0) AS score_7d,
+      count(*) FILTER (WHERE e.event_type = 'start') AS starts,
+      count(*) FILTER (WHERE e.event_type = 'complete') AS completions
+    FROM movies m
+    LEFT JOIN playback_events e
+      ON e.movie_id = m.id
+      AND e.event_type IN ('start', 'complete')
+    GROUP BY m.id
+  )
+  UPDATE movies m
+  SET trending_score_24h = s.score_24h,
+      trending_score_7d = round(s.score_7d::numeric, 3),
+      completion_rate = CASE WHEN s.starts > 0 THEN round(least(s.completions::numeric / s.starts, 1), 4) END,
+      stats_updated_at = v_now
+  FROM scores s
+  WHERE s.id = m.id;
+
+  -- Hot follows the numbers; other badges are hand-set and never replaced
+  WITH hot AS (
+    SELECT id
+    FROM movies
+    WHERE trending_score_24h >= c_hot_min_score
+      AND (badge IS NULL OR badge = 'Hot')
+      AND (series_id IS NULL OR id IN (SELECT s.first_episode_id FROM series s))
+    ORDER BY trending_score_24h DESC, view_count DESC, id
+    LIMIT c_hot_limit
+  )
+  UPDATE movies m
+  SET badge = CASE WHEN m.id IN (SELECT id FROM hot) THEN 'Hot' ELSE NULL END
+  WHERE m.badge = 'Hot' OR m.id IN (SELECT id FROM hot);
+END;
+$$;
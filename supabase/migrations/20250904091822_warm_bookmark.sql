@@ -0,0 +1,150 @@
+/*
+  # Series-level continue watching
+
+  1. Functions
+    - `continue_watching(p_limit)` - the signed-in viewer's history with one
+      row per title instead of one per episode
+      - The row is the episode to resume: the most recently watched one if it
+        is unfinished, otherwise the episode after it
+      - `season_number` and `season_episode_number` give "S1:E7";
+        `episode_number` keeps counting across seasons
+      - `completion_percent` is finished episodes over the series total, or
+        the position within a standalone movie
+      - `is_completed` marks titles with nothing left to watch
+      - Posters are the series' own where it has them
+    - `remove_title_from_watch_history(p_movie_id)` - forgets a movie, or every
+      episode of the series it belongs to
+
+  2. Notes
+    - An episode counts as finished at 90% of its duration
+*/
+
+CREATE OR REPLACE FUNCTION continue_watching(p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  id integer,
+  title text,
+  genre text,
+  view_count bigint,
+  poster_url text,
+  landscape_poster_url text,
+  badge text,
+  synopsis text,
+  episodes integer,
+  duration_seconds integer,
+  created_at timestamptz,
+  series_id text,
+  season_id uuid,
+  episode_number integer,
+  progress_seconds integer,
+  total_duration_seconds integer,
+  last_watched_at timestamptz,
+  series_title text,
+  season_number integer,
+  season_episode_number integer,
+  completed_episodes integer,
+  completion_percent integer,
+  is_completed boolean
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH history AS (
+    SELECT wh.movie_id, wh.progress_seconds, wh.total_duration_seconds, wh.last_watched_at,
+      coalesce(m.series_id, m.id::text) AS title_key,
+      (wh.total_duration_seconds > 0 AND wh.progress_seconds >= wh.total_duration_seconds * 0.9) AS is_finished
+    FROM user_watch_history wh
+    JOIN movies m ON m.id = wh.movie_id
+    WHERE wh.user_id = auth.uid()
+  ),
+  -- Every episode of the watched titles in play order
+  title_episodes AS (
+    SELECT m.id, m.title, m.genre, m.view_count, m.poster_url, m.landscape_poster_url, m.badge,
+      m.synopsis, m.episodes, m.duration_seconds, m.created_at, m.series_id, m.season_id, m.episode_number,
+      coalesce(m.series_id, m.id::text) AS title_key,
+      se.season_number,
+      row_number() OVER (PARTITION BY m.season_id ORDER BY m.episode_number NULLS LAST, m.id) AS season_episode_number,
+      row_number() OVER (
+        PARTITION BY coalesce(m.series_id, m.id::text)
+        ORDER BY se.season_number NULLS LAST, m.episode_number NULLS LAST, m.id
+      ) AS play_order
+    FROM movies m
+    LEFT JOIN seasons se ON se.id = m.season_id
+    WHERE coalesce(m.series_id, m.id::text) IN (SELECT h.title_key FROM history h)
+  ),
+  latest AS (
+    SELECT DISTINCT ON (h.title_key) h.title_key, h.movie_id, h.progress_seconds, h.total_duration_seconds,
+      h.last_watched_at, h.is_finished, te.play_order
+    FROM history h
+    JOIN title_episodes te ON te.id = h.movie_id
+    ORDER BY h.title_key, h.last_watched_at DESC
+  ),
+  title_progress AS (
+    SELECT h.title_key, count(*) FILTER (WHERE h.is_finished) AS completed_episodes
+    FROM history h
+    GROUP BY h.title_key
+  ),
+  title_totals AS (
+    SELECT te.title_key, count(*) AS total_episodes
+    FROM title_episodes te
+    GROUP BY te.title_key
+  ),
+  resume AS (
+    SELECT l.*, coalesce(next_episode.id, l.movie_id) AS resume_movie_id,
+      (l.is_finished AND next_episode.id IS NULL) AS is_completed
+    FROM latest l
+    LEFT JOIN LATERAL (
+      SELECT te.id
+      FROM title_episodes te
+      WHERE l.is_finished
+        AND te.title_key = l.title_key
+        AND te.play_order > l.play_order
+      ORDER BY te.play_order
+      LIMIT 1
+    ) next_episode ON true
+  )
+  SELECT te.id, te.title, te.genre, te.view_count,
+    coalesce(s.poster_url, te.poster_url),
+    coalesce(s.landscape_poster_url, te.landscape_poster_url),
+    te.badge, te.synopsis, te.episodes, te.duration_seconds, te.created_at, te.series_id, te.season_id, te.episode_number,
+    CASE WHEN r.resume_movie_id = r.movie_id THEN r.progress_seconds ELSE 0 END,
+    CASE WHEN r.resume_movie_id = r.movie_id THEN r.total_duration_seconds ELSE coalesce(te.duration_seconds, 0) END,
+    r.last_watched_at,
+    s.title,
+    te.season_number,
+    CASE WHEN te.series_id IS NULL THEN NULL ELSE te.season_episode_number::integer END,
+    tp.completed_episodes::integer,
+    CASE
+      WHEN te.series_id IS NULL THEN
+        CASE WHEN r.total_duration_seconds > 0
+          THEN least(round(100.0 * r.progress_seconds / r.total_duration_seconds), 100)::integer
+          ELSE 0
+        END
+      ELSE least(round(100.0 * tp.completed_episodes / greatest(tt.total_episodes, 1)), 100)::integer
+    END,
+    r.is_completed
+  FROM resume r
+  JOIN title_episodes te ON te.id = r.resume_movie_id
+  JOIN title_progress tp ON tp.title_key = r.title_key
+  JOIN title_totals tt ON tt.title_key = r.title_key
+  LEFT JOIN series s ON s.id = te.series_id
+  ORDER BY r.last_watched_at DESC
+  LIMIT least(greatest(coalesce(p_limit, 20), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION continue_watching(integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION remove_title_from_watch_history(p_movie_id integer)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  DELETE FROM user_watch_history wh
+  USING movies m, movies target
+  WHERE target.id = p_movie_id
+    AND wh.user_id = auth.uid()
+    AND m.id = wh.movie_id
+    AND (m.id = target.id OR (target.series_id IS NOT NULL AND m.series_id = target.series_id));
+$$;
+
+GRANT EXECUTE ON FUNCTION remove_title_from_watch_history(integer) TO authenticated;
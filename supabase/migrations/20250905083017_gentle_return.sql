@@ -0,0 +1,285 @@
+/*
+  # Finished episodes end at the credits
+
+  1. Functions
+    - `is_finished_position(p_progress, p_total, p_credits_start)` - whether a
+      saved position counts as watched: inside the last 5% or past the start
+      of the credits
+    - `continue_watching(p_limit)` - recreated to use it, so a title the
+      player treats as finished moves on to the next episode here too
+    - `recommended_rails(p_rail_count, p_limit)` - recreated to use it, so
+      the titles it leaves out as finished are the same ones
+
+  2. Notes
+    - Replaces the flat 90% rule; the player applies the same rule when it
+      decides whether to offer "Resume"
+*/
+
+CREATE OR REPLACE FUNCTION is_finished_position(
+  p_progress integer,
+  p_total integer,
+  p_credits_start numeric
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(p_total, 0) > 0 AND (
+    p_progress >= p_total * 0.95
+    OR (p_credits_start IS NOT NULL AND p_credits_start < p_total AND p_progress >= p_credits_start)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_finished_position(integer, integer, numeric) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION continue_watching(p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  id integer,
+  title text,
+  genre text,
+  view_count bigint,
+  poster_url text,
+  landscape_poster_url text,
+  badge text,
+  synopsis text,
+  episodes integer,
+  duration_seconds integer,
+  created_at timestamptz,
+  series_id text,
+  season_id uuid,
+  episode_number integer,
+  progress_seconds integer,
+  total_duration_seconds integer,
+  last_watched_at timestamptz,
+  series_title text,
+  season_number integer,
+  season_episode_number integer,
+  completed_episodes integer,
+  completion_percent integer,
+  is_completed boolean
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH history AS (
+    SELECT wh.movie_id, wh.progress_seconds, wh.total_duration_seconds, wh.last_watched_at,
+      coalesce(m.series_id, m.id::text) AS title_key,
+      is_finished_position(wh.progress_seconds, wh.total_duration_seconds, m.credits_start_seconds) AS is_finished
+    FROM user_watch_history wh
+    JOIN movies m ON m.id = wh.movie_id
+    WHERE wh.user_id = auth.uid()
+  ),
+  -- Every episode of the watched titles in play order
+  title_episodes AS (
+    SELECT m.id, m.title, m.genre, m.view_count, m.poster_url, m.landscape_poster_url, m.badge,
+      m.synopsis, m.episodes, m.duration_seconds, m.created_at, m.series_id, m.season_id, m.episode_number,
+      coalesce(m.series_id, m.id::text) AS title_key,
+      se.season_number,
+      row_number() OVER (PARTITION BY m.season_id ORDER BY m.episode_number NULLS LAST, m.id) AS season_episode_number,
+      row_number() OVER (
+        PARTITION BY coalesce(m.series_id, m.id::text)
+        ORDER BY se.season_number NULLS LAST, m.episode_number NULLS LAST, m.id
+      ) AS play_order
+    FROM movies m
+    LEFT JOIN seasons se ON se.id = m.season_id
+    WHERE coalesce(m.series_id, m.id::text) IN (SELECT h.title_key FROM history h)
+  ),
+  latest AS (
+    SELECT DISTINCT ON (h.title_key) h.title_key, h.movie_id, h.progress_seconds, h.total_duration_seconds,
+      h.last_watched_at, h.is_finished, te.play_order
+    FROM history h
+    JOIN title_episodes te ON te.id = h.movie_id
+    ORDER BY h.title_key, h.last_watched_at DESC
+  ),
+  title_progress AS (
+    SELECT h.title_key, count(*) FILTER (WHERE h.is_finished) AS completed_episodes
+    FROM history h
+    GROUP BY h.title_key
+  ),
+  title_totals AS (
+    SELECT te.title_key, count(*) AS total_episodes
+    FROM title_episodes te
+    GROUP BY te.title_key
+  ),
+  resume AS (
+    SELECT l.*, coalesce(next_episode.id, l.movie_id) AS resume_movie_id,
+      (l.is_finished AND next_episode.id IS NULL) AS is_completed
+    FROM latest l
+    LEFT JOIN LATERAL (
+      SELECT te.id
+      FROM title_episodes te
+      WHERE l.is_finished
+        AND te.title_key = l.title_key
+        AND te.play_order > l.play_order
+      ORDER BY te.play_order
+      LIMIT 1
+    ) next_episode ON true
+  )
+  SELECT te.id, te.title, te.genre, te.view_count,
+    coalesce(s.poster_url, te.poster_url),
+    coalesce(s.landscape_poster_url, te.landscape_poster_url),
+    te.badge, te.synopsis, te.episodes, te.duration_seconds, te.created_at, te.series_id, te.season_id, te.episode_number,
+    CASE WHEN r.resume_movie_id = r.movie_id THEN r.progress_seconds ELSE 0 END,
+    CASE WHEN r.resume_movie_id = r.movie_id THEN r.total_duration_seconds ELSE coalesce(te.duration_seconds, 0) END,
+    r.last_watched_at,
+    s.title,
+    te.season_number,
+    CASE WHEN te.series_id IS NULL THEN NULL ELSE te.season_episode_number::integer END,
+    tp.completed_episodes::integer,
+    CASE
+      WHEN te.series_id IS NULL THEN
+        CASE WHEN r.total_duration_seconds > 0
+          THEN least(round(100.0 * r.progress_seconds / r.total_duration_seconds), 100)::integer
+          ELSE 0
+        END
+      ELSE least(round(100.0 * tp.completed_episodes / greatest(tt.total_episodes, 1)), 100)::integer
+    END,
+    r.is_completed
+  FROM resume r
+  JOIN title_episodes te ON te.id = r.resume_movie_id
+  JOIN title_progress tp ON tp.title_key = r.title_key
+  JOIN title_totals tt ON tt.title_key = r.title_key
+  LEFT JOIN series s ON s.id = te.series_id
+  ORDER BY r.last_watched_at DESC
+  LIMIT least(greatest(coalesce(p_limit, 20), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION continue_watching(integer) TO authenticated;
+
+-- Recommendations leave out finished titles by the same rule
+CREATE OR REPLACE FUNCTION recommended_rails(
+  p_rail_count integer DEFAULT 3,
+  p_limit integer DEFAULT 12
+)
+RETURNS TABLE (
+  seed_movie_id integer,
+  seed_title text,
+  seed_source text,
+  id integer,
+  title text,
+  genre text,
+  view_count bigint,
+  poster_url text,
+  landscape_poster_url text,
+  badge text,
+  synopsis text,
+  episodes integer,
+  duration_seconds integer,
+  created_at timestamptz,
+  series_id text,
+  episode_number integer,
+  score numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_rail_count integer := least(greatest(coalesce(p_rail_count, 3), 1), 10);
+  v_limit integer := least(greatest(coalesce(p_limit, 12), 1), 50);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH titles AS (
+    -- A standalone movie or a whole series, keyed the same way
+    SELECT m.id AS movie_id, coalesce(m.series_id, m.id::text) AS title_key
+    FROM movies m
+  ),
+  openers AS (
+    SELECT m.id, m.title, m.genre, m.view_count, coalesce(m.series_id, m.id::text) AS title_key
+    FROM movies m
+    WHERE m.series_id IS NULL OR m.id IN (SELECT s.first_episode_id FROM series s)
+  ),
+  viewings AS (
+    SELECT DISTINCT wh.user_id, t.title_key
+    FROM user_watch_history wh
+    JOIN titles t ON t.movie_id = wh.movie_id
+  ),
+  -- Movies watched to the end, and series whose last episode was
+  finished AS (
+    SELECT DISTINCT coalesce(m.series_id, m.id::text) AS title_key
+    FROM user_watch_history wh
+    JOIN movies m ON m.id = wh.movie_id
+    WHERE wh.user_id = v_user_id
+      AND is_finished_position(wh.progress_seconds, wh.total_duration_seconds, m.credits_start_seconds)
+      AND (
+        m.series_id IS NULL
+        OR m.episode_number = (SELECT max(e.episode_number) FROM movies e WHERE e.series_id = m.series_id)
+      )
+  ),
+  saved AS (
+    SELECT DISTINCT t.title_key
+    FROM user_watchlist wl
+    JOIN titles t ON t.movie_id = wl.movie_id
+    WHERE wl.user_id = v_user_id
+  ),
+  activity AS (
+    SELECT DISTINCT ON (a.title_key) a.title_key, a.seed_source, a.seen_at
+    FROM (
+      SELECT t.title_key, 'watched' AS seed_source, wh.last_watched_at AS seen_at
+      FROM user_watch_history wh
+      JOIN titles t ON t.movie_id = wh.movie_id
+      WHERE wh.user_id = v_user_id
+      UNION ALL
+      SELECT t.title_key, 'watchlist' AS seed_source, wl.created_at AS seen_at
+      FROM user_watchlist wl
+      JOIN titles t ON t.movie_id = wl.movie_id
+      WHERE wl.user_id = v_user_id
+    ) a
+    ORDER BY a.title_key, a.seen_at DESC
+  ),
+  seeds AS (
+    SELECT o.id AS seed_movie_id, o.title AS seed_title, o.genre AS seed_genre, a.seed_source, a.seen_at, a.title_key,
+      (SELECT count(*) FROM viewings v WHERE v.title_key = a.title_key AND v.user_id <> v_user_id)::integer AS seed_watchers
+    FROM activity a
+    JOIN openers o ON o.title_key = a.title_key
+    ORDER BY a.seen_at DESC, o.id
+    LIMIT v_rail_count
+  ),
+  co_watch AS (
+    SELECT s.title_key AS seed_key, other.title_key AS candidate_key, count(*)::integer AS co_watchers
+    FROM seeds s
+    JOIN viewings seed_viewer ON seed_viewer.title_key = s.title_key AND seed_viewer.user_id <> v_user_id
+    JOIN viewings other ON other.user_id = seed_viewer.user_id AND other.title_key <> s.title_key
+    GROUP BY s.title_key, other.title_key
+  ),
+  shared_tags AS (
+    SELECT s.title_key AS seed_key, candidate_tag.movie_id AS candidate_id, count(*)::integer AS shared
+    FROM seeds s
+    JOIN movie_tags seed_tag ON seed_tag.movie_id = s.seed_movie_id
+    JOIN movie_tags candidate_tag ON candidate_tag.tag_id = seed_tag.tag_id AND candidate_tag.movie_id <> s.seed_movie_id
+    GROUP BY s.title_key, candidate_tag.movie_id
+  ),
+  scored AS (
+    SELECT s.seed_movie_id, s.seed_title, s.seed_source, s.seen_at, o.id AS movie_id,
+      recommendation_score(cw.co_watchers, s.seed_watchers, o.genre = s.seed_genre, st.shared, o.view_count) AS score
+    FROM seeds s
+    JOIN openers o ON o.title_key <> s.title_key
+    LEFT JOIN co_watch cw ON cw.seed_key = s.title_key AND cw.candidate_key = o.title_key
+    LEFT JOIN shared_tags st ON st.seed_key = s.title_key AND st.candidate_id = o.id
+    WHERE (cw.co_watchers IS NOT NULL OR o.genre = s.seed_genre OR st.shared IS NOT NULL)
+      AND o.title_key NOT IN (SELECT f.title_key FROM finished f)
+      AND o.title_key NOT IN (SELECT sd.title_key FROM seeds sd)
+      AND o.title_key NOT IN (SELECT sv.title_key FROM saved sv)
+  ),
+  ranked AS (
+    SELECT sc.*, row_number() OVER (PARTITION BY sc.seed_movie_id ORDER BY sc.score DESC, sc.movie_id) AS position
+    FROM scored sc
+  )
+  SELECT r.seed_movie_id, r.seed_title, r.seed_source,
+         m.id, m.title, m.genre, m.view_count, m.poster_url, m.landscape_poster_url, m.badge,
+         m.synopsis, m.episodes, m.duration_seconds, m.created_at, m.series_id, m.episode_number,
+         r.score
+  FROM ranked r
+  JOIN movies m ON m.id = r.movie_id
+  WHERE r.position <= v_limit
+  ORDER BY r.seen_at DESC, r.seed_movie_id, r.position;
+END;
+$$;
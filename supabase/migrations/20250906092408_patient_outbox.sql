@@ -0,0 +1,48 @@
+/*
+  # Replaying queued progress
+
+  1. Functions
+    - `merge_watch_progress(p_movie_id, p_progress_seconds, p_total_duration_seconds, p_last_watched_at)`
+      - Upserts the signed-in viewer's progress the way a write queued while
+        offline should land: the furthest position wins, so replaying an old
+        write never rewinds progress made meanwhile on another device
+      - `last_watched_at` keeps the later of the two times
+
+  2. Security
+    - Add the missing update policy on `user_watchlist`: a queued add is
+      replayed as an upsert, whose conflict path is an update, and moving a
+      title to another category updates the viewer's own row
+
+  3. Notes
+    - Live writes from the player still upsert directly, since starting a
+      title over is meant to move the position back
+*/
+
+CREATE OR REPLACE FUNCTION merge_watch_progress(
+  p_movie_id integer,
+  p_progress_seconds integer,
+  p_total_duration_seconds integer,
+  p_last_watched_at timestamptz
+)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  INSERT INTO user_watch_history (user_id, movie_id, progress_seconds, total_duration_seconds, last_watched_at)
+  VALUES (auth.uid(), p_movie_id, p_progress_seconds, p_total_duration_seconds, coalesce(p_last_watched_at, now()))
+  ON CONFLICT (user_id, movie_id) DO UPDATE SET
+    progress_seconds = greatest(user_watch_history.progress_seconds, EXCLUDED.progress_seconds),
+    total_duration_seconds = greatest(user_watch_history.total_duration_seconds, EXCLUDED.total_duration_seconds),
+    last_watched_at = greatest(user_watch_history.last_watched_at, EXCLUDED.last_watched_at);
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_watch_progress(integer, integer, integer, timestamptz) TO authenticated;
+
+DROP POLICY IF EXISTS "Users can update their own watchlist" ON user_watchlist;
+
+CREATE POLICY "Users can update their own watchlist"
+  ON user_watchlist
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
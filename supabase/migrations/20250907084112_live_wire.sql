@@ -0,0 +1,38 @@
+/*
+  # Realtime for balances, unlocks, watchlists and comments
+
+  1. Changes
+    - Adds `user_balances`, `user_episode_unlocks`, `user_watchlist` and
+      `movie_comments` to the `supabase_realtime` publication, so an open app
+      hears about coins credited by the Stripe webhook, episodes unlocked or
+      titles saved on another device, and new comments
+
+  2. Security
+    - Realtime applies the tables' existing RLS policies, so viewers only
+      receive their own balance, unlocks and watchlist rows
+
+  3. Notes
+    - Delete events on tables with RLS carry only the primary key and cannot
+      be filtered; the app matches them by id or refetches
+*/
+
+DO $$
+DECLARE
+  realtime_table text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH realtime_table IN ARRAY ARRAY['user_balances', 'user_episode_unlocks', 'user_watchlist', 'movie_comments']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = realtime_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', realtime_table);
+    END IF;
+  END LOOP;
+END $$;
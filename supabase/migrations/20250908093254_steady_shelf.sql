@@ -0,0 +1,57 @@
+/*
+  # Manual watchlist order
+
+  1. Modified Tables
+    - `user_watchlist`
+      - Add `position` (text, fractional index key for the viewer's own order)
+    - `user_watchlist_categories`
+      - Add `position` (text, fractional index key for the order of categories)
+    - Keys compare byte by byte (`COLLATE "C"`), the same way the client
+      compares them, and a new key can always be made between two others,
+      so moving one item only ever rewrites that item's row
+
+  2. Data
+    - Existing titles are numbered newest first, matching the order the
+      watchlist has been shown in so far
+    - Existing categories are numbered by name
+
+  3. Security
+    - Moving a title relies on the `user_watchlist` update policy added
+      with the sync queue
+
+  4. Indexes
+    - Index on (`user_id`, `position`) for both tables
+*/
+
+ALTER TABLE user_watchlist ADD COLUMN IF NOT EXISTS position text COLLATE "C";
+ALTER TABLE user_watchlist_categories ADD COLUMN IF NOT EXISTS position text COLLATE "C";
+
+-- Zero-padded numbers with a trailing mid-alphabet digit: ordered as strings,
+-- and never ending in '0', which the client's key generator relies on
+UPDATE user_watchlist wl
+SET position = numbered.position
+FROM (
+  SELECT
+    id,
+    lpad(row_number() OVER (PARTITION BY user_id ORDER BY created_at DESC, id)::text, 6, '0') || 'V' AS position
+  FROM user_watchlist
+) numbered
+WHERE wl.id = numbered.id
+  AND wl.position IS NULL;
+
+UPDATE user_watchlist_categories c
+SET position = numbered.position
+FROM (
+  SELECT
+    id,
+    lpad(row_number() OVER (PARTITION BY user_id ORDER BY name, id)::text, 6, '0') || 'V' AS position
+  FROM user_watchlist_categories
+) numbered
+WHERE c.id = numbered.id
+  AND c.position IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_watchlist_position
+  ON user_watchlist(user_id, position);
+
+CREATE INDEX IF NOT EXISTS idx_user_watchlist_categories_position
+  ON user_watchlist_categories(user_id, position);
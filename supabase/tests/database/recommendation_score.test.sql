@@ -0,0 +1,66 @@
+/*
+  # recommendation_score
+
+  Checks each weight on its own, then ranks a fixed set of candidates for
+  one seed the way recommended_rails does. Run with `supabase test db`.
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+SELECT volatility_is(
+  'public', 'recommendation_score',
+  ARRAY['integer', 'integer', 'boolean', 'integer', 'bigint'],
+  'immutable',
+  'recommendation_score is immutable'
+);
+
+-- Weights
+SELECT is(recommendation_score(0, 0, false, 0, 0), 0::numeric, 'no signal scores zero');
+SELECT is(recommendation_score(NULL, NULL, NULL, NULL, NULL), 0::numeric, 'missing inputs count as zero');
+SELECT is(recommendation_score(-3, -1, false, -2, -5), 0::numeric, 'negative inputs count as zero');
+SELECT is(recommendation_score(5, 0, false, 0, 0), 3::numeric, 'five co-watchers of an unwatched seed score three');
+SELECT is(recommendation_score(5, 5, false, 0, 0), 1.5::numeric, 'co-watching is damped by the seed''s own watchers');
+SELECT is(recommendation_score(0, 0, true, 0, 0), 1::numeric, 'the same genre adds one');
+SELECT is(recommendation_score(0, 0, false, 2, 0), 1::numeric, 'each shared tag adds a half');
+SELECT is(recommendation_score(0, 0, false, 10, 0), 2::numeric, 'shared tags stop counting after four');
+SELECT is(recommendation_score(0, 0, false, 0, 999), 0.3::numeric, 'popularity adds a tenth per order of magnitude');
+SELECT is(recommendation_score(0, 0, false, 0, 1234567), 0.609152::numeric, 'scores are rounded to six places');
+
+SELECT cmp_ok(
+  recommendation_score(0, 0, false, 0, 1000000000),
+  '<',
+  recommendation_score(0, 0, true, 0, 0),
+  'a billion views count for less than a matching genre'
+);
+
+SELECT cmp_ok(
+  recommendation_score(1, 0, false, 0, 0),
+  '>',
+  recommendation_score(0, 0, false, 1, 0),
+  'one co-watcher of a niche seed beats a shared tag'
+);
+
+-- Ranking: score descending, ties by id, as in recommended_rails
+SELECT results_eq(
+  $$
+    SELECT c.id
+    FROM (VALUES
+      (1, recommendation_score(4, 5, false, 0, 0)),       -- 1.2
+      (2, recommendation_score(0, 5, true, 1, 0)),        -- 1.5
+      (3, recommendation_score(0, 5, false, 2, 1000000)), -- 1.6
+      (4, recommendation_score(10, 5, false, 0, 0)),      -- 3
+      (5, recommendation_score(0, 5, true, 0, 99))        -- 1.2
+    ) AS c(id, score)
+    ORDER BY c.score DESC, c.id
+  $$,
+  ARRAY[4, 3, 2, 1, 5],
+  'candidates rank by score, then id'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;